@@ -2,20 +2,59 @@ import {
   StateGraph,
   MessagesAnnotation,
   Annotation,
+  interrupt,
   START,
   END,
+  type LangGraphRunnableConfig,
 } from "@langchain/langgraph";
 import { ToolNode } from "@langchain/langgraph/prebuilt";
 import { ChatOpenAI } from "@langchain/openai";
 import { tool } from "@langchain/core/tools";
+import { dispatchCustomEvent } from "@langchain/core/callbacks/dispatch";
 import {
   AIMessage,
   SystemMessage,
   HumanMessage,
+  ToolMessage,
   BaseMessage,
 } from "@langchain/core/messages";
 import { z } from "zod";
-import { classifyDataset, formatStrategyPrompt } from "./analysis-strategies";
+import {
+  classifyDataset,
+  formatStrategyPrompt,
+  STRATEGY_NAMES,
+  type AnalysisStrategy,
+} from "./analysis-strategies";
+import { CalculationError, evaluateExpression } from "./calculator";
+import {
+  applyPlanUpdate,
+  isPlanComplete,
+  nextPendingIndex,
+  type PlanUpdateAction,
+  type PlanUpdateArgs,
+} from "./plan-updates";
+import { canAutoRun, type ApprovalPolicy } from "./approval";
+import { BoundedMemorySaver } from "./checkpointer";
+import {
+  canAutoRepair,
+  nextRepairState,
+  repairInstruction,
+  type RepairState,
+} from "./repair";
+import { isSessionModeEnabled } from "@/app/lib/sandbox/sessions";
+import { runPythonCode, type ExecutionFile } from "@/app/lib/sandbox/execute";
+import type { ExecutionErrorDetails } from "@/app/lib/sandbox/traceback";
+import { searchDocuments } from "@/app/lib/knowledge";
+import {
+  archiveExtractDir,
+  detectDataFormat,
+  pandasReadCall,
+  type DataFormat,
+} from "@/app/lib/data-formats";
+import type { FileLineage } from "@/app/lib/lineage";
+
+/** Whether execute_python runs in a persistent per-conversation kernel. */
+const SESSION_MODE = isSessionModeEnabled();
 
 // ============================================================
 // Plan Types
@@ -25,8 +64,21 @@ export interface PlanStep {
   id: string;
   title: string;
   description?: string;
-  status: "pending" | "in_progress" | "completed" | "failed";
+  status: "pending" | "in_progress" | "completed" | "failed" | "skipped";
   result?: string;
+  /** How many times the step has been run (set once it is retried). */
+  attempts?: number;
+  /** Revision that inserted the step; absent for steps of the original plan. */
+  addedInRevision?: number;
+}
+
+/** One entry of the plan's change log, appended by `update_plan`. */
+export interface PlanRevision {
+  revision: number;
+  action: PlanUpdateAction;
+  stepId: string;
+  note?: string;
+  at: number;
 }
 
 export interface Plan {
@@ -34,8 +86,13 @@ export interface Plan {
   steps: PlanStep[];
   currentStepIndex: number;
   isComplete: boolean;
+  revision?: number;
+  revisions?: PlanRevision[];
 }
 
+/** Auto-run as a repair attempt, auto-run under the approval policy, or wait for the user. */
+type CodeRun = "repair" | "auto" | "ask";
+
 // Extended State with Plan support
 const PlanAnnotation = Annotation.Root({
   ...MessagesAnnotation.spec,
@@ -52,12 +109,25 @@ const PlanAnnotation = Annotation.Root({
     default: () => [],
     reducer: (_, newVal) => newVal,
   }),
+  // Open auto-repair chain after a failed execution (null when none)
+  repair: Annotation<RepairState | null>({
+    default: () => null,
+    reducer: (_, newVal) => newVal,
+  }),
+  // How the pending execute_python calls run, decided by the code gate
+  // before the hitl node so a resume never re-decides it
+  codeRun: Annotation<CodeRun | null>({
+    default: () => null,
+    reducer: (_, newVal) => newVal,
+  }),
 });
 
 // ============================================================
 // Tool Definitions
 // ============================================================
 
+// confirm_action: like execute_python, bound to the model but never run by
+// the ToolNode — the confirm node pauses the graph until the user decides.
 const confirmAction = tool(
   async ({ action, description }) => {
     return JSON.stringify({
@@ -81,22 +151,30 @@ const confirmAction = tool(
 );
 
 const searchKnowledge = tool(
-  async ({ query }) => {
+  async ({ query, topK }) => {
+    const results = await searchDocuments(query, topK);
     return JSON.stringify({
       type: "search_result",
       query,
-      results: [
-        `Found relevant information about: ${query}`,
-        "This is a simulated search result for the MVP demo.",
-      ],
+      results,
+      ...(results.length === 0
+        ? { message: "知识库中没有找到相关内容（或知识库为空）" }
+        : {}),
     });
   },
   {
     name: "search_knowledge",
     description:
-      "Search the knowledge base for relevant information. Use this when the user asks about specific topics.",
+      "Search the knowledge base of uploaded reference documents (data dictionaries, metric definitions, past reports, codebooks). Returns ranked snippets with their source document and section. Use this when the user asks about field meanings, metric definitions, business rules or previous findings.",
     schema: z.object({
-      query: z.string().describe("The search query"),
+      query: z.string().describe("The search query (keywords or a short question)"),
+      topK: z
+        .number()
+        .int()
+        .min(1)
+        .max(10)
+        .optional()
+        .describe("Maximum number of snippets to return (default 5)"),
     }),
   }
 );
@@ -104,27 +182,44 @@ const searchKnowledge = tool(
 const calculateData = tool(
   async ({ expression }) => {
     try {
-      const result = Function(`"use strict"; return (${expression})`)();
-      return JSON.stringify({ type: "calculation", expression, result });
-    } catch {
+      const { result, unit, formatted } = evaluateExpression(expression);
+      return JSON.stringify({ type: "calculation", expression, result, unit, formatted });
+    } catch (error: unknown) {
       return JSON.stringify({
         type: "calculation_error",
         expression,
-        error: "Invalid expression",
+        reason: error instanceof CalculationError ? error.reason : "syntax_error",
+        error: error instanceof Error ? error.message : "Invalid expression",
       });
     }
   },
   {
     name: "calculate",
-    description: "Perform a mathematical calculation.",
+    description:
+      "Evaluate a math expression. Supports + - * / mod, ^ (power), parentheses, percentages (15%, 15% of 240), pi/e, scale words (k, 万, 亿, million), functions sqrt/cbrt/abs/exp/ln/log(x, base)/log10/log2/round(x, digits)/floor/ceil/pow, statistics over inline lists (sum, mean, median, min, max, count, std, var, percentile([..], p)) and units of length/mass/time/data with conversion (e.g. '5 km + 300 m', '90 min in h'). Variables and code are not supported — use execute_python for data.",
     schema: z.object({
       expression: z
         .string()
-        .describe("The mathematical expression to evaluate"),
+        .describe("The mathematical expression to evaluate, e.g. 'mean([12, 15, 9]) * 1.08'"),
     }),
   }
 );
 
+/** Form the user answers an `ask_for_information` question with. */
+export const INFORMATION_ANSWER_TYPES = [
+  "text",
+  "single_choice",
+  "multi_choice",
+  "number",
+  "date_range",
+  "columns",
+  "yes_no",
+] as const;
+
+export type InformationAnswerType = (typeof INFORMATION_ANSWER_TYPES)[number];
+
+// ask_for_information: bound to the model but never run by the ToolNode —
+// the ask_user node pauses the graph until the user submits the form.
 const askForInformation = tool(
   async ({ question, context }) => {
     return JSON.stringify({
@@ -137,7 +232,7 @@ const askForInformation = tool(
   {
     name: "ask_for_information",
     description:
-      "When you need more information from the user to complete a task, use this tool to ask specific questions. This helps you gather requirements, clarify ambiguities, or understand user preferences before proceeding with analysis or code execution.",
+      "When you need more information from the user to complete a task, use this tool to ask specific questions. This helps you gather requirements, clarify ambiguities, or understand user preferences before proceeding with analysis or code execution. Pick the answerType that fits the question so the user gets a form instead of typing: choices, a bounded number, a date range, columns of an uploaded file or yes/no. The user's answer comes back as this tool's result.",
     schema: z.object({
       question: z
         .string()
@@ -150,6 +245,67 @@ const askForInformation = tool(
           "Brief context explaining why you need this information (optional)"
         )
         .optional(),
+      answerType: z
+        .enum(INFORMATION_ANSWER_TYPES)
+        .describe(
+          "Form shown to the user: text (default), single_choice / multi_choice (set options), number (optionally min / max), date_range, columns (pick columns of a session file), yes_no"
+        )
+        .optional(),
+      options: z
+        .array(z.string())
+        .describe("Choices for single_choice / multi_choice")
+        .optional(),
+      min: z.number().describe("Lowest allowed value for number").optional(),
+      max: z.number().describe("Highest allowed value for number").optional(),
+      file: z
+        .string()
+        .describe("For columns: name of the session file whose columns are offered (default: the first data file)")
+        .optional(),
+    }),
+  }
+);
+
+/** An analysis direction offered to the user — a subset of AnalysisStrategy. */
+export type AnalysisOption = Pick<AnalysisStrategy, "name" | "reason" | "priority">;
+
+// present_analysis_options: Shows the recommended strategies as a selectable card.
+// The graph stops afterwards and waits for the user's choice.
+const presentAnalysisOptions = tool(
+  async ({ summary, options }) => {
+    // One card entry per strategy
+    const unique = options.filter((o, i) => options.findIndex((other) => other.name === o.name) === i);
+    const sorted: AnalysisOption[] = unique.sort((a, b) => b.priority - a.priority);
+    return JSON.stringify({
+      type: "analysis_options",
+      summary,
+      options: sorted,
+      status: "waiting_for_selection",
+    });
+  },
+  {
+    name: "present_analysis_options",
+    description:
+      "Present recommended analysis directions to the user as an interactive, multi-select card after data upload. Seed the options from the 推荐分析策略 in the file context: reuse each strategy's name, reason and priority as given; names outside that strategy list are rejected. After calling this tool, stop and wait for the user's selection.",
+    schema: z.object({
+      summary: z
+        .string()
+        .describe("One-sentence overview of the dataset shown above the options")
+        .optional(),
+      options: z
+        .array(
+          z.object({
+            name: z.enum(STRATEGY_NAMES).describe("Strategy name from 推荐分析策略, e.g. '时间序列分析'"),
+            reason: z.string().describe("Why this strategy fits the dataset"),
+            priority: z
+              .number()
+              .min(1)
+              .max(10)
+              .describe("Relevance from 1 to 10, higher = more relevant"),
+          })
+        )
+        .min(1)
+        .max(8)
+        .describe("Analysis options to offer"),
     }),
   }
 );
@@ -193,46 +349,105 @@ const createPlan = tool(
   }
 );
 
-// execute_python: bound to the model so it can call it,
-// but never executed server-side — handled via HITL on the client.
+// update_plan: Revise the active plan mid-execution. Applied by the
+// plan_tools node, which owns the plan state.
+const updatePlan = tool(
+  async () => {
+    return JSON.stringify({
+      type: "plan_update_error",
+      error: "update_plan must be applied by the plan node",
+    });
+  },
+  {
+    name: "update_plan",
+    description:
+      "Revise the active plan while executing it. Actions: insert_step (add a step after afterStepId, or as the next step when omitted), skip_step (mark a step skipped with a reason), retry_step (re-run a failed or skipped step next), move_step (reorder a step that has not run yet after afterStepId, or make it next when omitted), set_result (record a one-line result summary for a step). Step ids look like 'step-1'.",
+    schema: z.object({
+      action: z
+        .enum(["insert_step", "skip_step", "retry_step", "move_step", "set_result"])
+        .describe("The revision to apply"),
+      stepId: z.string().optional().describe("Target step id (skip/retry/move/set_result)"),
+      afterStepId: z
+        .string()
+        .optional()
+        .describe("Anchor step id for insert_step / move_step"),
+      title: z.string().optional().describe("Title of the new step (insert_step)"),
+      description: z.string().optional().describe("Description of the new step (insert_step)"),
+      result: z.string().optional().describe("Short result summary (set_result)"),
+      reason: z.string().optional().describe("Why the plan changes (shown to the user)"),
+    }),
+  }
+);
+
+// execute_python: bound to the model so it can call it, but never run by
+// the ToolNode — the hitl node either waits for the user or, when the
+// approval policy allows, runs the code inline.
 const executePython = tool(
   async () => {
     return JSON.stringify({ type: "hitl_required" });
   },
   {
     name: "execute_python",
-    description:
-      "Execute Python code in a fresh Jupyter notebook sandbox and return the result. IMPORTANT: Each invocation creates a NEW isolated sandbox — variables, imports, and files from previous executions are NOT available. Every code block MUST be fully self-contained with all imports, file reads (e.g. pd.read_csv('/home/user/xxx.csv')), and variable definitions. If a task has multiple steps, combine them into a single code block. The sandbox has common data science packages pre-installed (pandas, numpy, matplotlib, seaborn, scikit-learn, etc.).",
+    description: SESSION_MODE
+      ? "Execute Python code in this conversation's persistent Jupyter kernel and return the result. The kernel stays alive across calls: variables, imports, loaded DataFrames and files from previous executions ARE available, so do not reload data or repeat imports that already ran successfully. Files live under /home/user (e.g. pd.read_csv('/home/user/xxx.csv')). If a previous execution failed, variables it would have defined may not exist. The sandbox has common data science packages pre-installed (pandas, numpy, matplotlib, seaborn, scikit-learn, etc.)."
+      : "Execute Python code in a fresh Jupyter notebook sandbox and return the result. IMPORTANT: Each invocation creates a NEW isolated sandbox — variables, imports, and files from previous executions are NOT available. Every code block MUST be fully self-contained with all imports, file reads (e.g. pd.read_csv('/home/user/xxx.csv')), and variable definitions. If a task has multiple steps, combine them into a single code block. The sandbox has common data science packages pre-installed (pandas, numpy, matplotlib, seaborn, scikit-learn, etc.).",
     schema: z.object({
       code: z
         .string()
         .describe(
-          "The complete, self-contained Python code to execute. MUST include all necessary imports, data loading, and variable definitions — do NOT reference variables from previous executions."
+          SESSION_MODE
+            ? "The Python code to execute. May reuse variables and imports defined by earlier successful executions in this conversation."
+            : "The complete, self-contained Python code to execute. MUST include all necessary imports, data loading, and variable definitions — do NOT reference variables from previous executions."
         ),
     }),
   }
 );
 
 /** Safe tools — auto-executed by the ToolNode inside the graph */
-const safeTools = [confirmAction, searchKnowledge, calculateData, askForInformation];
+const safeTools = [
+  searchKnowledge,
+  calculateData,
+  presentAnalysisOptions,
+];
 
 /** All tools — bound to the model so the LLM can call any of them */
-const allTools = [...safeTools, executePython, createPlan];
+const allTools = [
+  ...safeTools,
+  confirmAction,
+  askForInformation,
+  executePython,
+  createPlan,
+  updatePlan,
+];
+
+/** Tools answered by the user; handled by the ask_user node. */
+const USER_INPUT_TOOL_NAMES = new Set(["confirm_action", "ask_for_information"]);
+
+/** Tools that read or write the plan state; handled by the plan_tools node. */
+const PLAN_TOOL_NAMES = new Set(["create_plan", "update_plan"]);
 
 // ============================================================
 // System Prompt
 // ============================================================
 
+const CODE_EXECUTION_RULES = SESSION_MODE
+  ? `- 本会话的 execute_python 共享同一个持久化内核，变量、import 和已加载的数据会保留
+- 已成功加载的数据和定义的变量可直接复用，不要重复读取大文件
+- 如果上一次执行报错，其中定义的变量可能不存在，需要重新定义`
+  : `- 每次 execute_python 都是全新沙盒，变量不保留
+- 每个代码块必须完整独立：包含所有import、数据加载、变量定义`;
+
 const SYSTEM_PROMPT = `你是 Next Analyst，一个数据分析助手。请用中文回答。
 
 ## 可用工具
-- execute_python: 在隔离沙盒中执行Python代码（pandas/numpy/matplotlib/seaborn/sklearn已预装）
+- execute_python: ${SESSION_MODE ? "在本会话的持久化内核中执行Python代码" : "在隔离沙盒中执行Python代码"}（pandas/numpy/matplotlib/seaborn/sklearn已预装）
 - create_plan: 创建执行计划，将复杂任务分解为多个步骤（计划步骤状态会自动更新，无需手动管理）
+- update_plan: 执行中修订计划（插入、跳过、重试、调整顺序、记录步骤结果）
 - present_analysis_options: 【必须调用】上传数据后展示分析选项，禁止用文本列出选项
-- ask_for_information: 需要更多信息时向用户提问
+- ask_for_information: 需要更多信息时向用户提问；用 answerType 提供表单（单选/多选/数字/日期范围/选择列/是否），调用后等待用户回答
 - confirm_action: 危险操作前获取用户确认
-- search_knowledge: 搜索知识库
-- calculate: 简单数学计算
+- search_knowledge: 搜索用户上传的知识库（数据字典、指标定义、历史报告）
+- calculate: 数学计算（四则运算、百分比、单位换算、列表统计）
 
 ## 核心规则
 
@@ -241,6 +456,7 @@ const SYSTEM_PROMPT = `你是 Next Analyst，一个数据分析助手。请用
 1. 首先调用 create_plan 工具创建执行计划
 2. 然后按顺序执行每个步骤（系统会自动更新步骤状态）
 3. 每个步骤对应一次 execute_python 调用
+4. 执行中根据结果用 update_plan 修订计划：步骤失败时修正代码后 retry_step 重试，或 skip_step 跳过并说明原因；发现需要额外步骤时 insert_step；步骤完成后可用 set_result 记录一句话结论
 
 不需要创建计划的情况：
 - 简单的单步操作（如"查看数据前5行"）
@@ -254,8 +470,7 @@ const SYSTEM_PROMPT = `你是 Next Analyst，一个数据分析助手。请用
 3. 等待用户选择后执行分析
 
 ### 3. 代码执行规范
-- 每次 execute_python 都是全新沙盒，变量不保留
-- 每个代码块必须完整独立：包含所有import、数据加载、变量定义
+${CODE_EXECUTION_RULES}
 - 文件路径: /home/user/文件名
 - 生成的文件会自动保留，后续可直接使用
 
@@ -270,18 +485,78 @@ plt.savefig('output.png', dpi=150, bbox_inches='tight')
 
 ### 6. 其他
 - 系统会提供数据预览（列名、类型、统计摘要、空值情况）和推荐分析策略，据此制定分析方案
-- 危险操作（删除数据等）需先用 confirm_action 确认
-- 执行代码后解释结果`;
+- 危险操作（删除数据等）需先用 confirm_action 确认，收到用户的决定后再执行，不要在同一次回复中提交相关代码
+- 执行代码后解释结果
+- 涉及字段含义、指标口径或业务规则时先用 search_knowledge 查询，引用时注明来源，如「（来源: 文件名 › 章节）」`;
 
 // ============================================================
 // Helpers — File Context & Message Building
 // ============================================================
 
+export interface CsvDialect {
+  encoding: string;
+  sep: string;
+  quotechar: string;
+  /** Preamble lines before the header row */
+  skiprows: number;
+  hasHeader: boolean;
+  decimal: string;
+  /** Thousands separator, when numbers are grouped ("1,234") */
+  thousands?: string | null;
+}
+
+export type ColumnSemanticType =
+  | "numeric"
+  | "identifier"
+  | "datetime"
+  | "categorical"
+  | "boolean"
+  | "text"
+  | "constant"
+  | "unknown";
+
+/** Per-column facts computed by the preview on the sampled rows */
+export interface ColumnProfile {
+  name: string;
+  dtype: string;
+  nonNull: number;
+  unique: number;
+  topValues: Array<{ value: string; count: number }>;
+  numeric?: {
+    min: number | null;
+    max: number | null;
+    mean: number | null;
+    std: number | null;
+    integer: boolean;
+    histogram: { edges: Array<number | null>; counts: number[] };
+  };
+  datetime?: { min: string; max: string };
+  stringLength?: { min: number; max: number; mean: number; median: number };
+  /** Share of sampled strings that parse as dates */
+  dateParseRatio?: number;
+  semanticType: ColumnSemanticType;
+  error?: string;
+}
+
+export interface TablePreview {
+  name: string;
+  shape: [number, number];
+  columns: string[];
+  dtypes: Record<string, string>;
+  head: string;
+  describe: string;
+  null_counts: Record<string, number>;
+  columnProfiles?: ColumnProfile[];
+  error?: string;
+}
+
 export interface FileInfo {
   name: string;
   size: number;
   preview: string;
   isGenerated?: boolean;
+  /** Generated files: the run that wrote them (without its code) */
+  lineage?: Omit<FileLineage, "code" | "producedAt" | "toolCallId">;
   richPreview?: {
     fileName: string;
     shape: [number, number];
@@ -290,11 +565,144 @@ export interface FileInfo {
     head: string;
     describe: string;
     null_counts: Record<string, number>;
+    /** Value-based column facts; absent for previews of generated files */
+    columnProfiles?: ColumnProfile[];
+    format?: DataFormat;
+    /** Excel sheets, SQLite tables or archive members; the fields above mirror the first non-empty one */
+    tables?: TablePreview[];
+    tableCount?: number;
+    /** Text tables: sniffed read_csv arguments, verified by the preview */
+    csvDialect?: CsvDialect;
+    /** Non-default read call the preview had to use */
+    readCall?: string;
+    /** SPSS / Stata variable labels */
+    columnLabels?: Record<string, string>;
   };
 }
 
+/** The exact `pd.read_csv(...)` call the preview parsed a text table with. */
+function formatReadCsvCall(path: string, dialect: CsvDialect): string {
+  // JSON string literals are valid Python literals for these short values
+  const args = [
+    JSON.stringify(path),
+    `sep=${JSON.stringify(dialect.sep)}`,
+    `encoding=${JSON.stringify(dialect.encoding)}`,
+  ];
+  if (dialect.quotechar !== '"') args.push(`quotechar=${JSON.stringify(dialect.quotechar)}`);
+  if (dialect.skiprows > 0) args.push(`skiprows=${dialect.skiprows}`);
+  if (!dialect.hasHeader) args.push("header=None");
+  if (dialect.decimal !== ".") args.push(`decimal=${JSON.stringify(dialect.decimal)}`);
+  if (dialect.thousands) args.push(`thousands=${JSON.stringify(dialect.thousands)}`);
+  return `pd.read_csv(${args.join(", ")})`;
+}
+
+const TABLE_CONTEXT: Partial<Record<DataFormat, {
+  noun: string;
+  intro: (f: FileInfo, count: number) => string;
+  read: (f: FileInfo, table: TablePreview) => string | null;
+}>> = {
+  excel: {
+    noun: "工作表",
+    intro: (_f, count) => `📚 工作簿共 ${count} 个工作表，pd.read_excel 默认只读取第一个，请用 sheet_name= 指定:`,
+    read: (f, table) => pandasReadCall(f.name, `/home/user/${f.name}`, { table: table.name }),
+  },
+  sqlite: {
+    noun: "数据表",
+    intro: (_f, count) => `📚 SQLite 数据库共 ${count} 个表/视图（读取前先 import sqlite3）:`,
+    read: (f, table) => pandasReadCall(f.name, `/home/user/${f.name}`, { table: table.name }),
+  },
+  zip: {
+    noun: "压缩包成员",
+    intro: (f, count) =>
+      `📚 压缩包内共 ${count} 个数据文件，请先解压: import zipfile; zipfile.ZipFile(${JSON.stringify(`/home/user/${f.name}`)}).extractall(${JSON.stringify(archiveExtractDir(f.name))})`,
+    read: (f, table) => pandasReadCall(table.name, `${archiveExtractDir(f.name)}/${table.name}`),
+  },
+};
+
+/** Overview of every table in a multi-table file, with the read call for each. */
+function formatTablesContext(
+  f: FileInfo,
+  format: DataFormat,
+  tables: TablePreview[],
+  primary: TablePreview | undefined,
+  tableCount: number
+): string {
+  const spec = TABLE_CONTEXT[format];
+  if (!spec) return "";
+  const blocks = tables.map((table, i) => {
+    const label = `📑 ${spec.noun} ${i + 1}: ${table.name}`;
+    if (table.error) return `${label}（无法读取: ${table.error}）`;
+    if (table.shape[0] === 0) return `${label}（空表）`;
+    const read = spec.read(f, table);
+    const readLine = read ? `\n  读取: ${read}` : "";
+    if (table === primary) {
+      return `${label} — ${table.shape[0]}行 × ${table.shape[1]}列（即上方概况）${readLine}`;
+    }
+    const nullInfo = Object.entries(table.null_counts)
+      .filter(([, v]) => v > 0)
+      .map(([k, v]) => `${k}(${v})`)
+      .join(", ");
+    return `${label} — ${table.shape[0]}行 × ${table.shape[1]}列${readLine}
+  列类型: ${Object.entries(table.dtypes).map(([k, v]) => `${k}: ${v}`).join(", ")}${nullInfo ? `\n  空值: ${nullInfo}` : ""}
+  前5行:\n\`\`\`\n${table.head}\n\`\`\``;
+  });
+  const omitted = tableCount > tables.length ? `\n（另有 ${tableCount - tables.length} 个${spec.noun}未预览）` : "";
+  return `${spec.intro(f, tableCount)}\n${blocks.join("\n")}${omitted}`;
+}
+
+const SEMANTIC_TYPE_LABELS: Record<ColumnSemanticType, string> = {
+  numeric: "数值",
+  identifier: "标识符",
+  datetime: "日期时间",
+  categorical: "分类",
+  boolean: "布尔",
+  text: "文本",
+  constant: "常量",
+  unknown: "未知",
+};
+
+// Wide tables keep the prompt readable; the rest is one summary line
+const MAX_PROFILE_LINES = 40;
+
+function formatNumber(value: number | null): string {
+  if (value === null) return "?";
+  return Number.isInteger(value) ? String(value) : String(Number(value.toPrecision(4)));
+}
+
+/** One line per column: semantic type, cardinality and range or top values. */
+function formatColumnProfiles(profiles: ColumnProfile[]): string {
+  const lines = profiles.slice(0, MAX_PROFILE_LINES).map((p) => {
+    if (p.error) return `  ${p.name}: 无法分析（${p.error}）`;
+    const facts = [SEMANTIC_TYPE_LABELS[p.semanticType], `${p.unique}个不同值`];
+    if (p.numeric) {
+      facts.push(`范围 ${formatNumber(p.numeric.min)} ~ ${formatNumber(p.numeric.max)}`);
+    } else if (p.datetime) {
+      facts.push(`范围 ${p.datetime.min} ~ ${p.datetime.max}`);
+    } else if (p.topValues.length > 0 && p.semanticType !== "identifier") {
+      facts.push(`常见值 ${p.topValues.slice(0, 3).map((v) => `${v.value}(${v.count})`).join(", ")}`);
+    }
+    if (p.dateParseRatio !== undefined && p.dateParseRatio >= 0.9 && !p.datetime) {
+      facts.push("字符串可解析为日期，需 pd.to_datetime 转换");
+    }
+    return `  ${p.name}: ${facts.join("，")}`;
+  });
+  const omitted = profiles.length - MAX_PROFILE_LINES;
+  if (omitted > 0) lines.push(`  （另有 ${omitted} 列未列出）`);
+  return `📋 列画像（基于预览样本）:\n${lines.join("\n")}`;
+}
+
+/** "Derived from X by step Y" line for generated files. */
+function formatLineage(f: FileInfo): string {
+  if (!f.lineage) return "";
+  const { step, inputs, version } = f.lineage;
+  const from = inputs.length > 0 ? `从 ${inputs.map((i) => `${i.name}(v${i.version})`).join("、")} ` : "";
+  const by = step ? `由步骤「${step}」的代码` : "由代码";
+  return `\n🧬 来源: 第 ${version} 版，${by}${from}生成`;
+}
+
 function formatFileContext(f: FileInfo): string {
   const sourceTag = f.isGenerated ? " [代码执行生成]" : " [用户上传]";
+  const lineage = formatLineage(f);
   if (f.richPreview) {
     const rp = f.richPreview;
     const nullInfo = Object.entries(rp.null_counts)
@@ -302,13 +710,45 @@ function formatFileContext(f: FileInfo): string {
       .map(([k, v]) => `  ${k}: ${v}个空值`)
       .join("\n");
 
-    let baseInfo = `📎 文件: ${f.name}${sourceTag} (${f.size} bytes)
-📊 数据概况: ${rp.shape[0]}行 × ${rp.shape[1]}列
+    const path = `/home/user/${f.name}`;
+    const format = rp.format ?? detectDataFormat(f.name);
+    // Multi-table files: the overview covers the first table with data. A
+    // single-sheet workbook reads like any other file
+    const showTables =
+      !!rp.tables && !!format && (format !== "excel" || (rp.tableCount ?? 0) > 1);
+    const primaryTable = showTables ? rp.tables?.find((t) => t.shape[0] > 0) : undefined;
+    const tableNoun = format ? TABLE_CONTEXT[format]?.noun : undefined;
+
+    let baseInfo = `📎 文件: ${f.name}${sourceTag} (${f.size} bytes)${lineage}
+📊 数据概况${primaryTable ? `（${tableNoun} ${primaryTable.name}）` : ""}: ${rp.shape[0]}行 × ${rp.shape[1]}列
 📋 列名: ${rp.columns.join(", ")}
 📋 列类型:\n${Object.entries(rp.dtypes).map(([k, v]) => `  ${k}: ${v}`).join("\n")}
 📋 前5行数据:\n\`\`\`\n${rp.head}\n\`\`\`
 📋 统计摘要:\n\`\`\`\n${rp.describe}\n\`\`\`${nullInfo ? `\n⚠️ 空值情况:\n${nullInfo}` : ""}
-在Python代码中使用路径: /home/user/${f.name}`;
+在Python代码中使用路径: ${path}`;
+
+    if (rp.columnProfiles && rp.columnProfiles.length > 0) {
+      baseInfo += "\n" + formatColumnProfiles(rp.columnProfiles);
+    }
+
+    if (rp.columnLabels && Object.keys(rp.columnLabels).length > 0) {
+      baseInfo += `\n📋 变量标签:\n${Object.entries(rp.columnLabels).map(([k, v]) => `  ${k}: ${v}`).join("\n")}`;
+    }
+
+    if (rp.csvDialect) {
+      const notes = [
+        rp.csvDialect.skiprows > 0 ? `开头 ${rp.csvDialect.skiprows} 行为说明文字` : "",
+        rp.csvDialect.hasHeader ? "" : "无表头行，列名为整数序号",
+      ].filter(Boolean);
+      baseInfo += `\n📋 读取方式（预览时已验证，请原样使用这些参数）: ${formatReadCsvCall(path, rp.csvDialect)}${notes.length ? `\n  注意: ${notes.join("；")}` : ""}`;
+    } else if (!showTables) {
+      const readCall = rp.readCall ?? pandasReadCall(f.name, path);
+      if (readCall) baseInfo += `\n📋 读取方式: ${readCall}`;
+    }
+
+    if (showTables && format && rp.tables) {
+      baseInfo += "\n" + formatTablesContext(f, format, rp.tables, primaryTable, rp.tableCount ?? rp.tables.length);
+    }
 
     // Auto-classify dataset and inject analysis strategy recommendations
     const classification = classifyDataset(f);
@@ -322,28 +762,84 @@ function formatFileContext(f: FileInfo): string {
 
     return baseInfo;
   }
-  return `📎 文件: ${f.name}${sourceTag} (${f.size} bytes)\n文件内容预览(前几行):\n\`\`\`\n${f.preview}\n\`\`\`\n在Python代码中使用路径: /home/user/${f.name}`;
+  return `📎 文件: ${f.name}${sourceTag} (${f.size} bytes)${lineage}\n文件内容预览(前几行):\n\`\`\`\n${f.preview}\n\`\`\`\n在Python代码中使用路径: /home/user/${f.name}`;
 }
 
-interface ToolResultPayload {
+export interface ToolResultPayload {
   code?: string;
   stdout?: string;
   stderr?: string;
-  error?: string;
+  error?: string | null;
+  errorDetails?: ExecutionErrorDetails;
   results?: Array<{ text?: string; png?: string; html?: string }>;
   generatedFiles?: Array<{ name: string; size: number }>;
 }
 
 /**
- * Build the LangChain message array from the HTTP request payload.
+ * Render an `execute_python` result as the content of its ToolMessage.
  */
-export function buildLangChainMessages(
-  messages: Array<{ role: string; content: string }>,
+function formatToolResult(toolResult: ToolResultPayload): string {
+  const resultParts: string[] = [];
+  if (toolResult.stdout)
+    resultParts.push(`标准输出:\n${toolResult.stdout}`);
+  const details = toolResult.errorDetails;
+  if (details) {
+    // Structured traceback instead of the raw stderr dump
+    const lines = [`异常类型: ${details.name}`, `异常信息: ${details.message}`];
+    if (details.line !== undefined)
+      lines.push(`出错位置: 第 ${details.line} 行: ${details.lineText}`);
+    if (details.stderrTail.length > 0)
+      lines.push(`标准错误最后几行:\n${details.stderrTail.join("\n")}`);
+    resultParts.push(`执行失败。\n${lines.join("\n")}`);
+  } else {
+    if (toolResult.stderr)
+      resultParts.push(`标准错误:\n${toolResult.stderr}`);
+    if (toolResult.error)
+      resultParts.push(`错误: ${toolResult.error}`);
+  }
+  if (toolResult.results && toolResult.results.length > 0) {
+    const descriptions = toolResult.results
+      .map((r) => {
+        if (r.png) return "[生成了图表]";
+        if (r.text) return r.text;
+        if (r.html) return "[生成了HTML内容]";
+        return "";
+      })
+      .filter(Boolean);
+    if (descriptions.length > 0)
+      resultParts.push(`执行结果:\n${descriptions.join("\n")}`);
+  }
+  if (
+    toolResult.generatedFiles &&
+    Array.isArray(toolResult.generatedFiles) &&
+    toolResult.generatedFiles.length > 0
+  ) {
+    const fileDescs = toolResult.generatedFiles
+      .map((f) => `- /home/user/${f.name} (${f.size} bytes)`)
+      .join("\n");
+    resultParts.push(
+      `生成的新文件:\n${fileDescs}\n这些文件已保存在会话中，后续代码执行时可通过上述路径访问。`
+    );
+  }
+  return resultParts.length > 0
+    ? `代码已执行完毕。\n\n${resultParts.join("\n\n")}`
+    : "代码已执行完毕，没有输出。";
+}
+
+/**
+ * Fixed id for the system prompt. The messages reducer replaces a message
+ * with the same id in place, so every turn refreshes the prompt (and its
+ * session-file context) instead of appending another one to the thread.
+ */
+const SYSTEM_MESSAGE_ID = "system-prompt";
+
+/**
+ * Build the system prompt with the session-level file context.
+ */
+export function buildSystemMessage(
   files: FileInfo[] | undefined,
-  toolResult: ToolResultPayload | undefined,
   sessionFiles: FileInfo[] | undefined
-): BaseMessage[] {
-  // --- Session-level file context (injected into the system prompt) ---
+): SystemMessage {
   let sessionFileContext = "";
   const effectiveSessionFiles: FileInfo[] =
     sessionFiles && Array.isArray(sessionFiles) && sessionFiles.length > 0
@@ -356,7 +852,17 @@ export function buildLangChainMessages(
       "\n\n【当前会话中可用的数据文件】\n" +
       effectiveSessionFiles.map((f) => formatFileContext(f)).join("\n\n");
   }
+  return new SystemMessage({ content: SYSTEM_PROMPT + sessionFileContext, id: SYSTEM_MESSAGE_ID });
+}
 
+/**
+ * Build the LangChain message array from the HTTP request payload.
+ */
+export function buildLangChainMessages(
+  messages: Array<{ role: string; content: string }>,
+  files: FileInfo[] | undefined,
+  sessionFiles: FileInfo[] | undefined
+): BaseMessage[] {
   // --- Inject new file context into the last user message ---
   let processedMessages = messages;
   if (files && Array.isArray(files) && files.length > 0) {
@@ -372,60 +878,35 @@ export function buildLangChainMessages(
   }
 
   // --- Convert to LangChain message objects ---
-  const langchainMessages: BaseMessage[] = [
-    new SystemMessage(SYSTEM_PROMPT + sessionFileContext),
+  return [
+    buildSystemMessage(files, sessionFiles),
     ...processedMessages.map((msg) => {
       if (msg.role === "user") return new HumanMessage(msg.content);
       if (msg.role === "assistant") return new AIMessage(msg.content);
       return new HumanMessage(msg.content);
     }),
   ];
+}
 
-  // --- If continuing after HITL execution, append the result ---
-  if (toolResult) {
-    const resultParts: string[] = [];
-    if (toolResult.code)
-      resultParts.push(
-        `执行的代码:\n\`\`\`python\n${toolResult.code}\n\`\`\``
-      );
-    if (toolResult.stdout)
-      resultParts.push(`标准输出:\n${toolResult.stdout}`);
-    if (toolResult.stderr)
-      resultParts.push(`标准错误:\n${toolResult.stderr}`);
-    if (toolResult.error)
-      resultParts.push(`错误: ${toolResult.error}`);
-    if (toolResult.results && toolResult.results.length > 0) {
-      const descriptions = toolResult.results
-        .map((r) => {
-          if (r.png) return "[生成了图表]";
-          if (r.text) return r.text;
-          if (r.html) return "[生成了HTML内容]";
-          return "";
-        })
-        .filter(Boolean);
-      if (descriptions.length > 0)
-        resultParts.push(`执行结果:\n${descriptions.join("\n")}`);
-    }
-    if (
-      toolResult.generatedFiles &&
-      Array.isArray(toolResult.generatedFiles) &&
-      toolResult.generatedFiles.length > 0
-    ) {
-      const fileDescs = toolResult.generatedFiles
-        .map((f) => `- /home/user/${f.name} (${f.size} bytes)`)
-        .join("\n");
-      resultParts.push(
-        `生成的新文件:\n${fileDescs}\n这些文件已保存在会话中，后续代码执行时可通过上述路径访问。`
-      );
-    }
-    langchainMessages.push(
-      new HumanMessage(
-        `[系统消息] 之前请求的Python代码已执行完毕，结果如下:\n\n${resultParts.join("\n\n")}\n\n请根据执行结果为用户提供分析和解释。`
-      )
-    );
-  }
-
-  return langchainMessages;
+/**
+ * ToolMessages that close tool calls left unanswered by an interrupted turn.
+ * Used when the user sends a new message instead of running the pending code,
+ * answering a confirmation or filling in a question's form, so the thread
+ * stays a valid tool-call / tool-result sequence.
+ */
+export function closePendingToolCalls(pending: AIMessage): ToolMessage[] {
+  const contents: Record<string, string> = {
+    confirm_action: "用户没有回应这个确认请求，而是继续了对话。视为未确认，不要执行该操作。",
+    ask_for_information: "用户没有填写表单，而是直接继续了对话；回答可能在用户的下一条消息中。",
+  };
+  return (pending.tool_calls || []).map(
+    (tc) =>
+      new ToolMessage({
+        content: contents[tc.name] ?? "用户没有执行这段代码，而是继续了对话。",
+        tool_call_id: tc.id!,
+        name: tc.name,
+      })
+  );
 }
 
 // ============================================================
@@ -436,15 +917,16 @@ export function buildLangChainMessages(
  * Conditional router executed after the "agent" node.
  *
  * - If the model produced NO tool calls → END (text-only response).
- * - If the model called `execute_python` → END (HITL — the client
- *   will show a confirmation card, execute the code, and send a
- *   follow-up request with the result).
- * - If the model called `create_plan` → route to "plan_tools" for plan creation
+ * - If the model called `confirm_action` / `ask_for_information` → "ask_user",
+ *   which interrupts the graph until the user has decided or answered.
+ * - If the model called `execute_python` → "hitl", which interrupts the
+ *   graph until the client has run (or rejected) the code.
+ * - If the model called `create_plan` / `update_plan` → route to "plan_tools"
  * - Otherwise → route to the "tools" node for auto-execution.
  */
 function routeAfterAgent(
   state: typeof PlanAnnotation.State
-): typeof END | "tools" | "plan_tools" {
+): typeof END | "tools" | "plan_tools" | "code_gate" | "ask_user" {
   const lastMsg = state.messages[state.messages.length - 1];
 
   if (
@@ -454,13 +936,18 @@ function routeAfterAgent(
   ) {
     const toolCalls = (lastMsg as AIMessage).tool_calls!;
 
-    // execute_python requires human-in-the-loop → stop the graph
+    // The user's answers come first — code of the same message waits for them
+    if (toolCalls.some((tc) => USER_INPUT_TOOL_NAMES.has(tc.name))) {
+      return "ask_user";
+    }
+
+    // execute_python requires human-in-the-loop → decide how it runs, then hitl
     if (toolCalls.some((tc) => tc.name === "execute_python")) {
-      return END;
+      return "code_gate";
     }
 
-    // create_plan → route to plan_tools node
-    if (toolCalls.some((tc) => tc.name === "create_plan")) {
+    // create_plan / update_plan → route to plan_tools node
+    if (toolCalls.some((tc) => PLAN_TOOL_NAMES.has(tc.name))) {
       return "plan_tools";
     }
 
@@ -472,17 +959,221 @@ function routeAfterAgent(
   return END;
 }
 
+/**
+ * Conditional router executed after the "tools" node.
+ *
+ * - If `present_analysis_options` ran → END (wait for the user's selection).
+ * - Otherwise → back to "agent" so the model can use the tool results.
+ */
+function routeAfterTools(
+  state: typeof PlanAnnotation.State
+): typeof END | "agent" {
+  // Inspect the ToolMessages produced by the latest tools step
+  for (let i = state.messages.length - 1; i >= 0; i--) {
+    const msg = state.messages[i];
+    if (!ToolMessage.isInstance(msg)) break;
+    if (msg.name === "present_analysis_options") return END;
+  }
+  return "agent";
+}
+
+// ============================================================
+// Human-in-the-Loop — Interrupt & Resume
+// ============================================================
+
+/** Payload surfaced by `interrupt()` while code waits for the user. */
+export interface HitlInterrupt {
+  type: "execute_python";
+  toolCalls: Array<{ id: string; code: string }>;
+}
+
+/**
+ * Value the client resumes the thread with: the execution result for each
+ * `execute_python` tool call id, or `{ rejected: true }`.
+ */
+export interface HitlResume {
+  results: Record<string, ToolResultPayload | { rejected: true }>;
+}
+
+/** Payload surfaced by `interrupt()` while confirmations / questions wait for the user. */
+export interface UserInputInterrupt {
+  type: "user_input";
+  confirmations: Array<{ id: string; action: string; description: string }>;
+  questions: Array<{ id: string; question: string; answerType: InformationAnswerType }>;
+}
+
+export interface ConfirmationDecision {
+  decision: "approve" | "deny";
+  /** Optional remark from the user, passed on to the model */
+  note?: string;
+}
+
+/**
+ * A submitted `ask_for_information` form. `value` follows `answerType`:
+ * text / single_choice → string, multi_choice / columns → string[],
+ * number → number, date_range → { from, to }, yes_no → boolean.
+ */
+export interface InformationAnswer {
+  answerType: InformationAnswerType;
+  value: string | number | boolean | string[] | { from: string; to: string };
+  /** columns: the file the columns were picked from */
+  file?: string;
+}
+
+/**
+ * Value the client resumes the ask_user node with: decisions per
+ * `confirm_action` and answers per `ask_for_information` tool call id.
+ */
+export interface UserInputResume {
+  decisions?: Record<string, ConfirmationDecision>;
+  answers?: Record<string, InformationAnswer>;
+}
+
+/** ToolMessage content telling the model what the user decided. */
+function formatConfirmation(action: string, decision: ConfirmationDecision | undefined): string {
+  if (!decision) {
+    return JSON.stringify({
+      type: "confirmation_decision",
+      action,
+      decision: "none",
+      instruction: "用户没有作出决定。视为未确认，不要执行该操作。",
+    });
+  }
+  const approved = decision.decision === "approve";
+  return JSON.stringify({
+    type: "confirmation_decision",
+    action,
+    decision: approved ? "approved" : "denied",
+    note: decision.note || undefined,
+    instruction: approved
+      ? "用户已确认，可以执行该操作；如附有备注，请按备注调整。"
+      : "用户拒绝了该操作，不要执行它。请询问用户希望如何调整，不要重复请求相同的确认。",
+  });
+}
+
+/** ToolMessage content carrying the user's answer to a question. */
+function formatInformationAnswer(question: string, answer: InformationAnswer | undefined): string {
+  if (!answer) {
+    return JSON.stringify({
+      type: "information_answer",
+      question,
+      answer: null,
+      instruction: "用户没有回答这个问题。不要猜测答案，可以换一种方式再问或说明需要这项信息的原因。",
+    });
+  }
+  return JSON.stringify({
+    type: "information_answer",
+    question,
+    answerType: answer.answerType,
+    answer: answer.value,
+    file: answer.file,
+  });
+}
+
+/**
+ * Shared checkpointer — keeps each thread's latest state (messages, plan,
+ * step index) in process memory so an interrupted run can be resumed by
+ * `thread_id` from a later request. Idle threads are evicted (see
+ * `./checkpointer`).
+ */
+const checkpointer = new BoundedMemorySaver();
+
+/**
+ * Custom stream event dispatched after each auto-approved execution, so the
+ * route can emit the code and its full result (figures, generated files) as
+ * a `tool_call` event without storing them in the checkpoint.
+ */
+export const CODE_EXECUTED_EVENT = "code_executed";
+
+export interface CodeExecutedEvent {
+  toolCallId: string;
+  code: string;
+  result: Awaited<ReturnType<typeof runPythonCode>>;
+  /** Set when the run was an automatic fix of an earlier failure */
+  repair?: { rootToolCallId: string; attempt: number };
+}
+
+/** Per-request options of the compiled graph. */
+export interface GraphOptions {
+  /** Which `execute_python` calls may run without asking (default `always_ask`). */
+  approvalPolicy?: ApprovalPolicy;
+  /** Session files uploaded to the sandbox before an auto-approved run. */
+  executionFiles?: ExecutionFile[];
+  /** Let the model fix failed code without approval (see `./repair`). */
+  autoRepair?: boolean;
+}
+
+/** Drop all checkpoints of a thread. No-op if it does not exist. */
+export async function deleteThread(threadId: string): Promise<void> {
+  await checkpointer.deleteThread(threadId);
+}
+
+// ============================================================
+// Plan Tools
+// ============================================================
+
+/**
+ * Run `create_plan` / `update_plan` calls in order against the current plan.
+ * Invalid revisions are answered with an error ToolMessage so the model can
+ * correct itself; the plan is left unchanged.
+ */
+async function applyPlanToolCalls(
+  plan: Plan | null,
+  currentStepIndex: number,
+  calls: NonNullable<AIMessage["tool_calls"]>
+): Promise<{ messages: ToolMessage[]; plan: Plan | null; currentStepIndex: number }> {
+  const messages: ToolMessage[] = [];
+
+  for (const call of calls) {
+    let content: string;
+    if (call.name === "create_plan") {
+      content = await createPlan.invoke(
+        call.args as { steps: Array<{ title: string; description?: string }> }
+      );
+      plan = (JSON.parse(content) as { plan: Plan }).plan;
+      currentStepIndex = 0;
+    } else if (!plan) {
+      content = JSON.stringify({
+        type: "plan_update_error",
+        error: "There is no active plan. Call create_plan first.",
+      });
+    } else {
+      try {
+        plan = applyPlanUpdate({ ...plan, currentStepIndex }, call.args as PlanUpdateArgs);
+        currentStepIndex = plan.currentStepIndex;
+        content = JSON.stringify({
+          type: "plan_updated",
+          change: plan.revisions?.[plan.revisions.length - 1],
+          plan,
+        });
+      } catch (error: unknown) {
+        content = JSON.stringify({
+          type: "plan_update_error",
+          error: error instanceof Error ? error.message : "Invalid plan update",
+        });
+      }
+    }
+    messages.push(new ToolMessage({ content, tool_call_id: call.id!, name: call.name }));
+  }
+
+  return { messages, plan, currentStepIndex };
+}
+
 /**
  * Create and compile the LangGraph agent graph.
  *
  * ```
  * START → agent ─┬─ (no tools)          → END
- *                 ├─ (execute_python)    → END  (HITL)
+ *                 ├─ (confirm / ask)     → ask_user (interrupt … resume) → agent
+ *                 ├─ (execute_python)    → code_gate → hitl (interrupt … resume, or auto-run) → agent
  *                 ├─ (plan tools)        → plan_tools → agent
- *                 └─ (safe tools)        → tools → agent
+ *                 └─ (safe tools)        → tools ─┬─ (analysis options) → END
+ *                                                 └─ (otherwise)         → agent
  * ```
  */
-export function createGraph() {
+export function createGraph(options: GraphOptions = {}) {
+  const approvalPolicy = options.approvalPolicy ?? "always_ask";
+
   const model = new ChatOpenAI({
     apiKey: process.env.OPENAI_API_KEY,
     configuration: {
@@ -502,30 +1193,222 @@ export function createGraph() {
   // Tool node — auto-execute safe tools only
   const toolNode = new ToolNode(safeTools);
 
-  // Plan tools node — handle create_plan tool and store plan in state
+  // Plan tools node — create / revise the plan stored in state, answering
+  // any other tool calls of the same message through the regular tool node
   const planToolNode = async (state: typeof PlanAnnotation.State) => {
     const lastMsg = state.messages[state.messages.length - 1] as AIMessage;
     const toolCalls = lastMsg.tool_calls || [];
+    const planCalls = toolCalls.filter((tc) => PLAN_TOOL_NAMES.has(tc.name));
+    const otherCalls = toolCalls.filter((tc) => !PLAN_TOOL_NAMES.has(tc.name));
+
+    const applied = await applyPlanToolCalls(state.plan, state.currentStepIndex, planCalls);
+    const messages: BaseMessage[] = [...applied.messages];
+    if (otherCalls.length > 0) {
+      const output = await toolNode.invoke({
+        messages: [new AIMessage({ content: "", tool_calls: otherCalls })],
+      });
+      messages.push(...(output as { messages: BaseMessage[] }).messages);
+    }
+
+    return {
+      messages,
+      plan: applied.plan,
+      currentStepIndex: applied.currentStepIndex,
+      pendingStepUpdates: [],
+    };
+  };
+
+  // Code gate node — decide once, with the options of the request that
+  // produced the code, whether it runs inline or waits for the user. A resume
+  // comes with the next request's options and must not change the decision.
+  const codeGateNode = async (state: typeof PlanAnnotation.State) => {
+    const lastMsg = state.messages[state.messages.length - 1] as AIMessage;
+    const codes = (lastMsg.tool_calls || [])
+      .filter((tc) => tc.name === "execute_python")
+      .map((tc) => String((tc.args as { code?: unknown }).code ?? ""));
+    let codeRun: CodeRun = "ask";
+    if (options.autoRepair && canAutoRepair(state.repair, codes)) codeRun = "repair";
+    else if (canAutoRun(approvalPolicy, codes)) codeRun = "auto";
+    return { codeRun };
+  };
+
+  // HITL node — run the code inline when the code gate allowed it, otherwise
+  // pause until the client resumes with execution results. The node re-runs
+  // from the top on resume, so nothing with side effects may happen before
+  // `interrupt()`.
+  const hitlNode = async (state: typeof PlanAnnotation.State, config: LangGraphRunnableConfig) => {
+    const lastMsg = state.messages[state.messages.length - 1] as AIMessage;
+    const toolCalls = lastMsg.tool_calls || [];
+    const codeCalls = toolCalls.filter((tc) => tc.name === "execute_python");
+    const otherCalls = toolCalls.filter((tc) => tc.name !== "execute_python");
+    const pending = codeCalls.map((tc) => ({
+      id: tc.id!,
+      code: String((tc.args as { code?: unknown }).code ?? ""),
+    }));
+
+    const codeRun = state.codeRun ?? "ask";
+    const isRepairRun = codeRun === "repair";
+    const repairInfo =
+      isRepairRun && state.repair
+        ? { rootToolCallId: state.repair.rootToolCallId, attempt: state.repair.attempts + 1 }
+        : undefined;
 
-    const createPlanCall = toolCalls.find((tc) => tc.name === "create_plan");
-    if (!createPlanCall) {
-      // Fallback to regular tool node
-      const node = new ToolNode([createPlan]);
-      return node.invoke(state);
+    let resume: HitlResume;
+    if (codeRun !== "ask") {
+      resume = { results: {} };
+      const threadId = config.configurable?.thread_id as string | undefined;
+      for (const { id, code } of pending) {
+        const result = await runPythonCode(code, options.executionFiles, threadId);
+        resume.results[id] = result;
+        await dispatchCustomEvent(
+          CODE_EXECUTED_EVENT,
+          { toolCallId: id, code, result, repair: repairInfo } satisfies CodeExecutedEvent,
+          config
+        );
+      }
+    } else {
+      resume = interrupt<HitlInterrupt, HitlResume>({
+        type: "execute_python",
+        toolCalls: pending,
+      });
     }
 
-    // Execute create_plan tool
-    const result = await createPlan.invoke(createPlanCall.args as { steps: Array<{ title: string; description?: string }> });
-    const parsed = JSON.parse(result);
-    const plan = parsed.plan as Plan;
+    let executed = 0;
+    // Assigned inside the map callback, so keep TS from narrowing it to null
+    let failedToolCallId = null as string | null;
+    const contents = codeCalls.map((tc) => {
+      const result = resume?.results?.[tc.id!];
+      if (!result) return "用户没有执行这段代码。";
+      if ("rejected" in result) {
+        return "用户拒绝执行这段代码。请询问用户希望如何调整，不要重复提交相同的代码。";
+      }
+      executed++;
+      if (result.error) failedToolCallId ??= tc.id!;
+      return formatToolResult(result);
+    });
 
-    // Import ToolMessage for proper response
-    const { ToolMessage } = await import("@langchain/core/messages");
+    // Open, advance or close the repair chain and tell the model what to do next
+    const repair = options.autoRepair
+      ? nextRepairState(state.repair, isRepairRun, failedToolCallId)
+      : null;
+    const instruction = failedToolCallId ? repairInstruction(repair, isRepairRun) : "";
+    const messages: BaseMessage[] = codeCalls.map((tc, i) => {
+      const content =
+        instruction && tc.id === failedToolCallId ? `${contents[i]}\n\n${instruction}` : contents[i];
+      return new ToolMessage({ content, tool_call_id: tc.id!, name: tc.name });
+    });
+
+    // Answer plan revisions and safe tools called alongside execute_python
+    const planCalls = otherCalls.filter((tc) => PLAN_TOOL_NAMES.has(tc.name));
+    const safeCalls = otherCalls.filter((tc) => !PLAN_TOOL_NAMES.has(tc.name));
+    const applied = await applyPlanToolCalls(state.plan, state.currentStepIndex, planCalls);
+    messages.push(...applied.messages);
+    if (safeCalls.length > 0) {
+      const output = await toolNode.invoke({
+        messages: [new AIMessage({ content: "", tool_calls: safeCalls })],
+      });
+      messages.push(...(output as { messages: BaseMessage[] }).messages);
+    }
+
+    // Advance the plan server-side once the step's code has run. While a
+    // repair chain is open the step stays in progress.
+    const plan = applied.plan;
+    const stepIndex = applied.currentStepIndex;
+    if (!executed || repair || !plan || stepIndex >= plan.steps.length) {
+      return { messages, plan, currentStepIndex: stepIndex, pendingStepUpdates: [], repair };
+    }
+    const status = failedToolCallId ? "failed" : "completed";
+    const steps: PlanStep[] = plan.steps.map((step, i) =>
+      i === stepIndex ? { ...step, status } : step
+    );
+    const nextIndex = nextPendingIndex(steps, stepIndex + 1);
+    return {
+      messages,
+      plan: {
+        ...plan,
+        steps,
+        currentStepIndex: nextIndex,
+        isComplete: isPlanComplete(steps),
+      },
+      currentStepIndex: nextIndex,
+      pendingStepUpdates: [{ stepIndex, status }],
+      repair,
+    };
+  };
+
+  // Ask-user node — pause until the user has decided every confirm_action
+  // and answered every ask_for_information call, then reply to each with the
+  // user's input. Code requested in the same message is not run: the model
+  // resubmits it once it knows the answers. Like the hitl node it re-runs
+  // from the top on resume.
+  const askUserNode = async (state: typeof PlanAnnotation.State) => {
+    const lastMsg = state.messages[state.messages.length - 1] as AIMessage;
+    const toolCalls = lastMsg.tool_calls || [];
+    const confirmCalls = toolCalls.filter((tc) => tc.name === "confirm_action");
+    const questionCalls = toolCalls.filter((tc) => tc.name === "ask_for_information");
+    const codeCalls = toolCalls.filter((tc) => tc.name === "execute_python");
+    const otherCalls = toolCalls.filter(
+      (tc) => !USER_INPUT_TOOL_NAMES.has(tc.name) && tc.name !== "execute_python"
+    );
+    const confirmations = confirmCalls.map((tc) => {
+      const args = tc.args as { action?: unknown; description?: unknown };
+      return { id: tc.id!, action: String(args.action ?? ""), description: String(args.description ?? "") };
+    });
+    const questions = questionCalls.map((tc) => {
+      const args = tc.args as { question?: unknown; answerType?: InformationAnswerType };
+      return { id: tc.id!, question: String(args.question ?? ""), answerType: args.answerType ?? "text" };
+    });
+
+    const resume = interrupt<UserInputInterrupt, UserInputResume>({
+      type: "user_input",
+      confirmations,
+      questions,
+    });
+
+    const messages: BaseMessage[] = [];
+    for (const { id, action } of confirmations) {
+      messages.push(
+        new ToolMessage({
+          content: formatConfirmation(action, resume?.decisions?.[id]),
+          tool_call_id: id,
+          name: "confirm_action",
+        })
+      );
+    }
+    for (const { id, question } of questions) {
+      messages.push(
+        new ToolMessage({
+          content: formatInformationAnswer(question, resume?.answers?.[id]),
+          tool_call_id: id,
+          name: "ask_for_information",
+        })
+      );
+    }
+    for (const tc of codeCalls) {
+      messages.push(
+        new ToolMessage({
+          content: "这段代码没有执行：它与确认请求或问题同时提交。请根据用户的回答，在确认后重新提交。",
+          tool_call_id: tc.id!,
+          name: tc.name,
+        })
+      );
+    }
+
+    const planCalls = otherCalls.filter((tc) => PLAN_TOOL_NAMES.has(tc.name));
+    const safeCalls = otherCalls.filter((tc) => !PLAN_TOOL_NAMES.has(tc.name));
+    const applied = await applyPlanToolCalls(state.plan, state.currentStepIndex, planCalls);
+    messages.push(...applied.messages);
+    if (safeCalls.length > 0) {
+      const output = await toolNode.invoke({
+        messages: [new AIMessage({ content: "", tool_calls: safeCalls })],
+      });
+      messages.push(...(output as { messages: BaseMessage[] }).messages);
+    }
 
     return {
-      messages: [new ToolMessage({ content: result, tool_call_id: createPlanCall.id! })],
-      plan,
-      currentStepIndex: 0,
+      messages,
+      plan: applied.plan,
+      currentStepIndex: applied.currentStepIndex,
       pendingStepUpdates: [],
     };
   };
@@ -534,11 +1417,17 @@ export function createGraph() {
     .addNode("agent", callModel)
     .addNode("tools", toolNode)
     .addNode("plan_tools", planToolNode)
+    .addNode("code_gate", codeGateNode)
+    .addNode("hitl", hitlNode)
+    .addNode("ask_user", askUserNode)
     .addEdge(START, "agent")
     .addConditionalEdges("agent", routeAfterAgent)
-    .addEdge("tools", "agent")
+    .addConditionalEdges("tools", routeAfterTools)
     .addEdge("plan_tools", "agent")
-    .compile();
+    .addEdge("code_gate", "hitl")
+    .addEdge("hitl", "agent")
+    .addEdge("ask_user", "agent")
+    .compile({ checkpointer });
 
   return graph;
 }
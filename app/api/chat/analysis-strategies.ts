@@ -9,7 +9,7 @@
  * with a domain-expert "playbook" rather than relying on generic knowledge.
  */
 
-import type { FileInfo } from "./agent";
+import type { ColumnProfile, FileInfo } from "./agent";
 
 // ============================================================
 // Types
@@ -48,10 +48,27 @@ export interface DatasetProfile {
   colCount: number;
 }
 
+/** Every strategy `classifyDataset` can recommend; the options card only offers these. */
+export const STRATEGY_NAMES = [
+  "探索性数据分析 (EDA)",
+  "缺失值分析与处理",
+  "时间序列分析",
+  "相关性与回归分析",
+  "分组对比分析",
+  "降维与特征分析",
+  "聚类分析",
+  "文本分析",
+  "地理空间分析",
+  "业务/交易分析",
+  "分布与异常值分析",
+] as const;
+
+export type StrategyName = (typeof STRATEGY_NAMES)[number];
+
 /** A concrete analysis strategy recommendation. */
 export interface AnalysisStrategy {
-  /** Short label, e.g. "Time Series Decomposition" */
-  name: string;
+  /** Short label, e.g. "时间序列分析" */
+  name: StrategyName;
   /** Why this strategy applies */
   reason: string;
   /** Step-by-step guidance for the LLM */
@@ -90,6 +107,95 @@ const DATETIME_DTYPES = new Set([
 ]);
 const CATEGORICAL_DTYPES = new Set(["object", "category", "string", "bool"]);
 
+/** Column roles that drive classification. */
+interface ColumnSignals {
+  numericCount: number;
+  categoricalCount: number;
+  datetimeCols: string[];
+  geoCols: string[];
+  textLikelyCols: string[];
+  idCols: string[];
+  amountCols: string[];
+}
+
+function emptySignals(): ColumnSignals {
+  return {
+    numericCount: 0,
+    categoricalCount: 0,
+    datetimeCols: [],
+    geoCols: [],
+    textLikelyCols: [],
+    idCols: [],
+    amountCols: [],
+  };
+}
+
+// Values alone cannot tell coordinates from other bounded measures, or a
+// city column from any other category, so geo roles still need the name
+function isCoordinate(p: ColumnProfile): boolean {
+  const n = p.numeric;
+  return (
+    !!n && !n.integer && n.min !== null && n.max !== null &&
+    n.min >= -180 && n.max <= 180 && GEO_PATTERNS.test(p.name)
+  );
+}
+
+/** Column roles from the preview's value-based profiles. */
+function signalsFromProfiles(profiles: ColumnProfile[]): ColumnSignals {
+  const signals = emptySignals();
+  for (const p of profiles) {
+    switch (p.semanticType) {
+      case "numeric":
+        signals.numericCount++;
+        if (isCoordinate(p)) signals.geoCols.push(p.name);
+        // Non-negative measures with decimals: prices, amounts, rates
+        else if (p.numeric && !p.numeric.integer && (p.numeric.min ?? -1) >= 0) {
+          signals.amountCols.push(p.name);
+        }
+        break;
+      case "datetime":
+        signals.datetimeCols.push(p.name);
+        break;
+      case "identifier":
+        signals.idCols.push(p.name);
+        break;
+      case "text":
+        signals.categoricalCount++;
+        signals.textLikelyCols.push(p.name);
+        break;
+      case "categorical":
+      case "boolean":
+        signals.categoricalCount++;
+        if (GEO_PATTERNS.test(p.name)) signals.geoCols.push(p.name);
+        break;
+    }
+  }
+  return signals;
+}
+
+/** Column roles guessed from dtypes and names, for previews without profiles. */
+function signalsFromNames(cols: string[], dtypes: Record<string, string>): ColumnSignals {
+  const signals = emptySignals();
+  for (const col of cols) {
+    const dtype = dtypes[col] || "object";
+
+    // dtype-based classification
+    if (NUMERIC_DTYPES.has(dtype)) signals.numericCount++;
+    else if (DATETIME_DTYPES.has(dtype)) signals.datetimeCols.push(col);
+    else if (CATEGORICAL_DTYPES.has(dtype)) signals.categoricalCount++;
+
+    // name-based heuristic enrichment
+    if (DATETIME_PATTERNS.test(col) && !signals.datetimeCols.includes(col)) {
+      signals.datetimeCols.push(col);
+    }
+    if (GEO_PATTERNS.test(col)) signals.geoCols.push(col);
+    if (TEXT_PATTERNS.test(col)) signals.textLikelyCols.push(col);
+    if (ID_PATTERNS.test(col)) signals.idCols.push(col);
+    if (AMOUNT_PATTERNS.test(col)) signals.amountCols.push(col);
+  }
+  return signals;
+}
+
 // ============================================================
 // Classification Logic
 // ============================================================
@@ -106,35 +212,18 @@ export function classifyDataset(
   const totalCols = cols.length;
   const totalRows = rp.shape[0];
 
-  // ---- Count column types ----
-  let numericCount = 0;
-  let datetimeCount = 0;
-  let categoricalCount = 0;
-  let textLikelyCols: string[] = [];
-  let datetimeCols: string[] = [];
-  let geoCols: string[] = [];
-  let idCols: string[] = [];
-  let amountCols: string[] = [];
-
-  for (const col of cols) {
-    const dtype = dtypes[col] || "object";
-
-    // dtype-based classification
-    if (NUMERIC_DTYPES.has(dtype)) numericCount++;
-    else if (DATETIME_DTYPES.has(dtype)) {
-      datetimeCount++;
-      datetimeCols.push(col);
-    } else if (CATEGORICAL_DTYPES.has(dtype)) categoricalCount++;
-
-    // name-based heuristic enrichment
-    if (DATETIME_PATTERNS.test(col) && !datetimeCols.includes(col)) {
-      datetimeCols.push(col);
-    }
-    if (GEO_PATTERNS.test(col)) geoCols.push(col);
-    if (TEXT_PATTERNS.test(col)) textLikelyCols.push(col);
-    if (ID_PATTERNS.test(col)) idCols.push(col);
-    if (AMOUNT_PATTERNS.test(col)) amountCols.push(col);
-  }
+  // ---- Column roles: value-based profiles when the preview has them ----
+  const {
+    numericCount,
+    categoricalCount,
+    textLikelyCols,
+    datetimeCols,
+    geoCols,
+    idCols,
+    amountCols,
+  } = rp.columnProfiles && rp.columnProfiles.length > 0
+    ? signalsFromProfiles(rp.columnProfiles)
+    : signalsFromNames(cols, dtypes);
 
   const numericRatio = totalCols > 0 ? numericCount / totalCols : 0;
   const categoricalRatio = totalCols > 0 ? categoricalCount / totalCols : 0;
@@ -523,7 +612,7 @@ export function formatStrategyPrompt(
 
   lines.push(`\n📐 【推荐分析策略】（按适配度排序）`);
   for (const s of strategies) {
-    lines.push(`\n▸ ${s.name}（适配理由: ${s.reason}）`);
+    lines.push(`\n▸ ${s.name}（适配理由: ${s.reason}；优先级: ${s.priority}）`);
     lines.push(`  步骤:`);
     s.steps.forEach((step, i) => lines.push(`    ${i + 1}. ${step}`));
     lines.push(`  推荐工具: ${s.tools.join(", ")}`);
@@ -0,0 +1,47 @@
+import { analyzeCode } from "@/app/lib/sandbox/code-safety";
+
+/**
+ * Code Approval Policy
+ *
+ * Decides whether an `execute_python` call may run inline in the graph or
+ * has to wait for the user in the HITL interrupt:
+ *
+ * - `always_ask`     — every execution waits for a click (default)
+ * - `auto_read_only` — code that only reads, analyzes and plots data runs
+ *                      automatically; anything that writes other files,
+ *                      touches the OS or the network still asks
+ * - `auto_all`       — everything runs automatically for this session,
+ *                      except code with high-risk findings
+ *
+ * Both automatic policies read the static analysis of `analyzeCode`, the
+ * same report the pending card shows.
+ */
+
+export type ApprovalPolicy = "always_ask" | "auto_read_only" | "auto_all";
+
+export const APPROVAL_POLICIES: readonly ApprovalPolicy[] = [
+  "always_ask",
+  "auto_read_only",
+  "auto_all",
+];
+
+export function isApprovalPolicy(value: unknown): value is ApprovalPolicy {
+  return typeof value === "string" && (APPROVAL_POLICIES as readonly string[]).includes(value);
+}
+
+/** True when the analyzer finds nothing: the code only reads data and computes / plots. */
+export function isReadOnlyCode(code: string): boolean {
+  return analyzeCode(code).level === "none";
+}
+
+/**
+ * Whether a batch of `execute_python` calls from one model turn may run
+ * without asking. A batch is all-or-nothing so the user is never asked to
+ * approve code that comes after something that already ran.
+ */
+export function canAutoRun(policy: ApprovalPolicy, codes: string[]): boolean {
+  if (codes.length === 0) return false;
+  if (policy === "auto_all") return codes.every((code) => analyzeCode(code).level !== "high");
+  if (policy === "auto_read_only") return codes.every(isReadOnlyCode);
+  return false;
+}
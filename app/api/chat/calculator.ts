@@ -0,0 +1,554 @@
+/**
+ * Safe Expression Evaluator for the `calculate` tool
+ *
+ * A small recursive-descent parser — model-produced text is never handed to
+ * `eval`/`Function`. Supported:
+ * - arithmetic `+ - * /`, `mod`, exponentiation `^` / `**`, parentheses
+ * - percentages: `15%`, `15% of 240`
+ * - constants `pi`, `e`; scale words `k`, `万`, `亿`, `thousand`, `million`, `billion`
+ * - functions: sqrt, cbrt, abs, exp, ln, log, log10, log2, round, floor, ceil, pow
+ * - statistics over inline lists: sum, mean/avg, median, min, max, count,
+ *   std, var, percentile — e.g. `mean([3, 5, 8])` or `max(3, 5, 8)`
+ * - units (length, mass, time, data size) with conversion: `5 km + 300 m`,
+ *   `90 min in h`, `3.5 GB to MB`
+ * Anything else fails with a `CalculationError` carrying a machine-readable reason.
+ */
+
+export type CalculationErrorReason =
+  | "empty_expression"
+  | "expression_too_long"
+  | "syntax_error"
+  | "unknown_identifier"
+  | "unknown_function"
+  | "invalid_arguments"
+  | "unit_mismatch"
+  | "domain_error"
+  | "non_finite_result";
+
+export class CalculationError extends Error {
+  constructor(
+    readonly reason: CalculationErrorReason,
+    message: string
+  ) {
+    super(message);
+    this.name = "CalculationError";
+  }
+}
+
+export interface CalculationResult {
+  result: number;
+  /** Unit of the result, when the expression used units. */
+  unit?: string;
+  /** Human readable result, e.g. "5.3 km". */
+  formatted: string;
+}
+
+const MAX_EXPRESSION_LENGTH = 500;
+const MAX_LIST_LENGTH = 10_000;
+
+// ============================================================
+// Units
+// ============================================================
+
+type Dimension = "length" | "mass" | "time" | "data";
+
+interface UnitDef {
+  dimension: Dimension;
+  /** Multiplier to the dimension's base unit (m, kg, s, B). */
+  factor: number;
+}
+
+const UNITS: Record<string, UnitDef> = {
+  mm: { dimension: "length", factor: 0.001 },
+  cm: { dimension: "length", factor: 0.01 },
+  m: { dimension: "length", factor: 1 },
+  km: { dimension: "length", factor: 1000 },
+  in: { dimension: "length", factor: 0.0254 },
+  ft: { dimension: "length", factor: 0.3048 },
+  mi: { dimension: "length", factor: 1609.344 },
+  mg: { dimension: "mass", factor: 1e-6 },
+  g: { dimension: "mass", factor: 0.001 },
+  kg: { dimension: "mass", factor: 1 },
+  t: { dimension: "mass", factor: 1000 },
+  lb: { dimension: "mass", factor: 0.45359237 },
+  ms: { dimension: "time", factor: 0.001 },
+  s: { dimension: "time", factor: 1 },
+  min: { dimension: "time", factor: 60 },
+  h: { dimension: "time", factor: 3600 },
+  d: { dimension: "time", factor: 86400 },
+  wk: { dimension: "time", factor: 604800 },
+  B: { dimension: "data", factor: 1 },
+  KB: { dimension: "data", factor: 1024 },
+  MB: { dimension: "data", factor: 1024 ** 2 },
+  GB: { dimension: "data", factor: 1024 ** 3 },
+  TB: { dimension: "data", factor: 1024 ** 4 },
+};
+
+const SCALES: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  million: 1e6,
+  billion: 1e9,
+  "万": 1e4,
+  "亿": 1e8,
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+/** Own-property lookup, so names like "constructor" never reach Object.prototype. */
+function lookup<T>(table: Record<string, T>, key: string): T | undefined {
+  return Object.prototype.hasOwnProperty.call(table, key) ? table[key] : undefined;
+}
+
+/** A number, optionally with a unit, or an inline list. */
+type Value =
+  | { kind: "number"; value: number; unit?: string }
+  | { kind: "list"; items: number[] };
+
+function num(value: number, unit?: string): Value {
+  return { kind: "number", value, unit };
+}
+
+// ============================================================
+// Tokenizer
+// ============================================================
+
+type Token =
+  | { type: "number"; value: number }
+  | { type: "ident"; value: string }
+  | { type: "op"; value: string };
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < expression.length) {
+    const ch = expression[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    const number = /^(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?/.exec(expression.slice(i));
+    if (number) {
+      tokens.push({ type: "number", value: Number(number[0]) });
+      i += number[0].length;
+      continue;
+    }
+
+    const ident = /^(?:[A-Za-z_][A-Za-z0-9_]*|[万亿])/.exec(expression.slice(i));
+    if (ident) {
+      tokens.push({ type: "ident", value: ident[0] });
+      i += ident[0].length;
+      continue;
+    }
+
+    const op = /^(\*\*|[-+*/^%(),[\]×÷])/.exec(expression.slice(i));
+    if (op) {
+      const value = op[0] === "×" ? "*" : op[0] === "÷" ? "/" : op[0];
+      tokens.push({ type: "op", value });
+      i += op[0].length;
+      continue;
+    }
+
+    throw new CalculationError("syntax_error", `Unexpected character "${ch}" at position ${i + 1}`);
+  }
+  return tokens;
+}
+
+// ============================================================
+// Evaluation helpers
+// ============================================================
+
+function toBase(v: { value: number; unit?: string }): number {
+  return v.unit ? v.value * UNITS[v.unit].factor : v.value;
+}
+
+function convert(value: number, from: string, to: string): number {
+  const a = UNITS[from];
+  const b = UNITS[to];
+  if (a.dimension !== b.dimension) {
+    throw new CalculationError("unit_mismatch", `Cannot convert ${from} to ${to}`);
+  }
+  return (value * a.factor) / b.factor;
+}
+
+function expectNumber(v: Value, context: string): { value: number; unit?: string } {
+  if (v.kind !== "number") {
+    throw new CalculationError("invalid_arguments", `A list cannot be used with ${context}`);
+  }
+  return v;
+}
+
+function expectScalar(v: Value, context: string): number {
+  const n = expectNumber(v, context);
+  if (n.unit) {
+    throw new CalculationError("unit_mismatch", `${context} does not accept a value with unit ${n.unit}`);
+  }
+  return n.value;
+}
+
+function add(a: Value, b: Value, sign: 1 | -1): Value {
+  const x = expectNumber(a, sign > 0 ? "+" : "-");
+  const y = expectNumber(b, sign > 0 ? "+" : "-");
+  if (!x.unit && !y.unit) return num(x.value + sign * y.value);
+  if (!x.unit || !y.unit) {
+    throw new CalculationError("unit_mismatch", "Cannot add a plain number to a value with a unit");
+  }
+  // Result keeps the unit of the left operand
+  return num(x.value + sign * convert(y.value, y.unit, x.unit), x.unit);
+}
+
+function multiply(a: Value, b: Value): Value {
+  const x = expectNumber(a, "*");
+  const y = expectNumber(b, "*");
+  if (x.unit && y.unit) {
+    throw new CalculationError("unit_mismatch", `Cannot multiply ${x.unit} by ${y.unit}`);
+  }
+  return num(x.value * y.value, x.unit || y.unit);
+}
+
+function divide(a: Value, b: Value): Value {
+  const x = expectNumber(a, "/");
+  const y = expectNumber(b, "/");
+  if (y.value === 0) throw new CalculationError("domain_error", "Division by zero");
+  if (x.unit && y.unit) {
+    if (UNITS[x.unit].dimension !== UNITS[y.unit].dimension) {
+      throw new CalculationError("unit_mismatch", `Cannot divide ${x.unit} by ${y.unit}`);
+    }
+    return num(toBase(x) / toBase(y));
+  }
+  if (y.unit) {
+    throw new CalculationError("unit_mismatch", `Cannot divide a plain number by ${y.unit}`);
+  }
+  return num(x.value / y.value, x.unit);
+}
+
+/** Flatten list and scalar arguments into the numbers a statistic runs over. */
+function collect(args: Value[], name: string): number[] {
+  const values: number[] = [];
+  for (const arg of args) {
+    if (arg.kind === "list") values.push(...arg.items);
+    else values.push(expectScalar(arg, name));
+  }
+  if (values.length === 0) {
+    throw new CalculationError("invalid_arguments", `${name}() needs at least one value`);
+  }
+  return values;
+}
+
+function quantile(sorted: number[], p: number): number {
+  const pos = (sorted.length - 1) * p;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+}
+
+function variance(values: number[], name: string): number {
+  if (values.length < 2) {
+    throw new CalculationError("invalid_arguments", `${name}() needs at least two values`);
+  }
+  const mean = values.reduce((s, v) => s + v, 0) / values.length;
+  // Sample variance (n - 1), matching pandas' default
+  return values.reduce((s, v) => s + (v - mean) ** 2, 0) / (values.length - 1);
+}
+
+function unary(name: string, fn: (x: number) => number, domain?: (x: number) => boolean) {
+  return (args: Value[]): Value => {
+    if (args.length !== 1) {
+      throw new CalculationError("invalid_arguments", `${name}() takes exactly one argument`);
+    }
+    const x = expectScalar(args[0], `${name}()`);
+    if (domain && !domain(x)) {
+      throw new CalculationError("domain_error", `${name}(${x}) is undefined`);
+    }
+    return num(fn(x));
+  };
+}
+
+const FUNCTIONS: Record<string, (args: Value[]) => Value> = {
+  sqrt: unary("sqrt", Math.sqrt, (x) => x >= 0),
+  cbrt: unary("cbrt", Math.cbrt),
+  exp: unary("exp", Math.exp),
+  ln: unary("ln", Math.log, (x) => x > 0),
+  log10: unary("log10", Math.log10, (x) => x > 0),
+  log2: unary("log2", Math.log2, (x) => x > 0),
+  floor: unary("floor", Math.floor),
+  ceil: unary("ceil", Math.ceil),
+  abs: (args) => {
+    if (args.length !== 1) throw new CalculationError("invalid_arguments", "abs() takes exactly one argument");
+    const x = expectNumber(args[0], "abs()");
+    return num(Math.abs(x.value), x.unit);
+  },
+  log: (args) => {
+    if (args.length < 1 || args.length > 2) {
+      throw new CalculationError("invalid_arguments", "log() takes a value and an optional base");
+    }
+    const x = expectScalar(args[0], "log()");
+    const base = args[1] ? expectScalar(args[1], "log()") : Math.E;
+    if (x <= 0 || base <= 0 || base === 1) {
+      throw new CalculationError("domain_error", `log(${x}${args[1] ? `, ${base}` : ""}) is undefined`);
+    }
+    return num(Math.log(x) / Math.log(base));
+  },
+  round: (args) => {
+    if (args.length < 1 || args.length > 2) {
+      throw new CalculationError("invalid_arguments", "round() takes a value and optional digits");
+    }
+    const x = expectNumber(args[0], "round()");
+    const digits = args[1] ? expectScalar(args[1], "round()") : 0;
+    if (!Number.isInteger(digits) || digits < 0 || digits > 15) {
+      throw new CalculationError("invalid_arguments", "round() digits must be an integer between 0 and 15");
+    }
+    const factor = 10 ** digits;
+    return num(Math.round(x.value * factor) / factor, x.unit);
+  },
+  pow: (args) => {
+    if (args.length !== 2) throw new CalculationError("invalid_arguments", "pow() takes two arguments");
+    return power(args[0], args[1]);
+  },
+  sum: (args) => num(collect(args, "sum").reduce((s, v) => s + v, 0)),
+  mean: (args) => {
+    const values = collect(args, "mean");
+    return num(values.reduce((s, v) => s + v, 0) / values.length);
+  },
+  median: (args) => num(quantile([...collect(args, "median")].sort((a, b) => a - b), 0.5)),
+  min: (args) => num(Math.min(...collect(args, "min"))),
+  max: (args) => num(Math.max(...collect(args, "max"))),
+  count: (args) => num(collect(args, "count").length),
+  var: (args) => num(variance(collect(args, "var"), "var")),
+  std: (args) => num(Math.sqrt(variance(collect(args, "std"), "std"))),
+  percentile: (args) => {
+    if (args.length !== 2) {
+      throw new CalculationError("invalid_arguments", "percentile() takes a list and a percentile (0-100)");
+    }
+    const p = expectScalar(args[1], "percentile()");
+    if (p < 0 || p > 100) throw new CalculationError("domain_error", "percentile must be between 0 and 100");
+    return num(quantile([...collect([args[0]], "percentile")].sort((a, b) => a - b), p / 100));
+  },
+};
+FUNCTIONS.avg = FUNCTIONS.mean;
+FUNCTIONS.stdev = FUNCTIONS.std;
+
+function power(a: Value, b: Value): Value {
+  const base = expectScalar(a, "^");
+  const exponent = expectScalar(b, "^");
+  if (base < 0 && !Number.isInteger(exponent)) {
+    throw new CalculationError("domain_error", `${base} ^ ${exponent} is not a real number`);
+  }
+  return num(base ** exponent);
+}
+
+// ============================================================
+// Parser (recursive descent, evaluates while parsing)
+// ============================================================
+
+function createParser(tokens: Token[]) {
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const isOp = (value: string) => peek()?.type === "op" && peek().value === value;
+  const isIdent = (value: string) => peek()?.type === "ident" && peek().value === value;
+  const expectOp = (value: string) => {
+    if (!isOp(value)) {
+      const found = peek() ? `"${peek().value}"` : "end of expression";
+      throw new CalculationError("syntax_error", `Expected "${value}" but found ${found}`);
+    }
+    pos++;
+  };
+
+  // conversion := additive (("in" | "to") unit)?
+  function conversion(): Value {
+    const value = additive();
+    if ((isIdent("in") || isIdent("to")) && tokens[pos + 1]?.type === "ident") {
+      pos++;
+      const target = String(tokens[pos++].value);
+      if (!lookup(UNITS, target)) throw new CalculationError("unknown_identifier", `Unknown unit "${target}"`);
+      const n = expectNumber(value, "unit conversion");
+      if (!n.unit) throw new CalculationError("unit_mismatch", `Cannot convert a plain number to ${target}`);
+      return num(convert(n.value, n.unit, target), target);
+    }
+    return value;
+  }
+
+  // additive := multiplicative (("+" | "-") multiplicative)*
+  function additive(): Value {
+    let left = multiplicative();
+    while (isOp("+") || isOp("-")) {
+      const sign = peek().value === "+" ? 1 : -1;
+      pos++;
+      left = add(left, multiplicative(), sign);
+    }
+    return left;
+  }
+
+  // multiplicative := unaryExpr (("*" | "/" | "mod") unaryExpr)*
+  function multiplicative(): Value {
+    let left = unaryExpr();
+    while (isOp("*") || isOp("/") || isIdent("mod")) {
+      const op = peek().value;
+      pos++;
+      const right = unaryExpr();
+      if (op === "*") left = multiply(left, right);
+      else if (op === "/") left = divide(left, right);
+      else {
+        const divisor = expectScalar(right, "mod");
+        if (divisor === 0) throw new CalculationError("domain_error", "Modulo by zero");
+        left = num(expectScalar(left, "mod") % divisor);
+      }
+    }
+    return left;
+  }
+
+  // unaryExpr := ("-" | "+") unaryExpr | powerExpr
+  function unaryExpr(): Value {
+    if (isOp("-") || isOp("+")) {
+      const negate = peek().value === "-";
+      pos++;
+      const operand = expectNumber(unaryExpr(), "unary minus");
+      return num(negate ? -operand.value : operand.value, operand.unit);
+    }
+    return powerExpr();
+  }
+
+  // powerExpr := postfix (("^" | "**") unaryExpr)?   (right-associative)
+  function powerExpr(): Value {
+    const base = postfix();
+    if (isOp("^") || isOp("**")) {
+      pos++;
+      return power(base, unaryExpr());
+    }
+    return base;
+  }
+
+  // postfix := primary ("%" ("of" unaryExpr)? | scale | unit)*
+  function postfix(): Value {
+    let value = primary();
+    for (;;) {
+      const token = peek();
+      if (isOp("%")) {
+        pos++;
+        const fraction = expectScalar(value, "%") / 100;
+        if (isIdent("of")) {
+          pos++;
+          const whole = expectNumber(unaryExpr(), "% of");
+          value = num(fraction * whole.value, whole.unit);
+        } else {
+          value = num(fraction);
+        }
+      } else if (token?.type === "ident" && lookup(SCALES, token.value) !== undefined) {
+        pos++;
+        const n = expectNumber(value, token.value);
+        value = num(n.value * SCALES[token.value], n.unit);
+      } else if (token?.type === "ident" && lookup(UNITS, token.value) && value.kind === "number" && !value.unit) {
+        pos++;
+        value = num(value.value, token.value);
+      } else {
+        return value;
+      }
+    }
+  }
+
+  // primary := number | "(" conversion ")" | list | function "(" args ")" | constant
+  function primary(): Value {
+    const token = peek();
+    if (!token) throw new CalculationError("syntax_error", "Unexpected end of expression");
+
+    if (token.type === "number") {
+      pos++;
+      return num(token.value);
+    }
+
+    if (isOp("(")) {
+      pos++;
+      const value = conversion();
+      expectOp(")");
+      return value;
+    }
+
+    if (isOp("[")) {
+      pos++;
+      const items: number[] = [];
+      while (!isOp("]")) {
+        items.push(expectScalar(conversion(), "list item"));
+        if (items.length > MAX_LIST_LENGTH) {
+          throw new CalculationError("invalid_arguments", `Lists are limited to ${MAX_LIST_LENGTH} items`);
+        }
+        if (!isOp(",")) break;
+        pos++;
+      }
+      expectOp("]");
+      return { kind: "list", items };
+    }
+
+    if (token.type === "ident") {
+      pos++;
+      const name = token.value.toLowerCase();
+      if (isOp("(")) {
+        const fn = lookup(FUNCTIONS, name);
+        if (!fn) throw new CalculationError("unknown_function", `Unknown function "${token.value}"`);
+        pos++;
+        const args: Value[] = [];
+        while (!isOp(")")) {
+          args.push(conversion());
+          if (!isOp(",")) break;
+          pos++;
+        }
+        expectOp(")");
+        return fn(args);
+      }
+      const constant = lookup(CONSTANTS, name);
+      if (constant !== undefined) return num(constant);
+      throw new CalculationError("unknown_identifier", `Unknown identifier "${token.value}"`);
+    }
+
+    throw new CalculationError("syntax_error", `Unexpected "${token.value}"`);
+  }
+
+  return {
+    parse(): Value {
+      const value = conversion();
+      if (pos < tokens.length) {
+        throw new CalculationError("syntax_error", `Unexpected "${tokens[pos].value}" at the end`);
+      }
+      return value;
+    },
+  };
+}
+
+function formatNumber(value: number): string {
+  // Trim floating point noise such as 0.1 + 0.2 = 0.30000000000000004
+  return String(Number(value.toPrecision(12)));
+}
+
+/** Parse and evaluate an expression. Throws `CalculationError` on any failure. */
+export function evaluateExpression(expression: string): CalculationResult {
+  const trimmed = expression.trim();
+  if (!trimmed) throw new CalculationError("empty_expression", "Expression is empty");
+  if (trimmed.length > MAX_EXPRESSION_LENGTH) {
+    throw new CalculationError(
+      "expression_too_long",
+      `Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`
+    );
+  }
+
+  const value = createParser(tokenize(trimmed)).parse();
+  if (value.kind === "list") {
+    throw new CalculationError(
+      "invalid_arguments",
+      "The result is a list — wrap it in a statistic such as sum(), mean() or max()"
+    );
+  }
+  if (!Number.isFinite(value.value)) {
+    throw new CalculationError("non_finite_result", "The result is not a finite number");
+  }
+
+  const result = Number(value.value.toPrecision(15));
+  return {
+    result,
+    unit: value.unit,
+    formatted: value.unit ? `${formatNumber(result)} ${value.unit}` : formatNumber(result),
+  };
+}
@@ -0,0 +1,73 @@
+import { MemorySaver, type Checkpoint, type CheckpointMetadata } from "@langchain/langgraph";
+import type { RunnableConfig } from "@langchain/core/runnables";
+
+/**
+ * Bounded Thread Checkpointer
+ *
+ * The agent only ever resumes a thread from its latest checkpoint, so this
+ * saver drops every older checkpoint (and its pending writes) when a new one
+ * is stored. Whole threads are evicted after `THREAD_TTL_MS` without use and,
+ * least recently used first, beyond `MAX_THREADS`. Threads still live in
+ * process memory only: an evicted or restarted thread is unknown to the next
+ * request, which the client handles by re-seeding it with the history.
+ */
+
+const THREAD_TTL_MS = 6 * 60 * 60 * 1000; // 6 hours
+const MAX_THREADS = 200;
+
+export class BoundedMemorySaver extends MemorySaver {
+  // Thread id → last use; Map order doubles as the LRU order
+  private lastUsed = new Map<string, number>();
+
+  async getTuple(config: RunnableConfig) {
+    const threadId = config.configurable?.thread_id as string | undefined;
+    if (threadId && this.lastUsed.has(threadId)) this.touch(threadId);
+    return super.getTuple(config);
+  }
+
+  async put(config: RunnableConfig, checkpoint: Checkpoint, metadata: CheckpointMetadata) {
+    const stored = await super.put(config, checkpoint, metadata);
+    const threadId = stored.configurable?.thread_id as string;
+    this.pruneOlderCheckpoints(threadId, stored.configurable?.checkpoint_ns ?? "", checkpoint.id);
+    this.touch(threadId);
+    await this.evictStale(threadId);
+    return stored;
+  }
+
+  async deleteThread(threadId: string) {
+    this.lastUsed.delete(threadId);
+    await super.deleteThread(threadId);
+  }
+
+  private touch(threadId: string) {
+    this.lastUsed.delete(threadId);
+    this.lastUsed.set(threadId, Date.now());
+  }
+
+  /** Keep only `latestId` in this thread namespace, with its own pending writes. */
+  private pruneOlderCheckpoints(threadId: string, namespace: string, latestId: string) {
+    const checkpoints = this.storage[threadId]?.[namespace] ?? {};
+    for (const id of Object.keys(checkpoints)) {
+      if (id !== latestId) delete checkpoints[id];
+    }
+    for (const key of Object.keys(this.writes)) {
+      const [writeThread, writeNamespace, writeCheckpoint] = JSON.parse(key) as Array<string | null>;
+      if (writeThread === threadId && (writeNamespace ?? "") === namespace && writeCheckpoint !== latestId) {
+        delete this.writes[key];
+      }
+    }
+  }
+
+  /** Drop threads idle past the TTL, then the least recently used beyond the cap. */
+  private async evictStale(current: string) {
+    const cutoff = Date.now() - THREAD_TTL_MS;
+    const excess = this.lastUsed.size - MAX_THREADS;
+    let evicted = 0;
+    for (const [threadId, lastUsed] of Array.from(this.lastUsed)) {
+      if (threadId === current) continue;
+      if (lastUsed >= cutoff && evicted >= excess) break;
+      await this.deleteThread(threadId);
+      evicted++;
+    }
+  }
+}
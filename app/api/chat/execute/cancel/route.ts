@@ -0,0 +1,15 @@
+import { cancelExecution } from "@/app/lib/sandbox/execute";
+
+export const runtime = "nodejs";
+
+/**
+ * Stop the code currently running for a conversation by killing its kernel.
+ * Body: { conversationId: string }
+ */
+export async function POST(req: Request) {
+  const { conversationId } = await req.json().catch(() => ({}));
+  if (typeof conversationId !== "string" || !conversationId) {
+    return Response.json({ error: "conversationId is required" }, { status: 400 });
+  }
+  return Response.json({ cancelled: cancelExecution(conversationId) });
+}
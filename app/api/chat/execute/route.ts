@@ -1,236 +1,40 @@
-import { Sandbox } from "@e2b/code-interpreter";
+import { runPythonCode, validateCode, validateExecutionFiles } from "@/app/lib/sandbox/execute";
+import { releaseSession } from "@/app/lib/sandbox/sessions";
 
 export const runtime = "nodejs";
 export const maxDuration = 60;
 
-const MAX_SINGLE_FILE_SIZE = 5 * 1024 * 1024; // 5MB per file
-const MAX_TOTAL_FILE_SIZE = 20 * 1024 * 1024; // 20MB total
-const MAX_CODE_LENGTH = 100000; // 100KB of code
-
 export async function POST(req: Request) {
-  const { tool, args, files } = await req.json();
+  const { tool, args, files, conversationId } = await req.json();
 
   if (tool !== "execute_python") {
     return Response.json({ error: "Unsupported tool" }, { status: 400 });
   }
 
   const code = args?.code;
-  if (!code) {
-    return Response.json({ error: "No code provided" }, { status: 400 });
-  }
-
-  if (typeof code !== "string") {
-    return Response.json({ error: "Code must be a string" }, { status: 400 });
-  }
-
-  if (code.length > MAX_CODE_LENGTH) {
-    return Response.json(
-      { error: `Code too long (max ${MAX_CODE_LENGTH / 1024}KB)` },
-      { status: 400 }
-    );
-  }
-
-  if (code.trim().length === 0) {
-    return Response.json({ error: "Code cannot be empty" }, { status: 400 });
+  const codeError = validateCode(code);
+  if (codeError) {
+    return Response.json({ error: codeError }, { status: 400 });
   }
 
   // Validate files
-  if (files && !Array.isArray(files)) {
-    return Response.json({ error: "Files must be an array" }, { status: 400 });
+  const filesError = validateExecutionFiles(files);
+  if (filesError) {
+    return Response.json({ error: filesError }, { status: 400 });
   }
 
-  let totalFileSize = 0;
-  if (files && Array.isArray(files)) {
-    for (const file of files) {
-      if (!file.name || !file.content) {
-        return Response.json({ error: "Invalid file format" }, { status: 400 });
-      }
-      const buffer = Buffer.from(file.content, "base64");
-      if (buffer.length > MAX_SINGLE_FILE_SIZE) {
-        return Response.json(
-          { error: `File ${file.name} too large (max ${MAX_SINGLE_FILE_SIZE / 1024 / 1024}MB)` },
-          { status: 400 }
-        );
-      }
-      totalFileSize += buffer.length;
-    }
-  }
-
-  if (totalFileSize > MAX_TOTAL_FILE_SIZE) {
-    return Response.json(
-      { error: `Total file size too large (max ${MAX_TOTAL_FILE_SIZE / 1024 / 1024}MB)` },
-      { status: 400 }
-    );
-  }
-
-  let sandbox: Sandbox | null = null;
-  try {
-    sandbox = await Sandbox.create({
-      apiKey: process.env.E2B_API_KEY,
-    });
-
-    // Upload files to sandbox and track their names
-    const uploadedFileNames = new Set<string>();
-    if (files && Array.isArray(files)) {
-      for (const file of files) {
-        if (file.name && file.content) {
-          const buffer = Buffer.from(file.content, "base64");
-          await sandbox.files.write(`/home/user/${file.name}`, new Blob([buffer]));
-          uploadedFileNames.add(file.name);
-        }
-      }
-    }
-
-    // Configure matplotlib to support Chinese fonts
-    const fontSetupCode = `
-import matplotlib.pyplot as plt
-import matplotlib
-# Try common Chinese fonts in order of preference
-_chinese_fonts = ['SimHei', 'Microsoft YaHei', 'WenQuanYi Micro Hei', 'Noto Sans CJK SC', 'DejaVu Sans']
-_font_set = False
-for _font in _chinese_fonts:
-    try:
-        matplotlib.rcParams['font.sans-serif'] = [_font] + matplotlib.rcParams['font.sans-serif']
-        _font_set = True
-        break
-    except:
-        pass
-if not _font_set:
-    matplotlib.rcParams['font.sans-serif'] = ['DejaVu Sans']
-matplotlib.rcParams['axes.unicode_minus'] = False  # Fix minus sign display
-del _chinese_fonts, _font_set, _font
-`;
-    await sandbox.runCode(fontSetupCode);
-
-    const execution = await sandbox.runCode(code);
-
-    const stdout = execution.logs.stdout.join("\n");
-    const stderr = execution.logs.stderr.join("\n");
-    // Deduplicate results: if multiple results have png data, keep only unique ones
-    // This prevents matplotlib auto-display + plt.show() + PIL.open from producing duplicates
-    const rawResults = execution.results.map((r) => ({
-      text: r.text,
-      png: r.png,
-      html: r.html,
-    }));
-    const seenPng = new Set<string>();
-    const results = rawResults.filter((r) => {
-      if (r.png) {
-        // Use first 200 chars of base64 as fingerprint (same image = same prefix)
-        const fingerprint = r.png.substring(0, 200);
-        if (seenPng.has(fingerprint)) return false;
-        seenPng.add(fingerprint);
-      }
-      return true;
-    });
-
-    // Detect newly generated files after code execution
-    const generatedFiles: Array<{ name: string; content: string; size: number; richPreview?: Record<string, unknown> }> = [];
-    if (!execution.error) {
-      try {
-        // List files in user directory via SDK
-        const entries = await sandbox.files.list("/home/user");
-        const newFileNames = entries
-          .filter(
-            (e) =>
-              e.type === "file" &&
-              !e.name.startsWith(".") &&
-              !uploadedFileNames.has(e.name)
-          )
-          .map((e) => e.name);
-
-        if (newFileNames.length > 0) {
-          // Use Python to read and base64-encode new files (binary-safe)
-          const namesJson = JSON.stringify(newFileNames);
-          const readCode = `
-import os, base64, json
-_files = []
-_total = 0
-for _name in ${namesJson}:
-    _fp = os.path.join('/home/user', _name)
-    if os.path.isfile(_fp):
-        _size = os.path.getsize(_fp)
-        if _size <= ${MAX_SINGLE_FILE_SIZE} and _total + _size <= ${MAX_TOTAL_FILE_SIZE}:
-            with open(_fp, 'rb') as _fh:
-                _data = base64.b64encode(_fh.read()).decode()
-            _files.append({'name': _name, 'size': _size, 'content': _data})
-            _total += _size
-print(json.dumps(_files))`;
-          const fileReadExec = await sandbox.runCode(readCode);
-          const fileOutput = fileReadExec.logs.stdout.join("").trim();
-          if (fileOutput) {
-            const parsedFiles = JSON.parse(fileOutput);
-            generatedFiles.push(...parsedFiles);
-          }
-        }
-      } catch {
-        // Ignore file discovery errors - don't block the main result
-      }
-
-      // Generate rich previews for generated data files (reuse the still-running sandbox)
-      const previewableExts = new Set(["csv", "tsv", "txt", "json", "xlsx", "xls", "parquet"]);
-      for (const gf of generatedFiles) {
-        const gfExt = gf.name.split(".").pop()?.toLowerCase() || "";
-        if (!previewableExts.has(gfExt)) continue;
-        try {
-          const gfPath = `/home/user/${gf.name}`;
-          const sep = gfExt === "tsv" ? "\\t" : ",";
-          let readExpr: string;
-          if (["csv", "tsv", "txt"].includes(gfExt)) {
-            readExpr = `pd.read_csv("${gfPath}", sep="${sep}", nrows=100)`;
-          } else if (["xlsx", "xls"].includes(gfExt)) {
-            readExpr = `pd.read_excel("${gfPath}", nrows=100)`;
-          } else if (gfExt === "json") {
-            readExpr = `pd.read_json("${gfPath}")`;
-          } else if (gfExt === "parquet") {
-            readExpr = `pd.read_parquet("${gfPath}")`;
-          } else {
-            continue;
-          }
-          const previewPyCode = `
-import pandas as pd, json
-try:
-    df = ${readExpr}
-    _r = {"fileName":"${gf.name}","shape":list(df.shape),"columns":list(df.columns),"dtypes":{c:str(d) for c,d in df.dtypes.items()},"head":df.head(5).to_string(index=True),"describe":df.describe(include='all').to_string(),"null_counts":{k:int(v) for k,v in df.isnull().sum().to_dict().items()}}
-    print(json.dumps(_r, ensure_ascii=False))
-except Exception as _e:
-    print(json.dumps({"error":str(_e)}))
-`;
-          const previewExec = await sandbox!.runCode(previewPyCode);
-          const previewOut = previewExec.logs.stdout.join("").trim();
-          if (previewOut) {
-            const parsed = JSON.parse(previewOut);
-            if (!parsed.error) {
-              gf.richPreview = parsed;
-            }
-          }
-        } catch {
-          // Ignore preview errors
-        }
-      }
-    }
+  const result = await runPythonCode(code, files, conversationId);
+  return Response.json(result, { status: result.type === "code_execution_blocked" ? 403 : 200 });
+}
 
-    return Response.json({
-      type: "code_execution",
-      code,
-      stdout,
-      stderr,
-      results,
-      generatedFiles,
-      error: execution.error
-        ? execution.error.name + ": " + execution.error.value
-        : null,
-    });
-  } catch (err: unknown) {
-    const errMsg = err instanceof Error ? err.message : "Unknown error";
-    return Response.json({
-      type: "code_execution_error",
-      code,
-      error: errMsg,
-    });
-  } finally {
-    if (sandbox) {
-      await sandbox.kill().catch(() => {});
-    }
+/**
+ * Explicit teardown of a conversation's persistent sandbox session.
+ */
+export async function DELETE(req: Request) {
+  const { conversationId } = await req.json().catch(() => ({}));
+  if (typeof conversationId !== "string" || !conversationId) {
+    return Response.json({ error: "conversationId is required" }, { status: 400 });
   }
+  await releaseSession(conversationId);
+  return Response.json({ success: true });
 }
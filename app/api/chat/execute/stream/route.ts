@@ -0,0 +1,77 @@
+import { runPythonCode, validateCode, validateExecutionFiles } from "@/app/lib/sandbox/execute";
+
+export const runtime = "nodejs";
+// Long-running code (e.g. model training) streams output for up to five minutes
+export const maxDuration = 300;
+
+// Leaves time to collect generated files before the route is cut off
+const STREAM_RUN_TIMEOUT_MS = 270_000;
+
+/**
+ * Streaming variant of `/api/chat/execute`. Same request body; the response
+ * is SSE:
+ *
+ * - `start`   { startedAt }
+ * - `stdout` / `stderr` { text } — output as it is printed
+ * - `display` { result }         — figures and other display data
+ * - `result`  { result, elapsedMs } — the full execution result, last event
+ *
+ * Closing the connection cancels the run and kills the kernel.
+ */
+export async function POST(req: Request) {
+  const { tool, args, files, conversationId } = await req.json();
+
+  if (tool !== "execute_python") {
+    return Response.json({ error: "Unsupported tool" }, { status: 400 });
+  }
+
+  const code = args?.code;
+  const codeError = validateCode(code);
+  if (codeError) {
+    return Response.json({ error: codeError }, { status: 400 });
+  }
+
+  const filesError = validateExecutionFiles(files);
+  if (filesError) {
+    return Response.json({ error: filesError }, { status: 400 });
+  }
+
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let open = true;
+      const send = (event: Record<string, unknown>) => {
+        if (!open) return;
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        } catch {
+          // Client went away
+          open = false;
+        }
+      };
+
+      const startedAt = Date.now();
+      send({ type: "start", startedAt });
+
+      const result = await runPythonCode(code, files, conversationId, {
+        onStdout: (text) => send({ type: "stdout", text }),
+        onStderr: (text) => send({ type: "stderr", text }),
+        onResult: (result) => send({ type: "display", result }),
+        timeoutMs: STREAM_RUN_TIMEOUT_MS,
+        signal: req.signal,
+      });
+
+      send({ type: "result", result, elapsedMs: Date.now() - startedAt });
+      if (open) controller.close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
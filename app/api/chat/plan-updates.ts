@@ -0,0 +1,167 @@
+import type { Plan, PlanRevision, PlanStep } from "./agent";
+
+/**
+ * Plan Revisions
+ *
+ * Pure helpers behind the `update_plan` tool: every change returns a new
+ * plan with `revision` bumped and an entry appended to `revisions`, so the
+ * client can show how the plan evolved. `currentStepIndex` always points at
+ * the step the next `execute_python` call is attributed to.
+ */
+
+export type PlanUpdateAction =
+  | "insert_step"
+  | "skip_step"
+  | "retry_step"
+  | "move_step"
+  | "set_result";
+
+export interface PlanUpdateArgs {
+  action: PlanUpdateAction;
+  stepId?: string;
+  afterStepId?: string;
+  title?: string;
+  description?: string;
+  result?: string;
+  reason?: string;
+}
+
+const MAX_STEPS = 20;
+const MAX_RESULT_LENGTH = 500;
+
+function isOpen(step: PlanStep): boolean {
+  return step.status === "pending" || step.status === "in_progress";
+}
+
+/**
+ * Index of the next step still to run: the first open step at or after
+ * `from`, else the first open step anywhere, else `steps.length`.
+ */
+export function nextPendingIndex(steps: PlanStep[], from: number): number {
+  for (let i = Math.max(0, from); i < steps.length; i++) {
+    if (isOpen(steps[i])) return i;
+  }
+  const earlier = steps.findIndex(isOpen);
+  return earlier >= 0 ? earlier : steps.length;
+}
+
+/** A plan is complete once no step is waiting to run. */
+export function isPlanComplete(steps: PlanStep[]): boolean {
+  return steps.length > 0 && !steps.some(isOpen);
+}
+
+function findStep(steps: PlanStep[], stepId: string | undefined, action: string): number {
+  if (!stepId) throw new Error(`${action} requires stepId`);
+  const index = steps.findIndex((s) => s.id === stepId);
+  if (index < 0) {
+    throw new Error(`Unknown stepId "${stepId}". Valid ids: ${steps.map((s) => s.id).join(", ")}`);
+  }
+  return index;
+}
+
+function nextStepId(steps: PlanStep[]): string {
+  const max = steps.reduce((m, s) => {
+    const n = Number(/^step-(\d+)$/.exec(s.id)?.[1]);
+    return Number.isFinite(n) ? Math.max(m, n) : m;
+  }, 0);
+  return `step-${max + 1}`;
+}
+
+/** Apply one `update_plan` action. Throws with a model-readable message on invalid input. */
+export function applyPlanUpdate(plan: Plan, args: PlanUpdateArgs): Plan {
+  const steps = plan.steps.map((s) => ({ ...s }));
+  const revision = (plan.revision ?? 0) + 1;
+  const currentId = steps[plan.currentStepIndex]?.id;
+  let currentIndex: number;
+  let stepId: string;
+
+  switch (args.action) {
+    case "insert_step": {
+      if (!args.title?.trim()) throw new Error("insert_step requires title");
+      if (steps.length >= MAX_STEPS) throw new Error(`A plan can have at most ${MAX_STEPS} steps`);
+      const at = args.afterStepId
+        ? findStep(steps, args.afterStepId, "insert_step") + 1
+        : Math.min(plan.currentStepIndex, steps.length);
+      stepId = nextStepId(steps);
+      steps.splice(at, 0, {
+        id: stepId,
+        title: args.title.trim(),
+        description: args.description,
+        status: "pending",
+        addedInRevision: revision,
+      });
+      // Without an anchor the new step runs next
+      currentIndex = args.afterStepId
+        ? nextPendingIndex(steps, steps.findIndex((s) => s.id === currentId))
+        : at;
+      break;
+    }
+    case "skip_step": {
+      const index = findStep(steps, args.stepId, "skip_step");
+      if (steps[index].status === "completed") throw new Error("A completed step cannot be skipped");
+      stepId = steps[index].id;
+      steps[index] = { ...steps[index], status: "skipped", result: args.reason ?? steps[index].result };
+      currentIndex = nextPendingIndex(steps, steps.findIndex((s) => s.id === currentId));
+      break;
+    }
+    case "retry_step": {
+      const index = findStep(steps, args.stepId, "retry_step");
+      if (isOpen(steps[index])) throw new Error("Only failed, skipped or completed steps can be retried");
+      stepId = steps[index].id;
+      steps[index] = {
+        ...steps[index],
+        status: "pending",
+        attempts: (steps[index].attempts ?? 1) + 1,
+      };
+      currentIndex = index;
+      break;
+    }
+    case "move_step": {
+      const index = findStep(steps, args.stepId, "move_step");
+      if (!isOpen(steps[index])) throw new Error("Only steps that have not run yet can be moved");
+      stepId = steps[index].id;
+      const [moved] = steps.splice(index, 1);
+      const remainingCurrent = steps.findIndex((s) => s.id === currentId);
+      const at = args.afterStepId
+        ? findStep(steps, args.afterStepId, "move_step") + 1
+        : Math.max(0, remainingCurrent === -1 ? steps.length : remainingCurrent);
+      steps.splice(at, 0, moved);
+      if (!args.afterStepId) {
+        // Without an anchor the moved step runs next
+        currentIndex = at;
+      } else if (currentId !== stepId) {
+        currentIndex = nextPendingIndex(steps, steps.findIndex((s) => s.id === currentId));
+      } else {
+        // The current step moved away — continue with whatever took its place
+        currentIndex = nextPendingIndex(steps, index);
+      }
+      break;
+    }
+    case "set_result": {
+      const index = findStep(steps, args.stepId, "set_result");
+      if (!args.result?.trim()) throw new Error("set_result requires result");
+      stepId = steps[index].id;
+      steps[index] = { ...steps[index], result: args.result.trim().slice(0, MAX_RESULT_LENGTH) };
+      currentIndex = plan.currentStepIndex;
+      break;
+    }
+    default:
+      throw new Error(`Unknown action "${String(args.action)}"`);
+  }
+
+  const entry: PlanRevision = {
+    revision,
+    action: args.action,
+    stepId,
+    note: args.reason || args.title || args.result?.slice(0, 80),
+    at: Date.now(),
+  };
+  return {
+    ...plan,
+    steps,
+    currentStepIndex: Math.max(0, Math.min(currentIndex, steps.length)),
+    isComplete: isPlanComplete(steps),
+    revision,
+    revisions: [...(plan.revisions ?? []), entry],
+  };
+}
@@ -0,0 +1,743 @@
+import {
+  archiveExtractDir,
+  detectDataFormat,
+  pyString,
+  SUPPORTED_DATA_EXTENSIONS,
+  type DataFormat,
+} from "@/app/lib/data-formats";
+
+/**
+ * Preview Scripts
+ *
+ * One pandas script per registered data format. Every script prints a
+ * single JSON object: the summary of the file's table at the top level and,
+ * for formats holding several tables (Excel sheets, SQLite tables, archive
+ * members), all of them under `tables` with the first non-empty one doubling
+ * as the top-level summary.
+ */
+
+const PREVIEW_HEAD_ROWS = 5; // Rows to display in preview
+const PREVIEW_SAMPLE_ROWS = 1000; // Rows to sample for statistics (balance between accuracy and performance)
+const PREVIEW_MAX_TABLES = 20; // Sheets, database tables or archive members previewed per file
+const SNIFF_BYTES = 64 * 1024; // Bytes read to detect a text file's encoding and dialect
+const SNIFF_LINES = 50; // Lines used to detect delimiter, preamble and header
+const PROFILE_TOP_VALUES = 5; // Most frequent values kept per column
+const PROFILE_VALUE_CHARS = 60; // Longer top values are truncated
+const PROFILE_HISTOGRAM_BINS = 10;
+const PROFILE_DATE_SAMPLE = 200; // Strings test-parsed as dates per column
+
+// Prepended to every script. Column profiles are computed on the sampled
+// rows and describe values rather than names: the semantic type is what the
+// data looks like (an integer column with a dense unique range is an
+// identifier, strings that parse as dates are datetimes), so classification
+// does not depend on how columns happen to be named.
+const SUMMARY_HELPERS = `
+import pandas as pd
+import numpy as np
+import json
+import math
+import warnings
+
+def finite(x):
+    x = float(x)
+    return x if math.isfinite(x) else None
+
+def date_parse_ratio(strings):
+    sample = strings.head(${PROFILE_DATE_SAMPLE})
+    if sample.empty:
+        return 0.0
+    # Numbers ("12", "1.5") parse as dates too; only date-shaped strings count
+    shaped = sample.str.contains(r"[-/.:年月]|^\\d{8}$", regex=True)
+    numeric = sample.str.fullmatch(r"-?\\d+(\\.\\d+)?")
+    candidates = sample[shaped & ~numeric]
+    if candidates.empty:
+        return 0.0
+    with warnings.catch_warnings():
+        warnings.simplefilter("ignore")
+        try:
+            parsed = pd.to_datetime(candidates, errors="coerce", format="mixed")
+        except (TypeError, ValueError):
+            parsed = pd.to_datetime(candidates, errors="coerce")
+    return float(parsed.notna().sum() / len(sample))
+
+def infer_semantic_type(p, s):
+    if p["nonNull"] == 0 or p["unique"] <= 1:
+        return "constant"
+    if pd.api.types.is_bool_dtype(s):
+        return "boolean"
+    if "datetime" in p or p.get("dateParseRatio", 0) >= 0.9:
+        return "datetime"
+    unique_ratio = p["unique"] / p["nonNull"]
+    num = p.get("numeric")
+    if num:
+        if num["integer"] and p["unique"] == 2 and num["min"] == 0 and num["max"] == 1:
+            return "boolean"
+        # Four-digit years are dates even when stored as integers
+        if num["integer"] and num["min"] is not None and 1900 <= num["min"] and num["max"] <= 2100:
+            return "datetime"
+        # Unique integers filling a dense range are row keys, not measures
+        if (num["integer"] and unique_ratio >= 0.95 and p["nonNull"] >= 20
+                and num["max"] - num["min"] + 1 <= 2 * p["unique"]):
+            return "identifier"
+        return "numeric"
+    length = p.get("stringLength")
+    if length and length["mean"] >= 30:
+        return "text"
+    if (length and unique_ratio >= 0.95 and p["nonNull"] >= 20
+            and length["max"] - length["min"] <= 2):
+        return "identifier"
+    if unique_ratio <= 0.5 or p["unique"] <= 50:
+        return "categorical"
+    return "text"
+
+def profile_column(s):
+    non_null = s.dropna()
+    p = {
+        "name": str(s.name),
+        "dtype": str(s.dtype),
+        "nonNull": int(non_null.shape[0]),
+        "unique": int(non_null.astype(str).nunique()),
+    }
+    counts = non_null.astype(str).value_counts().head(${PROFILE_TOP_VALUES})
+    p["topValues"] = [{"value": str(v)[:${PROFILE_VALUE_CHARS}], "count": int(c)} for v, c in counts.items()]
+    if pd.api.types.is_numeric_dtype(s) and not pd.api.types.is_bool_dtype(s):
+        values = non_null.astype(float)
+        values = values[np.isfinite(values)]
+        if len(values):
+            hist, edges = np.histogram(values, bins=max(1, min(${PROFILE_HISTOGRAM_BINS}, p["unique"])))
+            p["numeric"] = {
+                "min": finite(values.min()),
+                "max": finite(values.max()),
+                "mean": finite(values.mean()),
+                "std": finite(values.std()) if len(values) > 1 else None,
+                "integer": bool((values % 1 == 0).all()),
+                "histogram": {"edges": [finite(e) for e in edges], "counts": [int(c) for c in hist]},
+            }
+    elif pd.api.types.is_datetime64_any_dtype(s):
+        if len(non_null):
+            p["datetime"] = {"min": non_null.min().isoformat(), "max": non_null.max().isoformat()}
+        p["dateParseRatio"] = 1.0
+    elif not pd.api.types.is_bool_dtype(s):
+        strings = non_null.astype(str)
+        if len(strings):
+            lengths = strings.str.len()
+            p["stringLength"] = {
+                "min": int(lengths.min()),
+                "max": int(lengths.max()),
+                "mean": float(lengths.mean()),
+                "median": float(lengths.median()),
+            }
+        p["dateParseRatio"] = date_parse_ratio(strings)
+    p["semanticType"] = infer_semantic_type(p, s)
+    return p
+
+def profile_columns(df):
+    profiles = []
+    for i in range(df.shape[1]):
+        try:
+            profiles.append(profile_column(df.iloc[:, i]))
+        except Exception as e:
+            profiles.append({
+                "name": str(df.columns[i]), "dtype": str(df.dtypes.iloc[i]),
+                "nonNull": 0, "unique": 0, "topValues": [], "semanticType": "unknown", "error": str(e),
+            })
+    return profiles
+
+def summarize(df, total_rows, name=None):
+    rows = 0 if df.empty else total_rows
+    summary = {
+        "shape": [rows, df.shape[1]],
+        "columns": [str(c) for c in df.columns],
+        "dtypes": {str(col): str(dtype) for col, dtype in df.dtypes.items()},
+        "head": "" if df.empty else df.head(${PREVIEW_HEAD_ROWS}).to_string(index=True),
+        "describe": "" if df.empty else df.describe(include='all').to_string(),
+        "null_counts": {str(k): int(v) for k, v in df.isnull().sum().to_dict().items()},
+        "sampled": rows > ${PREVIEW_SAMPLE_ROWS},
+        "columnProfiles": profile_columns(df),
+    }
+    if name is not None:
+        summary["name"] = str(name)
+    return summary
+
+def emit_single(df, total_rows, **extra):
+    if df.empty:
+        raise ValueError("File is empty or contains no data rows")
+    print(json.dumps({**summarize(df, total_rows), **extra}, ensure_ascii=False))
+
+def emit_tables(tables, table_count):
+    primary = next((t for t in tables if t["shape"][0] > 0), None)
+    if primary is None:
+        raise ValueError("File is empty or contains no data rows")
+    result = {k: v for k, v in primary.items() if k != "name"}
+    result["tables"] = tables
+    result["tableCount"] = table_count
+    print(json.dumps(result, ensure_ascii=False))
+`;
+
+// Also prepended to every script. Each sampler returns the first
+// PREVIEW_SAMPLE_ROWS rows and the file's row count, taken from metadata or
+// counted while streaming, so a large file is never loaded whole.
+const SAMPLE_READERS = `
+import codecs
+import csv
+import gzip
+import re
+from collections import Counter
+
+def read_delimited(path, preferred=","):
+    # Sniff encoding, delimiter, quoting, preamble rows and header instead of
+    # assuming utf-8 + comma. Returns the sample, the row count and the
+    # read_csv arguments that worked
+    # read_csv decompresses .gz itself; the sniffing below needs the plain text
+    opener = gzip.open if path.lower().endswith(".gz") else open
+    with opener(path, "rb") as f:
+        raw = f.read(${SNIFF_BYTES})
+    truncated = len(raw) == ${SNIFF_BYTES}
+
+    # ---- Encoding: BOM first, then strict decodes from most to least specific ----
+    BOMS = [
+        (codecs.BOM_UTF32_LE, "utf-32"), (codecs.BOM_UTF32_BE, "utf-32"),
+        (codecs.BOM_UTF8, "utf-8-sig"),
+        (codecs.BOM_UTF16_LE, "utf-16"), (codecs.BOM_UTF16_BE, "utf-16"),
+    ]
+    encoding = next((enc for bom, enc in BOMS if raw.startswith(bom)), None)
+    head_bytes = raw[:4096]
+    if encoding is None and head_bytes and head_bytes.count(b"\\x00") > len(head_bytes) // 4:
+        # UTF-16 without BOM: ASCII text leaves every other byte zero
+        encoding = "utf-16-le" if head_bytes[1:2] == b"\\x00" else "utf-16-be"
+
+    def decodes(enc):
+        try:
+            # Incremental so a character cut off at the end of the sample is fine
+            codecs.getincrementaldecoder(enc)().decode(raw, final=not truncated)
+            return True
+        except (UnicodeDecodeError, LookupError):
+            return False
+
+    if encoding is None:
+        # gb2312 only accepts the common GB range, so it rarely matches
+        # Western text; the file is read as gb18030 (its superset)
+        for candidate, read_as in (("utf-8", "utf-8"), ("gb2312", "gb18030"), ("cp1252", "cp1252"), ("gb18030", "gb18030")):
+            if decodes(candidate):
+                encoding = read_as
+                break
+        else:
+            encoding = "latin-1"
+
+    text = codecs.getincrementaldecoder(encoding)(errors="replace").decode(raw, final=not truncated)
+    lines = text.splitlines()
+    if truncated and len(lines) > 1:
+        lines = lines[:-1]  # last line may be cut off
+    lines = lines[:${SNIFF_LINES}]
+
+    # ---- Delimiter: the candidate giving the most rows with one consistent field count ----
+    candidates = [preferred] + [d for d in [",", ";", "\\t", "|"] if d != preferred]
+
+    def field_counts(sep):
+        counts = []
+        for line in lines:
+            if not line.strip():
+                counts.append(0)
+                continue
+            try:
+                counts.append(len(next(csv.reader([line], delimiter=sep))))
+            except (csv.Error, StopIteration):
+                counts.append(1)
+        return counts
+
+    best = None  # (score, sep, width, counts)
+    for sep in candidates:
+        counts = field_counts(sep)
+        non_empty = [c for c in counts if c > 0]
+        if not non_empty:
+            continue
+        width, freq = Counter(non_empty).most_common(1)[0]
+        if width < 2:
+            continue
+        score = freq / len(non_empty)
+        if best is None or score > best[0]:
+            best = (score, sep, width, counts)
+
+    if best is None:
+        sep, skiprows = preferred, 0
+    else:
+        _, sep, width, counts = best
+        # Preamble (titles, export notes) ends at the first line with the table's width
+        skiprows = next((i for i, c in enumerate(counts) if c == width), 0)
+
+    table_sample = "\\n".join(lines[skiprows:])
+    quotechar = '"'
+    has_header = True
+    try:
+        sniffed = csv.Sniffer().sniff(table_sample, delimiters=sep)
+        quotechar = sniffed.quotechar or '"'
+    except csv.Error:
+        pass
+    try:
+        has_header = csv.Sniffer().has_header(table_sample)
+    except csv.Error:
+        pass
+
+    def is_number(value):
+        try:
+            float(value.replace(",", ""))
+            return True
+        except ValueError:
+            return False
+
+    # The sniffer finds no header in all-text tables; names are rarely numbers
+    if not has_header and skiprows < len(lines):
+        first_row = next(csv.reader([lines[skiprows]], delimiter=sep, quotechar=quotechar), [])
+        has_header = not any(is_number(v) for v in first_row if v.strip())
+
+    # European exports pair ";" with decimal commas ("1,5"), which pandas
+    # would otherwise read as text. Commas before exactly three digits, or
+    # followed by a dot ("1,234.5"), are thousands groups instead
+    decimal = "."
+    thousands = None
+    rows = list(csv.reader(lines[skiprows + 1:], delimiter=sep, quotechar=quotechar))
+    values = [v.strip() for row in rows for v in row]
+    grouped = any(re.match(r"^-?\\d{1,3}(,\\d{3})+(\\.\\d+)?$", v) for v in values)
+    decimal_comma = any(re.match(r"^-?\\d+,(\\d{1,2}|\\d{4,})$", v) for v in values)
+    if sep == ";" and decimal_comma and not grouped:
+        decimal = ","
+    elif grouped:
+        thousands = ","
+
+    read_kwargs = {"sep": sep, "encoding": encoding}
+    if quotechar != '"':
+        read_kwargs["quotechar"] = quotechar
+    if decimal != ".":
+        read_kwargs["decimal"] = decimal
+    if thousands:
+        read_kwargs["thousands"] = thousands
+    if skiprows:
+        read_kwargs["skiprows"] = skiprows
+    if not has_header:
+        read_kwargs["header"] = None
+
+    try:
+        df = pd.read_csv(path, nrows=${PREVIEW_SAMPLE_ROWS}, **read_kwargs)
+    except Exception as e:
+        raise ValueError(f"Failed to parse file with {read_kwargs}: {str(e)}")
+
+    # Count data rows with the detected encoding
+    try:
+        with opener(path, "rt", encoding=encoding, errors="replace", newline="") as f:
+            total_rows = sum(1 for row in csv.reader(f, delimiter=sep, quotechar=quotechar) if row)
+        preamble_rows = sum(1 for line in lines[:skiprows] if line.strip())
+        total_rows = max(0, total_rows - preamble_rows - (1 if has_header else 0))
+    except Exception:
+        total_rows = None
+
+    dialect = {
+        "encoding": encoding,
+        "sep": sep,
+        "quotechar": quotechar,
+        "skiprows": skiprows,
+        "hasHeader": has_header,
+        "decimal": decimal,
+        "thousands": thousands,
+    }
+    return df, total_rows if total_rows is not None else df.shape[0], dialect
+
+def sample_delimited(path, preferred=","):
+    df, total, _ = read_delimited(path, preferred)
+    return df, total
+
+def sample_excel(path):
+    df = pd.read_excel(path, nrows=${PREVIEW_SAMPLE_ROWS})
+    total = df.shape[0]
+    try:
+        from openpyxl import load_workbook
+        wb = load_workbook(path, read_only=True)
+        if wb.worksheets[0].max_row is not None:
+            total = max(0, wb.worksheets[0].max_row - 1)  # subtract header
+        wb.close()
+    except Exception:
+        pass
+    return df, total
+
+JSON_SEPARATORS = re.compile(r"[\\s,]*")
+
+def sample_json(path, chunk_size=1 << 20):
+    # Record arrays are decoded item by item; other layouts (columns,
+    # index, split) only make sense as a whole document
+    decoder = json.JSONDecoder()
+    items, total = [], 0
+    with open(path, "r", encoding="utf-8-sig") as f:
+        buf = f.read(chunk_size)
+        pos = JSON_SEPARATORS.match(buf).end()
+        if not buf.startswith("[", pos):
+            df = pd.read_json(path)
+            return df.head(${PREVIEW_SAMPLE_ROWS}), df.shape[0]
+        pos += 1
+        eof = False
+        while True:
+            pos = JSON_SEPARATORS.match(buf, pos).end()
+            if buf.startswith("]", pos):
+                break
+            try:
+                item, end = decoder.raw_decode(buf, pos)
+                # A value ending at the buffer end may be cut off ("12" of "123")
+                complete = eof or end < len(buf)
+            except json.JSONDecodeError:
+                if eof:
+                    raise
+                complete = False
+            if not complete:
+                more = f.read(chunk_size)
+                eof = not more
+                buf, pos = buf[pos:] + more, 0
+                continue
+            if total < ${PREVIEW_SAMPLE_ROWS}:
+                items.append(item)
+            total += 1
+            pos = end
+    return pd.DataFrame(items), total
+
+def sample_jsonl(path):
+    df = pd.read_json(path, lines=True, nrows=${PREVIEW_SAMPLE_ROWS})
+    with open(path, "rb") as f:
+        total = sum(1 for line in f if line.strip())
+    return df, total
+
+def sample_parquet(path):
+    import pyarrow.parquet as pq
+    parquet_file = pq.ParquetFile(path)
+    batch = next(parquet_file.iter_batches(batch_size=${PREVIEW_SAMPLE_ROWS}), None)
+    table = batch if batch is not None else parquet_file.schema_arrow.empty_table()
+    return table.to_pandas(), parquet_file.metadata.num_rows
+
+def sample_feather(path):
+    import pyarrow as pa
+    import pyarrow.dataset as ds
+    try:
+        # Feather v2 is the Arrow IPC file layout: only the batches holding
+        # the sample are read, the row count comes from the batch headers
+        dataset = ds.dataset(path, format="feather")
+        return dataset.head(${PREVIEW_SAMPLE_ROWS}).to_pandas(), dataset.count_rows()
+    except pa.ArrowInvalid:
+        # Feather v1 is uncompressed, so the memory-mapped table stays on disk
+        import pyarrow.feather as feather
+        table = feather.read_table(path, memory_map=True)
+        return table.slice(0, ${PREVIEW_SAMPLE_ROWS}).to_pandas(), table.num_rows
+
+def sample_arrow_stream(path):
+    # The IPC stream layout has no footer: batches are read in order, the
+    # ones past the sample only for their row count
+    import pyarrow as pa
+    batches, total = [], 0
+    with pa.OSFile(path, "rb") as source:
+        reader = pa.ipc.open_stream(source)
+        for batch in reader:
+            if total < ${PREVIEW_SAMPLE_ROWS}:
+                batches.append(batch)
+            total += batch.num_rows
+        table = pa.Table.from_batches(batches, schema=reader.schema)
+    return table.slice(0, ${PREVIEW_SAMPLE_ROWS}).to_pandas(), total
+
+def sample_chunks(reader, count_attributes):
+    # First chunk of a chunked pandas reader; the row count comes from the
+    # reader's header or, failing that, from reading the remaining chunks
+    with reader:
+        df = next(reader, None)
+        if df is None:
+            return pd.DataFrame(), 0
+        total = next((getattr(reader, a) for a in count_attributes if isinstance(getattr(reader, a, None), int)), None)
+        if total is None:
+            total = df.shape[0] + sum(chunk.shape[0] for chunk in reader)
+    return df, total
+
+def sample_spss(path):
+    import pyreadstat
+    df, meta = pyreadstat.read_sav(path, row_limit=${PREVIEW_SAMPLE_ROWS}, apply_value_formats=True)
+    total = meta.number_rows if isinstance(meta.number_rows, int) and meta.number_rows >= 0 else df.shape[0]
+    return df, total
+
+def sample_stata(path):
+    return sample_chunks(pd.read_stata(path, chunksize=${PREVIEW_SAMPLE_ROWS}), ("nobs", "_nobs"))
+
+def sample_sas(path):
+    reader = pd.read_sas(path, format="sas7bdat", encoding="infer", chunksize=${PREVIEW_SAMPLE_ROWS})
+    return sample_chunks(reader, ("row_count",))
+`;
+
+// Sampler call per format, for `PATH` or an archive member `p`
+const SAMPLERS: Partial<Record<DataFormat, (path: string, fileName: string) => string>> = {
+  delimited: (path, fileName) =>
+    /\.tsv(\.gz)?$/i.test(fileName) ? `sample_delimited(${path}, "\\t")` : `sample_delimited(${path})`,
+  excel: (path) => `sample_excel(${path})`,
+  json: (path) => `sample_json(${path})`,
+  jsonl: (path) => `sample_jsonl(${path})`,
+  parquet: (path) => `sample_parquet(${path})`,
+  feather: (path) => `sample_feather(${path})`,
+  spss: (path) => `sample_spss(${path})`,
+  stata: (path) => `sample_stata(${path})`,
+  sas: (path) => `sample_sas(${path})`,
+};
+
+// ============================================================
+// Delimited text (csv / tsv / txt, optionally gzipped)
+// ============================================================
+
+// The sniffed read_csv arguments are returned as csvDialect so generated
+// code can reuse them
+function delimitedScript(filePath: string, fileName: string): string {
+  const defaultSep = /\.tsv(\.gz)?$/i.test(fileName) ? "\\t" : ",";
+  return `
+df, total_rows, dialect = read_delimited(${pyString(filePath)}, "${defaultSep}")
+emit_single(df, total_rows, csvDialect=dialect)
+`;
+}
+
+// ============================================================
+// Excel
+// ============================================================
+
+function excelScript(filePath: string): string {
+  return `
+try:
+    xls = pd.ExcelFile(${pyString(filePath)})
+except Exception as e:
+    raise ValueError(f"Failed to parse Excel file: {str(e)}")
+
+# Get actual row counts per sheet (xlsx only; xls falls back to the sample)
+total_rows = {}
+try:
+    from openpyxl import load_workbook
+    wb = load_workbook(${pyString(filePath)}, read_only=True)
+    for ws in wb.worksheets:
+        if ws.max_row is not None:
+            total_rows[ws.title] = max(0, ws.max_row - 1)  # subtract header
+    wb.close()
+except Exception:
+    pass
+
+sheets = []
+for name in xls.sheet_names[:${PREVIEW_MAX_TABLES}]:
+    try:
+        df = pd.read_excel(xls, sheet_name=name, nrows=${PREVIEW_SAMPLE_ROWS})
+    except Exception as e:
+        raise ValueError(f"Failed to parse sheet {name!r}: {str(e)}")
+    sheets.append(summarize(df, total_rows.get(str(name), df.shape[0]), name))
+
+emit_tables(sheets, len(xls.sheet_names))
+`;
+}
+
+// ============================================================
+// JSON / JSON Lines
+// ============================================================
+
+function jsonScript(filePath: string): string {
+  return `
+try:
+    df, total_rows = sample_json(${pyString(filePath)})
+except Exception as e:
+    raise ValueError(f"Failed to parse JSON file: {str(e)}")
+
+emit_single(df, total_rows)
+`;
+}
+
+function jsonlScript(filePath: string): string {
+  return `
+try:
+    df, total_rows = sample_jsonl(${pyString(filePath)})
+except Exception as e:
+    raise ValueError(f"Failed to parse JSON Lines file: {str(e)}")
+
+emit_single(df, total_rows)
+`;
+}
+
+// ============================================================
+// Columnar (Parquet / Feather / Arrow)
+// ============================================================
+
+function parquetScript(filePath: string): string {
+  return `
+# Row count from the metadata, rows from the first batch only
+try:
+    df, total_rows = sample_parquet(${pyString(filePath)})
+except Exception as e:
+    raise ValueError(f"Failed to parse Parquet file: {str(e)}")
+
+emit_single(df, total_rows)
+`;
+}
+
+function featherScript(filePath: string): string {
+  return `
+extra = {}
+try:
+    df, total_rows = sample_feather(${pyString(filePath)})
+except Exception:
+    # .arrow files may use the IPC stream layout, which read_feather cannot open
+    try:
+        df, total_rows = sample_arrow_stream(${pyString(filePath)})
+    except Exception as e:
+        raise ValueError(f"Failed to parse Arrow file: {str(e)}")
+    extra["readCall"] = ${pyString(`pa.ipc.open_stream(pa.OSFile(${pyString(filePath)}, "rb")).read_all().to_pandas()  # import pyarrow as pa`)}
+
+emit_single(df, total_rows, **extra)
+`;
+}
+
+// ============================================================
+// Statistical packages (SPSS / Stata / SAS)
+// ============================================================
+
+// SPSS and Stata files carry variable labels, which usually explain
+// abbreviated column names better than the names themselves
+const LABEL_READERS: Partial<Record<DataFormat, (filePath: string) => string>> = {
+  spss: (filePath) => `
+import pyreadstat
+_, meta = pyreadstat.read_sav(${pyString(filePath)}, metadataonly=True)
+labels = meta.column_names_to_labels`,
+  stata: (filePath) => `
+from pandas.io.stata import StataReader
+with StataReader(${pyString(filePath)}) as reader:
+    labels = reader.variable_labels()`,
+};
+
+function statisticalScript(format: "spss" | "stata" | "sas", filePath: string, fileName: string): string {
+  const labelReader = LABEL_READERS[format];
+  return `
+try:
+    df, total_rows = ${SAMPLERS[format]!(pyString(filePath), fileName)}
+except ImportError as e:
+    raise ValueError(f"Missing reader dependency in the sandbox: {str(e)}")
+except Exception as e:
+    raise ValueError(f"Failed to parse file: {str(e)}")
+
+labels = {}
+${labelReader ? `try:${labelReader(filePath).replace(/\n/g, "\n    ")}
+except Exception:
+    labels = {}` : ""}
+labels = {str(k): str(v) for k, v in (labels or {}).items() if v}
+
+emit_single(df, total_rows, **({"columnLabels": labels} if labels else {}))
+`;
+}
+
+// ============================================================
+// SQLite
+// ============================================================
+
+function sqliteScript(filePath: string): string {
+  return `
+import sqlite3
+
+try:
+    con = sqlite3.connect(${pyString(filePath)})
+    names = [row[0] for row in con.execute(
+        "SELECT name FROM sqlite_master WHERE type IN ('table', 'view') "
+        "AND name NOT LIKE 'sqlite_%' ORDER BY type, name"
+    )]
+except sqlite3.DatabaseError as e:
+    raise ValueError(f"Failed to open SQLite database: {str(e)}")
+
+if not names:
+    raise ValueError("Database contains no tables")
+
+tables = []
+for name in names[:${PREVIEW_MAX_TABLES}]:
+    quoted = '"' + name.replace('"', '""') + '"'
+    total_rows = con.execute(f"SELECT COUNT(*) FROM {quoted}").fetchone()[0]
+    df = pd.read_sql_query(f"SELECT * FROM {quoted} LIMIT ${PREVIEW_SAMPLE_ROWS}", con)
+    tables.append(summarize(df, total_rows, name))
+con.close()
+
+emit_tables(tables, len(names))
+`;
+}
+
+// ============================================================
+// ZIP archives
+// ============================================================
+
+/** `(suffix, sampler)` pairs for archive members, longest suffix first. */
+function memberReaders(): string {
+  return [...SUPPORTED_DATA_EXTENSIONS]
+    .sort((a, b) => b.length - a.length)
+    .map((ext) => ({ ext, sampler: SAMPLERS[detectDataFormat(`member.${ext}`)!] }))
+    // Databases and nested archives have no single-table reading
+    .filter((reader) => reader.sampler !== undefined)
+    .map(({ ext, sampler }) => `    (".${ext}", lambda p: ${sampler!("p", `member.${ext}`)}),`)
+    .join("\n");
+}
+
+// Data members are extracted next to the archive, where the agent is told
+// to extract them too, and previewed like standalone files
+function zipScript(filePath: string, fileName: string): string {
+  return `
+import os
+import zipfile
+
+EXTRACT_DIR = ${JSON.stringify(archiveExtractDir(fileName))}
+READERS = [
+${memberReaders()}
+]
+
+def reader_for(name):
+    lower = name.lower()
+    return next((read for suffix, read in READERS if lower.endswith(suffix)), None)
+
+try:
+    archive = zipfile.ZipFile(${pyString(filePath)})
+except zipfile.BadZipFile as e:
+    raise ValueError(f"Failed to open ZIP archive: {str(e)}")
+
+with archive:
+    members = [
+        m for m in archive.namelist()
+        if not m.endswith("/") and not m.startswith("__MACOSX/")
+        and not os.path.basename(m).startswith(".") and reader_for(m)
+    ]
+    if not members:
+        raise ValueError("Archive contains no supported data files")
+    for m in members[:${PREVIEW_MAX_TABLES}]:
+        archive.extract(m, EXTRACT_DIR)
+
+tables = []
+for m in members[:${PREVIEW_MAX_TABLES}]:
+    try:
+        df, total_rows = reader_for(m)(os.path.join(EXTRACT_DIR, m))
+        tables.append(summarize(df, total_rows, m))
+    except Exception as e:
+        tables.append({**summarize(pd.DataFrame(), 0, m), "error": str(e)})
+
+emit_tables(tables, len(members))
+`;
+}
+
+/** The pandas preview script for a file already uploaded to `filePath`. */
+export function buildPreviewScript(format: DataFormat, filePath: string, fileName: string): string {
+  const body = (() => {
+    switch (format) {
+      case "delimited":
+        return delimitedScript(filePath, fileName);
+      case "excel":
+        return excelScript(filePath);
+      case "json":
+        return jsonScript(filePath);
+      case "jsonl":
+        return jsonlScript(filePath);
+      case "parquet":
+        return parquetScript(filePath);
+      case "feather":
+        return featherScript(filePath);
+      case "spss":
+      case "stata":
+      case "sas":
+        return statisticalScript(format, filePath, fileName);
+      case "sqlite":
+        return sqliteScript(filePath);
+      case "zip":
+        return zipScript(filePath, fileName);
+    }
+  })();
+  return SUMMARY_HELPERS + SAMPLE_READERS + body;
+}
@@ -0,0 +1,56 @@
+import { analyzeCode } from "@/app/lib/sandbox/code-safety";
+
+/**
+ * Automatic Error Repair
+ *
+ * With auto-repair on, a failed `execute_python` run opens a repair chain:
+ * the model gets the structured traceback and its next `execute_python`
+ * call runs inline as a fix, without waiting for approval. The chain ends
+ * on success, after `MAX_REPAIR_ATTEMPTS` fixes, or when the user sends a
+ * new message. Fixes with any analyzer finding still wait for the user.
+ */
+
+export const MAX_REPAIR_ATTEMPTS = 3;
+
+export interface RepairState {
+  /** The failed tool call the chain started from */
+  rootToolCallId: string;
+  /** Fixes already tried */
+  attempts: number;
+}
+
+/** Whether this turn's code is an auto-run fix for the open repair chain. */
+export function canAutoRepair(repair: RepairState | null | undefined, codes: string[]): boolean {
+  return (
+    !!repair &&
+    repair.attempts < MAX_REPAIR_ATTEMPTS &&
+    codes.length === 1 &&
+    analyzeCode(codes[0]).level === "none"
+  );
+}
+
+/**
+ * Repair state after a hitl step: open a chain on a fresh failure, count a
+ * failed fix, close it on success or once the attempts are used up.
+ */
+export function nextRepairState(
+  repair: RepairState | null,
+  isRepairRun: boolean,
+  failedToolCallId: string | null
+): RepairState | null {
+  if (!failedToolCallId) return null;
+  if (!isRepairRun || !repair) return { rootToolCallId: failedToolCallId, attempts: 0 };
+  const attempts = repair.attempts + 1;
+  return attempts < MAX_REPAIR_ATTEMPTS ? { ...repair, attempts } : null;
+}
+
+/** Instruction appended to the ToolMessage of a failed run. */
+export function repairInstruction(next: RepairState | null, isRepairRun: boolean): string {
+  if (next) {
+    return `自动修复已开启（第 ${next.attempts + 1}/${MAX_REPAIR_ATTEMPTS} 次尝试）：请根据上面的异常类型和出错行找出原因，直接调用 execute_python 提交修正后的完整代码，无需先询问用户。`;
+  }
+  if (isRepairRun) {
+    return `自动修复已尝试 ${MAX_REPAIR_ATTEMPTS} 次仍未成功。请不要继续重试，向用户说明错误原因和可能的解决办法。`;
+  }
+  return "";
+}
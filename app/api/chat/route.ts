@@ -1,8 +1,29 @@
-﻿import { AIMessage } from "@langchain/core/messages";
-import { createGraph, buildLangChainMessages, type FileInfo, type Plan } from "./agent";
+﻿import { AIMessage, BaseMessage, ToolMessage } from "@langchain/core/messages";
+import { Command } from "@langchain/langgraph";
+import {
+  createGraph,
+  buildLangChainMessages,
+  buildSystemMessage,
+  closePendingToolCalls,
+  deleteThread,
+  CODE_EXECUTED_EVENT,
+  type AnalysisOption,
+  type CodeExecutedEvent,
+  type FileInfo,
+  type HitlResume,
+  type Plan,
+  type UserInputResume,
+  INFORMATION_ANSWER_TYPES,
+} from "./agent";
+import { canAutoRun, isApprovalPolicy } from "./approval";
+import { canAutoRepair, type RepairState } from "./repair";
+import { isValidSessionId } from "@/app/lib/session-store";
+import { validateExecutionFiles, type ExecutionFile } from "@/app/lib/sandbox/execute";
+import { analyzeCode } from "@/app/lib/sandbox/code-safety";
 
 export const runtime = "nodejs";
-export const maxDuration = 60;
+// Auto-approved code runs inside this request
+export const maxDuration = 300;
 
 // Simple rate limiting: track requests per IP
 const requestCounts = new Map<string, { count: number; resetTime: number }>();
@@ -26,13 +47,64 @@ function checkRateLimit(ip: string): boolean {
   return true;
 }
 
-function validateInput(messages: unknown, files: unknown, toolResult: unknown): string | null {
+const MAX_ANSWER_LENGTH = 10000;
+
+/** Which interrupted node a resume value is meant for. */
+function resumeTarget(resume: object): "hitl" | "ask_user" {
+  return "decisions" in resume || "answers" in resume ? "ask_user" : "hitl";
+}
+
+function validateResume(resume: unknown): string | null {
+  const r = resume as Record<string, unknown> | null;
+  if (typeof r !== "object" || !r) {
+    return "resume must be an object with results, decisions or answers";
+  }
+  if (resumeTarget(r) === "hitl") {
+    return typeof r.results === "object" && r.results ? null : "resume must be an object with results, decisions or answers";
+  }
+
+  if (r.decisions !== undefined) {
+    if (typeof r.decisions !== "object" || !r.decisions) return "decisions must be an object";
+    for (const value of Object.values(r.decisions)) {
+      const d = value as Record<string, unknown> | null;
+      if (!d || (d.decision !== "approve" && d.decision !== "deny")) {
+        return "Each decision must be approve or deny";
+      }
+      if (d.note !== undefined && (typeof d.note !== "string" || d.note.length > 2000)) {
+        return "Decision note must be a string (max 2000 chars)";
+      }
+    }
+  }
+  if (r.answers !== undefined) {
+    if (typeof r.answers !== "object" || !r.answers) return "answers must be an object";
+    for (const value of Object.values(r.answers)) {
+      const a = value as Record<string, unknown> | null;
+      if (!a || !(INFORMATION_ANSWER_TYPES as readonly unknown[]).includes(a.answerType) || a.value === undefined) {
+        return `Each answer needs an answerType (${INFORMATION_ANSWER_TYPES.join(", ")}) and a value`;
+      }
+      if (JSON.stringify(a).length > MAX_ANSWER_LENGTH) {
+        return `Answer too long (max ${MAX_ANSWER_LENGTH} chars)`;
+      }
+    }
+  }
+  return null;
+}
+
+function validateInput(threadId: unknown, messages: unknown, files: unknown, resume: unknown): string | null {
+  if (!isValidSessionId(threadId)) {
+    return "A valid threadId is required";
+  }
+
+  // Resuming an interrupted thread needs no new messages
+  if (resume !== undefined) {
+    return validateResume(resume);
+  }
+
   if (!Array.isArray(messages)) {
     return "Messages must be an array";
   }
 
-  // Allow empty messages if toolResult is provided (follow-up after code execution)
-  if (messages.length === 0 && !toolResult) {
+  if (messages.length === 0) {
     return "At least one message is required";
   }
 
@@ -86,9 +158,22 @@ export async function POST(req: Request) {
     );
   }
 
-  const { messages, files, toolResult, sessionFiles } = body as Record<string, unknown>;
-
-  const validationError = validateInput(messages, files, toolResult);
+  const {
+    threadId,
+    messages,
+    files,
+    sessionFiles,
+    resume,
+    approvalPolicy,
+    executionFiles,
+    autoRepair,
+  } = body as Record<string, unknown>;
+
+  const validationError =
+    validateInput(threadId, messages, files, resume) ??
+    (approvalPolicy !== undefined && !isApprovalPolicy(approvalPolicy)
+      ? "approvalPolicy must be always_ask, auto_read_only or auto_all"
+      : validateExecutionFiles(executionFiles));
   if (validationError) {
     return new Response(
       `data: ${JSON.stringify({
@@ -99,23 +184,75 @@ export async function POST(req: Request) {
     );
   }
 
-  const graph = createGraph();
-  const langchainMessages = buildLangChainMessages(
-    messages as Array<{ role: string; content: string }>,
-    files as FileInfo[] | undefined,
-    toolResult as Record<string, unknown> | undefined,
-    sessionFiles as FileInfo[] | undefined
-  );
+  const policy = isApprovalPolicy(approvalPolicy) ? approvalPolicy : "always_ask";
+  const graph = createGraph({
+    approvalPolicy: policy,
+    executionFiles: executionFiles as ExecutionFile[] | undefined,
+    autoRepair: autoRepair === true,
+  });
+  const config = { configurable: { thread_id: threadId as string } };
+
+  // Plan state lives in the thread checkpoint, not in the request body
+  const snapshot = await graph.getState(config);
+  const threadMessages: BaseMessage[] = snapshot.values?.messages ?? [];
+  // Code waits in the hitl node, confirmations and questions in ask_user
+  const awaiting = snapshot.next.includes("ask_user") ? "ask_user" : snapshot.next.includes("hitl") ? "hitl" : null;
+  const isInterrupted = awaiting !== null;
+
+  if (resume !== undefined) {
+    const resumes = resumeTarget(resume as object);
+    if (resumes !== awaiting) {
+      return new Response(
+        `data: ${JSON.stringify({
+          type: "error",
+          content:
+            threadMessages.length === 0
+              ? "Unknown conversation thread (expired or server restarted); resend the history to start it again."
+              : resumes === "ask_user"
+                ? "No pending confirmation or question to resume for this conversation."
+                : "No pending code execution to resume for this conversation.",
+        })}\n\n`,
+        { status: 409, headers: { "Content-Type": "text/event-stream" } }
+      );
+    }
+  }
 
-  // Extract plan info from request if continuing after HITL
-  const currentPlan = (body as Record<string, unknown>).plan as Plan | undefined;
-  const currentStepIndex = (body as Record<string, unknown>).currentStepIndex as number | undefined;
+  let input: Parameters<typeof graph.streamEvents>[0];
+  if (resume !== undefined) {
+    // Refresh the system prompt so files generated by the code are listed
+    input = new Command({
+      resume: resume as HitlResume | UserInputResume,
+      update: { messages: [buildSystemMessage(undefined, sessionFiles as FileInfo[] | undefined)] },
+    });
+  } else {
+    const langchainMessages = buildLangChainMessages(
+      messages as Array<{ role: string; content: string }>,
+      files as FileInfo[] | undefined,
+      sessionFiles as FileInfo[] | undefined
+    );
+    if (threadMessages.length === 0) {
+      // Unknown thread (new conversation, restored session or server
+      // restart) — seed it with the client's history once
+      input = { messages: langchainMessages };
+    } else {
+      // Existing thread: refresh the system prompt and append the new user
+      // message, closing any code execution the user skipped
+      const [systemMessage] = langchainMessages;
+      const userMessage = langchainMessages[langchainMessages.length - 1];
+      const pending = isInterrupted
+        ? closePendingToolCalls(threadMessages[threadMessages.length - 1] as AIMessage)
+        : [];
+      // A new user message ends any open repair chain
+      input = { messages: [systemMessage, ...pending, userMessage], repair: null };
+    }
+  }
 
   const encoder = new TextEncoder();
 
   // Track plan state during streaming
-  let activePlan: Plan | null = currentPlan || null;
-  let activeStepIndex: number = currentStepIndex ?? 0;
+  let activePlan: Plan | null = snapshot.values?.plan ?? null;
+  let activeStepIndex: number = snapshot.values?.currentStepIndex ?? 0;
+  let activeRepair: RepairState | null = resume !== undefined ? snapshot.values?.repair ?? null : null;
 
   // Track accumulated content to detect and handle non-delta streaming
   let accumulatedContent = "";
@@ -123,29 +260,11 @@ export async function POST(req: Request) {
   const stream = new ReadableStream({
     async start(controller) {
       try {
-        // If continuing after HITL execution with a plan, mark current step as completed
-        if (toolResult && activePlan && activeStepIndex < activePlan.steps.length) {
-          const hasError = !!(toolResult as Record<string, unknown>).error;
-          const status = hasError ? "failed" : "completed";
-
-          controller.enqueue(
-            encoder.encode(
-              `data: ${JSON.stringify({
-                type: "plan_step_update",
-                stepIndex: activeStepIndex,
-                status,
-              })}\n\n`
-            )
-          );
-
-          // Move to next step
-          activeStepIndex++;
-        }
-
-        const eventStream = graph.streamEvents(
-          { messages: langchainMessages, plan: activePlan, currentStepIndex: activeStepIndex },
-          { version: "v2", recursionLimit: 25 }
-        );
+        const eventStream = graph.streamEvents(input, {
+          ...config,
+          version: "v2",
+          recursionLimit: 25,
+        });
 
         for await (const event of eventStream) {
           // -- LLM starting a new generation (reset accumulated content) --
@@ -192,8 +311,33 @@ export async function POST(req: Request) {
               output?.message ?? output;
 
             if (aiMsg?.tool_calls?.length) {
+              // Same decision the hitl node makes: run inline or wait for the user
+              const codes = aiMsg.tool_calls
+                .filter((tc) => tc.name === "execute_python")
+                .map((tc) => String((tc.args as { code?: unknown }).code ?? ""));
+              const repair =
+                autoRepair === true && activeRepair && canAutoRepair(activeRepair, codes)
+                  ? { rootToolCallId: activeRepair.rootToolCallId, attempt: activeRepair.attempts + 1 }
+                  : undefined;
+              const autoApproved = !!repair || canAutoRun(policy, codes);
+              // The ask_user node answers code of the same message as not run
+              const awaitingUser = aiMsg.tool_calls.some(
+                (tc) => tc.name === "confirm_action" || tc.name === "ask_for_information"
+              );
               for (const tc of aiMsg.tool_calls) {
-                if (tc.name === "execute_python") {
+                if (tc.name === "confirm_action" || tc.name === "ask_for_information") {
+                  controller.enqueue(
+                    encoder.encode(
+                      `data: ${JSON.stringify({
+                        type: "pending_tool_call",
+                        toolCallId: tc.id,
+                        tool: tc.name,
+                        args: tc.args,
+                        autoApproved: false,
+                      })}\n\n`
+                    )
+                  );
+                } else if (tc.name === "execute_python" && !awaitingUser) {
                   // If we have a plan, mark current step as in_progress
                   if (activePlan && activeStepIndex < activePlan.steps.length) {
                     controller.enqueue(
@@ -211,13 +355,12 @@ export async function POST(req: Request) {
                     encoder.encode(
                       `data: ${JSON.stringify({
                         type: "pending_tool_call",
+                        toolCallId: tc.id,
                         tool: tc.name,
                         args: tc.args,
-                        // Include plan context for HITL continuation
-                        planContext: activePlan ? {
-                          plan: activePlan,
-                          currentStepIndex: activeStepIndex,
-                        } : undefined,
+                        autoApproved,
+                        repair,
+                        riskReport: analyzeCode(String((tc.args as { code?: unknown }).code ?? "")),
                       })}\n\n`
                     )
                   );
@@ -228,6 +371,75 @@ export async function POST(req: Request) {
             }
           }
 
+          // -- Auto-approved code finished: report it like any other tool call --
+          else if (event.event === "on_custom_event" && event.name === CODE_EXECUTED_EVENT) {
+            const executed = event.data as CodeExecutedEvent;
+            controller.enqueue(
+              encoder.encode(
+                `data: ${JSON.stringify({
+                  type: "tool_call",
+                  toolCallId: executed.toolCallId,
+                  tool: "execute_python",
+                  args: { code: executed.code },
+                  result: executed.result,
+                  autoApproved: true,
+                  repair: executed.repair,
+                })}\n\n`
+              )
+            );
+          }
+
+          // -- Plan / HITL / ask-user nodes finished: report plan revisions and settled steps --
+          else if (
+            event.event === "on_chain_end" &&
+            (event.name === "plan_tools" || event.name === "hitl" || event.name === "ask_user")
+          ) {
+            const output = event.data?.output as
+              | {
+                  messages?: BaseMessage[];
+                  pendingStepUpdates?: Array<{ stepIndex: number; status: string }>;
+                  plan?: Plan | null;
+                  currentStepIndex?: number;
+                  repair?: RepairState | null;
+                }
+              | undefined;
+            if (output?.plan) activePlan = output.plan;
+            if (output && "repair" in output) activeRepair = output.repair ?? null;
+            if (typeof output?.currentStepIndex === "number") activeStepIndex = output.currentStepIndex;
+
+            for (const msg of output?.messages ?? []) {
+              if (!ToolMessage.isInstance(msg) || msg.name !== "update_plan") continue;
+              let parsed: { type?: string; plan?: Plan; change?: unknown };
+              try {
+                parsed = JSON.parse(String(msg.content));
+              } catch {
+                continue;
+              }
+              if (parsed.type !== "plan_updated" || !parsed.plan) continue;
+              controller.enqueue(
+                encoder.encode(
+                  `data: ${JSON.stringify({
+                    type: "plan_updated",
+                    plan: parsed.plan,
+                    change: parsed.change,
+                  })}\n\n`
+                )
+              );
+            }
+
+            for (const update of output?.pendingStepUpdates ?? []) {
+              controller.enqueue(
+                encoder.encode(
+                  `data: ${JSON.stringify({
+                    type: "plan_step_update",
+                    stepIndex: update.stepIndex,
+                    status: update.status,
+                  })}\n\n`
+                )
+              );
+            }
+          }
+
           // -- Safe tool finished execution --
           else if (event.event === "on_tool_end") {
             const toolName = event.name;
@@ -268,6 +480,19 @@ export async function POST(req: Request) {
                   })}\n\n`
                 )
               );
+            } else if (toolName === "present_analysis_options" && result && typeof result === "object" && "type" in result && (result as { type: string }).type === "analysis_options") {
+              // Interactive options card — the client renders a multi-select
+              const optionsResult = result as { type: string; summary?: string; options: AnalysisOption[] };
+              controller.enqueue(
+                encoder.encode(
+                  `data: ${JSON.stringify({
+                    type: "analysis_options",
+                    args: toolInput ?? {},
+                    summary: optionsResult.summary,
+                    options: optionsResult.options,
+                  })}\n\n`
+                )
+              );
             } else {
               controller.enqueue(
                 encoder.encode(
@@ -317,3 +542,21 @@ export async function POST(req: Request) {
     },
   });
 }
+
+/**
+ * Drop a conversation's checkpointed thread (e.g. "new analysis").
+ * Body: { threadId: string }
+ */
+export async function DELETE(req: Request) {
+  let threadId: unknown;
+  try {
+    ({ threadId } = await req.json());
+  } catch {
+    return Response.json({ error: "Invalid JSON in request body" }, { status: 400 });
+  }
+  if (!isValidSessionId(threadId)) {
+    return Response.json({ error: "A valid threadId is required" }, { status: 400 });
+  }
+  await deleteThread(threadId);
+  return Response.json({ success: true });
+}
@@ -0,0 +1,30 @@
+import { UPLOAD_CHUNK_SIZE, writeChunk } from "@/app/lib/file-store";
+import { uploadErrorResponse } from "../../../errors";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+interface RouteContext {
+  params: Promise<{ id: string; index: string }>;
+}
+
+/** Store one chunk. Body: the raw chunk bytes (`application/octet-stream`). */
+export async function PUT(req: Request, { params }: RouteContext) {
+  const { id, index } = await params;
+  if (!/^\d+$/.test(index)) {
+    return Response.json({ error: "Invalid chunk index" }, { status: 400 });
+  }
+
+  const declared = Number(req.headers.get("content-length") ?? 0);
+  if (declared > UPLOAD_CHUNK_SIZE) {
+    return Response.json({ error: "Chunk too large" }, { status: 413 });
+  }
+
+  try {
+    const data = Buffer.from(await req.arrayBuffer());
+    const upload = await writeChunk(id, Number(index), data);
+    return Response.json({ received: upload.received.length, chunkCount: upload.chunkCount });
+  } catch (error) {
+    return uploadErrorResponse(error);
+  }
+}
@@ -0,0 +1,20 @@
+import { completeUpload } from "@/app/lib/file-store";
+import { uploadErrorResponse } from "../../errors";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** Assemble the uploaded chunks and return the stored file's handle. */
+export async function POST(_req: Request, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const file = await completeUpload(id);
+    return Response.json({ file }, { status: 201 });
+  } catch (error) {
+    return uploadErrorResponse(error);
+  }
+}
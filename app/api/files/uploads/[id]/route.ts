@@ -0,0 +1,27 @@
+import { abortUpload, getUploadStatus } from "@/app/lib/file-store";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** Chunks received so far, so an interrupted upload can resume. */
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const upload = await getUploadStatus(id);
+  if (!upload) {
+    return Response.json({ error: "Upload not found" }, { status: 404 });
+  }
+  return Response.json({ upload });
+}
+
+/** Abandon an upload and drop its chunks. */
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  const { id } = await params;
+  if (!(await getUploadStatus(id))) {
+    return Response.json({ error: "Upload not found" }, { status: 404 });
+  }
+  await abortUpload(id);
+  return Response.json({ success: true });
+}
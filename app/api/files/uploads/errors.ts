@@ -0,0 +1,9 @@
+import { UploadError } from "@/app/lib/file-store";
+
+/** Answer a rejected upload request; anything else is rethrown. */
+export function uploadErrorResponse(error: unknown): Response {
+  if (error instanceof UploadError) {
+    return Response.json({ error: error.message }, { status: error.status });
+  }
+  throw error;
+}
@@ -0,0 +1,31 @@
+import { createUpload } from "@/app/lib/file-store";
+import { uploadErrorResponse } from "./errors";
+
+export const runtime = "nodejs";
+
+/**
+ * Start a chunked upload. The response names the chunk size and count; the
+ * client PUTs each chunk to `/api/files/uploads/<uploadId>/chunks/<index>`
+ * and then POSTs `/api/files/uploads/<uploadId>/complete` for the handle.
+ * Body: `{ sessionId: string (the conversation id), name: string, size: number }`
+ */
+export async function POST(req: Request) {
+  let body: { sessionId?: unknown; name?: unknown; size?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON in request body" }, { status: 400 });
+  }
+
+  const { sessionId, name, size } = body;
+  if (typeof sessionId !== "string" || typeof name !== "string" || typeof size !== "number") {
+    return Response.json({ error: "sessionId, name and size are required" }, { status: 400 });
+  }
+
+  try {
+    const upload = await createUpload(sessionId, name, size);
+    return Response.json({ upload }, { status: 201 });
+  } catch (error) {
+    return uploadErrorResponse(error);
+  }
+}
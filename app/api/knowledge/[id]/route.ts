@@ -0,0 +1,22 @@
+import { deleteDocument } from "@/app/lib/knowledge";
+import { isValidSessionId } from "@/app/lib/session-store";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** Remove a document and its chunks from the knowledge index. */
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidSessionId(id)) {
+    return Response.json({ error: "Invalid document id" }, { status: 400 });
+  }
+
+  const deleted = await deleteDocument(id);
+  if (!deleted) {
+    return Response.json({ error: "Document not found" }, { status: 404 });
+  }
+  return Response.json({ success: true });
+}
@@ -0,0 +1,58 @@
+import {
+  addDocument,
+  detectKnowledgeFormat,
+  listDocuments,
+  SUPPORTED_KNOWLEDGE_EXTENSIONS,
+} from "@/app/lib/knowledge";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+const MAX_DOCUMENT_SIZE = 20 * 1024 * 1024; // 20MB
+
+/** List ingested knowledge documents. */
+export async function GET() {
+  return Response.json({ documents: await listDocuments() });
+}
+
+/**
+ * Ingest a reference document (Markdown, text, PDF or CSV codebook).
+ * Body: `{ file: { name: string, content: string (base64) } }`
+ */
+export async function POST(req: Request) {
+  let file: { name?: unknown; content?: unknown } | undefined;
+  try {
+    ({ file } = await req.json());
+  } catch {
+    return Response.json({ error: "Invalid JSON in request body" }, { status: 400 });
+  }
+
+  if (!file || typeof file.name !== "string" || typeof file.content !== "string") {
+    return Response.json({ error: "No file provided" }, { status: 400 });
+  }
+  if (file.name.length > 255) {
+    return Response.json({ error: "Invalid file name" }, { status: 400 });
+  }
+  if (!detectKnowledgeFormat(file.name)) {
+    return Response.json(
+      { error: `Unsupported document format. Supported: ${SUPPORTED_KNOWLEDGE_EXTENSIONS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  const buffer = Buffer.from(file.content, "base64");
+  if (buffer.length > MAX_DOCUMENT_SIZE) {
+    return Response.json(
+      { error: `File too large (max ${MAX_DOCUMENT_SIZE / 1024 / 1024}MB)` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const document = await addDocument(file.name, buffer);
+    return Response.json({ document }, { status: 201 });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Ingestion failed";
+    return Response.json({ error: message }, { status: 422 });
+  }
+}
@@ -0,0 +1,97 @@
+import {
+  deleteSession,
+  getSession,
+  isValidSessionId,
+  updateSession,
+} from "@/app/lib/session-store";
+import { deleteUpload, isValidFileHandle } from "@/app/lib/file-store";
+
+export const runtime = "nodejs";
+
+const MAX_SESSION_BYTES = 50 * 1024 * 1024; // 50MB serialized
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** Load a session with its full message history and files. */
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidSessionId(id)) {
+    return Response.json({ error: "Invalid session id" }, { status: 400 });
+  }
+
+  const session = await getSession(id);
+  if (!session) {
+    return Response.json({ error: "Session not found" }, { status: 404 });
+  }
+  return Response.json({ session });
+}
+
+/**
+ * Rename and/or save a session.
+ * Body: `{ title?: string, messages?: unknown[], sessionFiles?: unknown[], confirmations?: unknown[] }`
+ */
+export async function PATCH(req: Request, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidSessionId(id)) {
+    return Response.json({ error: "Invalid session id" }, { status: 400 });
+  }
+
+  const raw = await req.text();
+  if (raw.length > MAX_SESSION_BYTES) {
+    return Response.json(
+      { error: `Session too large (max ${MAX_SESSION_BYTES / 1024 / 1024}MB)` },
+      { status: 413 }
+    );
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    return Response.json({ error: "Invalid JSON in request body" }, { status: 400 });
+  }
+
+  const { title, messages, sessionFiles, confirmations } = body;
+  if (title !== undefined && typeof title !== "string") {
+    return Response.json({ error: "Title must be a string" }, { status: 400 });
+  }
+  if (messages !== undefined && !Array.isArray(messages)) {
+    return Response.json({ error: "Messages must be an array" }, { status: 400 });
+  }
+  if (sessionFiles !== undefined && !Array.isArray(sessionFiles)) {
+    return Response.json({ error: "Session files must be an array" }, { status: 400 });
+  }
+  if (confirmations !== undefined && !Array.isArray(confirmations)) {
+    return Response.json({ error: "Confirmations must be an array" }, { status: 400 });
+  }
+
+  const session = await updateSession(id, { title, messages, sessionFiles, confirmations });
+  if (!session) {
+    return Response.json({ error: "Session not found" }, { status: 404 });
+  }
+  return Response.json({
+    session: { id: session.id, title: session.title, updatedAt: session.updatedAt },
+  });
+}
+
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidSessionId(id)) {
+    return Response.json({ error: "Invalid session id" }, { status: 400 });
+  }
+
+  const session = await getSession(id);
+  const deleted = await deleteSession(id);
+  if (!deleted) {
+    return Response.json({ error: "Session not found" }, { status: 404 });
+  }
+
+  // Uploaded files are only reachable through the session that lists them
+  const handles = (session?.sessionFiles ?? [])
+    .map((f) => (f as { handle?: unknown } | null)?.handle)
+    .filter(isValidFileHandle);
+  await Promise.all(handles.map((handle) => deleteUpload(handle).catch(() => {})));
+  return Response.json({ success: true });
+}
@@ -0,0 +1,22 @@
+import { createSession, listSessions } from "@/app/lib/session-store";
+
+export const runtime = "nodejs";
+
+/** List saved analysis sessions, most recent first. */
+export async function GET() {
+  const sessions = await listSessions();
+  return Response.json({ sessions });
+}
+
+/** Create an empty session. Body: `{ title?: string }` */
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => ({}));
+  const title = (body as Record<string, unknown>)?.title;
+
+  if (title !== undefined && typeof title !== "string") {
+    return Response.json({ error: "Title must be a string" }, { status: 400 });
+  }
+
+  const session = await createSession(title);
+  return Response.json({ session }, { status: 201 });
+}
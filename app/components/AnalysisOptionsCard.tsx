@@ -0,0 +1,115 @@
+"use client";
+
+import { useState } from "react";
+import type { AnalysisOption, ToolCall } from "../hooks/useChat";
+
+interface AnalysisOptionsCardProps {
+  toolCall: ToolCall;
+  onSubmit?: (selected: string[]) => void;
+}
+
+export function AnalysisOptionsCard({ toolCall, onSubmit }: AnalysisOptionsCardProps) {
+  const { summary, options = [], selected: submittedSelection } = (toolCall.result || {}) as {
+    summary?: string;
+    options?: AnalysisOption[];
+    /** Set once the user has submitted, and saved with the session */
+    selected?: string[];
+  };
+
+  // Pre-select the most relevant option so a single click gets started
+  const [selected, setSelected] = useState<Set<string>>(
+    () => new Set(submittedSelection ?? (options.length > 0 ? [options[0].name] : []))
+  );
+  const [submitting, setSubmitting] = useState(false);
+  const submitted = submitting || submittedSelection !== undefined;
+
+  const toggle = (name: string) => {
+    if (submitted) return;
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+  };
+
+  const handleSubmit = () => {
+    if (selected.size === 0 || submitted) return;
+    setSubmitting(true);
+    // Keep the card's priority order rather than click order
+    onSubmit?.(options.filter((o) => selected.has(o.name)).map((o) => o.name));
+  };
+
+  return (
+    <div className="my-3 rounded-xl border border-indigo-200/75 bg-indigo-50/50 p-4 shadow-sm dark:border-indigo-800 dark:bg-indigo-950/20">
+      <div className="mb-2 flex items-center gap-2">
+        <span className="flex h-6 w-6 items-center justify-center rounded-full bg-indigo-100 text-sm dark:bg-indigo-900/50">
+          🧭
+        </span>
+        <span className="font-semibold text-indigo-900 dark:text-indigo-200">
+          选择分析方向
+        </span>
+        <span className="text-xs text-indigo-500/80">可多选</span>
+      </div>
+
+      {summary && (
+        <div className="mb-3 text-xs text-indigo-700/70 dark:text-indigo-300/70">
+          {summary}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {options.map((option) => {
+          const checked = selected.has(option.name);
+          return (
+            <label
+              key={option.name}
+              className={`flex items-start gap-3 rounded-lg border px-3 py-2 text-sm transition-all ${
+                submitted ? "cursor-default" : "cursor-pointer hover:shadow-sm"
+              } ${
+                checked
+                  ? "border-indigo-300 bg-white dark:border-indigo-700 dark:bg-indigo-950/40"
+                  : "border-transparent bg-white/60 dark:bg-indigo-950/20"
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={checked}
+                disabled={submitted}
+                onChange={() => toggle(option.name)}
+                className="mt-0.5 h-4 w-4 accent-indigo-600"
+              />
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-indigo-900 dark:text-indigo-100">
+                    {option.name}
+                  </span>
+                  <span className="rounded-md bg-indigo-100 px-1.5 py-0.5 text-[10px] font-medium text-indigo-600 dark:bg-indigo-900/50 dark:text-indigo-300">
+                    优先级 {option.priority}
+                  </span>
+                </div>
+                <div className="mt-0.5 text-xs text-zinc-500 dark:text-zinc-400">
+                  {option.reason}
+                </div>
+              </div>
+            </label>
+          );
+        })}
+      </div>
+
+      {submitted ? (
+        <div className="mt-3 inline-flex items-center gap-1 rounded-lg bg-indigo-100 px-3 py-1.5 text-sm font-medium text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-300">
+          ✓ 已选择 {selected.size} 项分析
+        </div>
+      ) : (
+        <button
+          onClick={handleSubmit}
+          disabled={selected.size === 0 || !onSubmit}
+          className="mt-3 rounded-lg bg-indigo-600 px-4 py-1.5 text-sm font-medium text-white shadow-sm transition-all hover:bg-indigo-700 hover:shadow-md disabled:bg-zinc-200 disabled:text-zinc-400 disabled:shadow-none"
+        >
+          开始分析 ({selected.size})
+        </button>
+      )}
+    </div>
+  );
+}
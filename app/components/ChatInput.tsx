@@ -2,7 +2,8 @@
 
 import { useState, useRef, useEffect, useCallback, memo, forwardRef, useImperativeHandle, type FormEvent } from "react";
 import type { FileAttachment } from "../hooks/useChat";
-import { generateUUID } from "../lib/uuid";
+import { DATA_FILE_ACCEPT } from "../lib/data-formats";
+import { toAttachments } from "../lib/file-attachments";
 import { FilePreviewModal } from "./FilePreviewModal";
 
 function formatFileSize(bytes: number): string {
@@ -11,36 +12,6 @@ function formatFileSize(bytes: number): string {
   return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 }
 
-async function readFileAsBase64(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      const result = reader.result as string;
-      const base64 = result.split(",")[1] || "";
-      resolve(base64);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
-}
-
-async function readFilePreview(
-  file: File,
-  maxLines = 6
-): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      const text = reader.result as string;
-      const lines = text.split("\n").slice(0, maxLines);
-      resolve(lines.join("\n"));
-    };
-    reader.onerror = reject;
-    const blob = file.slice(0, 8192);
-    reader.readAsText(blob);
-  });
-}
-
 interface ChatInputProps {
   onSend: (content: string) => void;
   isLoading: boolean;
@@ -90,31 +61,7 @@ const ChatInputInner = forwardRef<ChatInputHandle, ChatInputProps>(function Chat
   ) => {
     const fileList = e.target.files;
     if (!fileList) return;
-    const MAX_SIZE = 10 * 1024 * 1024;
-    const attachments: FileAttachment[] = [];
-    const errors: string[] = [];
-
-    for (const file of Array.from(fileList)) {
-      if (file.size > MAX_SIZE) {
-        errors.push(`${file.name}: 超过 10MB 限制`);
-        continue;
-      }
-      try {
-        const content = await readFileAsBase64(file);
-        const preview = await readFilePreview(file);
-        attachments.push({
-          id: generateUUID(),
-          name: file.name,
-          type: file.type || "text/plain",
-          size: file.size,
-          content,
-          preview,
-        });
-      } catch (err) {
-        const errMsg = err instanceof Error ? err.message : "读取失败";
-        errors.push(`${file.name}: ${errMsg}`);
-      }
-    }
+    const { attachments, errors } = await toAttachments(Array.from(fileList));
 
     if (errors.length > 0) {
       alert("文件上传出错:\n" + errors.join("\n"));
@@ -159,7 +106,7 @@ const ChatInputInner = forwardRef<ChatInputHandle, ChatInputProps>(function Chat
             <div
               key={file.id}
               onClick={() => setPreviewingFile(file)}
-              className={`flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-xs font-medium border cursor-pointer transition-all hover:shadow-md ${
+              className={`relative flex items-center gap-1.5 overflow-hidden rounded-lg px-3 py-1.5 text-xs font-medium border cursor-pointer transition-all hover:shadow-md ${
                 file.previewError
                   ? "border-red-200 bg-red-50 text-red-700 hover:bg-red-100 dark:border-red-800 dark:bg-red-900/30 dark:text-red-300 dark:hover:bg-red-900/50"
                   : file.isPreviewing
@@ -185,6 +132,10 @@ const ChatInputInner = forwardRef<ChatInputHandle, ChatInputProps>(function Chat
               <span className=" max-w-[150px]truncate">{file.name}</span>
               {file.previewError ? (
                 <span className="text-red-600 dark:text-red-400 text-xs">预览失败</span>
+              ) : file.isPreviewing && file.uploadProgress !== undefined ? (
+                <span className="text-amber-600 dark:text-amber-400">
+                  上传中 {Math.floor(file.uploadProgress * 100)}%
+                </span>
               ) : file.isPreviewing ? (
                 <span className="text-amber-600 dark:text-amber-400">解析中...</span>
               ) : file.richPreview ? (
@@ -207,6 +158,12 @@ const ChatInputInner = forwardRef<ChatInputHandle, ChatInputProps>(function Chat
               >
                 ×
               </button>
+              {file.uploadProgress !== undefined && (
+                <div
+                  className="absolute bottom-0 left-0 h-0.5 bg-amber-500 transition-[width] dark:bg-amber-400"
+                  style={{ width: `${file.uploadProgress * 100}%` }}
+                />
+              )}
             </div>
           ))}
         </div>
@@ -219,7 +176,7 @@ const ChatInputInner = forwardRef<ChatInputHandle, ChatInputProps>(function Chat
           ref={fileInputRef}
           type="file"
           multiple
-          accept=".csv,.tsv,.txt,.json,.xlsx,.xls,.parquet"
+          accept={DATA_FILE_ACCEPT}
           onChange={handleFileSelect}
           className="hidden"
         />
@@ -229,7 +186,7 @@ const ChatInputInner = forwardRef<ChatInputHandle, ChatInputProps>(function Chat
           disabled={isLoading}
           className="flex h-11 w-11 shrink-0 items-center justify-center rounded-xl border border-zinc-200 text-zinc-400 transition-all hover:border-indigo-300 hover:bg-indigo-50 hover:text-indigo-600 disabled:opacity-50 dark:border-zinc-700 dark:text-zinc-500 dark:hover:border-indigo-700 dark:hover:bg-indigo-950/30 dark:hover:text-indigo-400"
           aria-label="Upload file"
-          title="上传文件 (CSV, JSON, Excel, Parquet 等)"
+          title="上传文件 (CSV, Excel, JSON, Parquet, SQLite, SPSS/Stata/SAS, ZIP 等)"
         >
           <svg
             className="h-5 w-5"
@@ -1,11 +1,12 @@
 "use client";
 
 import { useRef, useEffect, useState, memo, useCallback, useMemo } from "react";
-import type { Message } from "../hooks/useChat";
+import type { ConfirmationDecision, InformationAnswer, Message } from "../hooks/useChat";
 import { ConfirmationCard } from "./ConfirmationCard";
 import { ToolCallCard } from "./ToolCallCard";
 import { CodeResultCard } from "./CodeResultCard";
 import { InformationRequestCard } from "./InformationRequestCard";
+import { AnalysisOptionsCard } from "./AnalysisOptionsCard";
 import { FilePreviewModal } from "./FilePreviewModal";
 import { PlanCard } from "./PlanCard";
 import type { FileAttachment } from "../hooks/useChat";
@@ -18,11 +19,15 @@ import rehypeHighlight from "rehype-highlight";
 
 interface ChatMessagesProps {
   messages: Message[];
-  onConfirm: (action: string) => void;
-  onReject: (action: string) => void;
+  onResolveConfirmation: (messageId: string, toolCallIndex: number, decision: ConfirmationDecision) => void;
+  onAnswerInformation: (messageId: string, toolCallIndex: number, answer: InformationAnswer) => void;
+  /** Session files, offered by column-picker questions */
+  sessionFiles?: FileAttachment[];
   onApproveToolCall: (messageId: string, toolCallIndex: number) => void;
   onRejectToolCall: (messageId: string, toolCallIndex: number) => void;
+  onCancelToolCall?: () => void;
   onSuggestionClick?: (suggestion: string) => void;
+  onSelectAnalysisOptions?: (messageId: string, toolCallIndex: number, options: string[]) => void;
 }
 
 // Memoized CodeBlock component
@@ -60,11 +65,14 @@ const CodeBlock = memo(function CodeBlock({ code, language }: { code: string; la
 
 export const ChatMessages = memo(function ChatMessages({
   messages,
-  onConfirm,
-  onReject,
+  onResolveConfirmation,
+  onAnswerInformation,
+  sessionFiles,
   onApproveToolCall,
   onRejectToolCall,
+  onCancelToolCall,
   onSuggestionClick,
+  onSelectAnalysisOptions,
 }: ChatMessagesProps) {
   const bottomRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -227,8 +235,9 @@ export const ChatMessages = memo(function ChatMessages({
                           <ConfirmationCard
                             key={index}
                             toolCall={tc}
-                            onConfirm={onConfirm}
-                            onReject={onReject}
+                            onDecide={(decision) =>
+                              onResolveConfirmation(message.id, currentIndex, decision)
+                            }
                           />
                         );
                       }
@@ -237,6 +246,22 @@ export const ChatMessages = memo(function ChatMessages({
                           <InformationRequestCard
                             key={index}
                             toolCall={tc}
+                            files={sessionFiles}
+                            onAnswer={(answer) =>
+                              onAnswerInformation(message.id, currentIndex, answer)
+                            }
+                          />
+                        );
+                      }
+                      if (tc.tool === "present_analysis_options") {
+                        return (
+                          <AnalysisOptionsCard
+                            key={index}
+                            toolCall={tc}
+                            onSubmit={
+                              onSelectAnalysisOptions &&
+                              ((options) => onSelectAnalysisOptions(message.id, currentIndex, options))
+                            }
                           />
                         );
                       }
@@ -251,6 +276,7 @@ export const ChatMessages = memo(function ChatMessages({
                             onReject={() =>
                               onRejectToolCall(message.id, currentIndex)
                             }
+                            onCancel={onCancelToolCall}
                           />
                         );
                       }
@@ -287,13 +313,23 @@ export const ChatMessages = memo(function ChatMessages({
                       <ConfirmationCard
                         key={i}
                         toolCall={tc}
-                        onConfirm={onConfirm}
-                        onReject={onReject}
+                        onDecide={(decision) => onResolveConfirmation(message.id, i, decision)}
                       />
                     ) : tc.tool === "ask_for_information" ? (
                       <InformationRequestCard
                         key={i}
                         toolCall={tc}
+                        files={sessionFiles}
+                        onAnswer={(answer) => onAnswerInformation(message.id, i, answer)}
+                      />
+                    ) : tc.tool === "present_analysis_options" ? (
+                      <AnalysisOptionsCard
+                        key={i}
+                        toolCall={tc}
+                        onSubmit={
+                          onSelectAnalysisOptions &&
+                          ((options) => onSelectAnalysisOptions(message.id, i, options))
+                        }
                       />
                     ) : tc.tool === "execute_python" ? (
                       <CodeResultCard
@@ -301,6 +337,7 @@ export const ChatMessages = memo(function ChatMessages({
                         toolCall={tc}
                         onApprove={() => onApproveToolCall(message.id, i)}
                         onReject={() => onRejectToolCall(message.id, i)}
+                        onCancel={onCancelToolCall}
                       />
                     ) : (
                       <ToolCallCard key={i} toolCall={tc} />
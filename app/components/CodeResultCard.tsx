@@ -1,10 +1,13 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import rehypeHighlight from "rehype-highlight";
-import type { ToolCall } from "../hooks/useChat";
+import type { CodeRiskCategory, CodeRiskReport, ToolCall } from "../hooks/useChat";
+import { downloadBlob } from "../lib/download";
+import { diffLines } from "../lib/line-diff";
+import { sanitizeHtml } from "../lib/sanitize-html";
 
 interface GeneratedFile {
   name: string;
@@ -16,6 +19,26 @@ interface CodeResultCardProps {
   toolCall: ToolCall;
   onApprove?: () => void;
   onReject?: () => void;
+  /** Kill the kernel running this code */
+  onCancel?: () => void;
+}
+
+function formatElapsed(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, "0")}s`;
+}
+
+/** Seconds since the card entered the running state (it re-mounts per status). */
+function useElapsed(running: boolean): number {
+  const [startedAt] = useState(() => Date.now());
+  const [now, setNow] = useState(startedAt);
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [running]);
+  return now - startedAt;
 }
 
 function formatFileSize(bytes: number): string {
@@ -72,16 +95,7 @@ function downloadBase64File(base64Data: string, filename: string, mimeType: stri
   for (let i = 0; i < byteCharacters.length; i++) {
     byteNumbers[i] = byteCharacters.charCodeAt(i);
   }
-  const byteArray = new Uint8Array(byteNumbers);
-  const blob = new Blob([byteArray], { type: mimeType });
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement("a");
-  link.href = url;
-  link.download = filename;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
+  downloadBlob(new Uint8Array(byteNumbers), filename, mimeType);
 }
 
 function copyToClipboard(text: string) {
@@ -201,8 +215,168 @@ function FilePreview({ file }: { file: GeneratedFile }) {
   return <div className="text-xs text-zinc-500 p-2">不支持预览此文件类型</div>;
 }
 
-export function CodeResultCard({ toolCall, onApprove, onReject }: CodeResultCardProps) {
-  const { args, result, status } = toolCall;
+const RISK_CATEGORY_LABELS: Record<CodeRiskCategory, string> = {
+  subprocess: "外部进程",
+  shell: "Shell 命令",
+  network: "网络访问",
+  package_install: "安装软件包",
+  file_deletion: "删除文件",
+  infinite_loop: "无限循环",
+  dynamic_code: "动态代码",
+  file_access: "沙箱外路径",
+  system_access: "系统内部",
+  file_write: "写入文件",
+};
+
+const RISK_SEVERITY_STYLES: Record<CodeRiskReport["level"], string> = {
+  none: "bg-emerald-100 text-emerald-700",
+  low: "bg-zinc-100 text-zinc-600",
+  medium: "bg-amber-100 text-amber-700",
+  high: "bg-red-100 text-red-700",
+};
+
+const RISK_LEVEL_LABELS: Record<CodeRiskReport["level"], string> = {
+  none: "未发现风险",
+  low: "低风险",
+  medium: "中风险",
+  high: "高风险",
+};
+
+/** Static analysis findings shown on a pending card, before the user decides. */
+function RiskReportPanel({ report }: { report: CodeRiskReport }) {
+  const blocked = new Set(report.blockedCategories);
+  return (
+    <div className="border-b border-amber-100 px-3 py-2">
+      <div className="mb-1 flex items-center gap-2 text-[10px] font-medium uppercase tracking-wider text-zinc-400">
+        安全检查
+        <span className={`rounded-md px-1.5 py-0.5 normal-case ${RISK_SEVERITY_STYLES[report.level]}`}>
+          {RISK_LEVEL_LABELS[report.level]}
+        </span>
+      </div>
+      {report.findings.length > 0 && (
+        <ul className="space-y-1">
+          {report.findings.map((finding, i) => (
+            <li key={i} className="flex items-start gap-2 text-xs">
+              <span className={`shrink-0 rounded px-1 py-0.5 text-[10px] font-medium ${RISK_SEVERITY_STYLES[finding.severity]}`}>
+                {RISK_CATEGORY_LABELS[finding.category] || finding.category}
+                {blocked.has(finding.category) && " · 已禁止"}
+              </span>
+              <span className="min-w-0 text-zinc-600">
+                第 {finding.line} 行: {finding.message}
+                <code className="ml-1 block truncate font-mono text-[10px] text-zinc-400">
+                  {finding.snippet}
+                </code>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function attemptFailed(toolCall: ToolCall): boolean {
+  return !!(toolCall.result as { error?: string | null } | undefined)?.error;
+}
+
+/** Changed lines between two attempts, with a little context around them. */
+function CodeDiff({ before, after }: { before: string; after: string }) {
+  const CONTEXT = 2;
+  const lines = diffLines(before, after);
+  const visible = lines.map((line, i) =>
+    lines
+      .slice(Math.max(0, i - CONTEXT), i + CONTEXT + 1)
+      .some((l) => l.type !== "same")
+  );
+
+  if (!lines.some((l) => l.type !== "same")) {
+    return <div className="px-3 py-2 text-xs text-zinc-400">代码未改动</div>;
+  }
+
+  return (
+    <pre className="overflow-x-auto py-1 text-xs leading-5">
+      {lines.map((line, i) => {
+        if (!visible[i]) {
+          return visible[i - 1] ? (
+            <div key={i} className="px-3 text-zinc-300">⋯</div>
+          ) : null;
+        }
+        const style =
+          line.type === "add"
+            ? "bg-emerald-50 text-emerald-700"
+            : line.type === "del"
+            ? "bg-red-50 text-red-700"
+            : "text-zinc-500";
+        const sign = line.type === "add" ? "+" : line.type === "del" ? "-" : " ";
+        return (
+          <div key={i} className={`px-3 font-mono ${style}`}>
+            {sign} {line.text}
+          </div>
+        );
+      })}
+    </pre>
+  );
+}
+
+/** Automatic fixes of a failed run, each diffed against the code before it. */
+function RepairChain({
+  root,
+  onCancel,
+}: {
+  root: ToolCall;
+  onCancel?: () => void;
+}) {
+  const attempts = root.repairAttempts ?? [];
+  const [expanded, setExpanded] = useState(false);
+  const latest = attempts[attempts.length - 1];
+  const codeOf = (t: ToolCall) => (t.args as { code?: string }).code || "";
+
+  const summary =
+    latest.status === "approved" || latest.status === "pending"
+      ? { text: "修复中", style: "bg-indigo-50 text-indigo-600" }
+      : latest.status === "completed" && !attemptFailed(latest)
+      ? { text: "已修复", style: "bg-emerald-100 text-emerald-600" }
+      : { text: "未能修复", style: "bg-red-100 text-red-600" };
+
+  return (
+    <div className="border-t border-zinc-100">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex w-full items-center gap-2 px-3 py-2 text-left text-xs text-zinc-600 hover:bg-zinc-50"
+        aria-expanded={expanded}
+      >
+        <span>{expanded ? "▾" : "▸"}</span>
+        <span className="font-medium">🔧 自动修复</span>
+        <span className="text-zinc-400">{attempts.length} 次尝试</span>
+        <span className={`rounded-md px-1.5 py-0.5 text-[10px] font-medium ${summary.style}`}>
+          {summary.text}
+        </span>
+      </button>
+      {expanded && (
+        <div className="space-y-3 px-3 pb-3">
+          {attempts.map((attempt, i) => (
+            <div key={attempt.id ?? i} className="rounded-lg border border-zinc-100">
+              <div className="border-b border-zinc-100 bg-zinc-50/50 px-3 py-1.5 text-[10px] font-medium uppercase tracking-wider text-zinc-400">
+                第 {attempt.repair?.attempt ?? i + 1} 次尝试 · 代码改动
+              </div>
+              <CodeDiff before={codeOf(i === 0 ? root : attempts[i - 1])} after={codeOf(attempt)} />
+              <div className="px-2">
+                <CodeResultCard
+                  key={`${attempt.id}-${attempt.status}`}
+                  toolCall={attempt}
+                  onCancel={onCancel}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function CodeResultCard({ toolCall, onApprove, onReject, onCancel }: CodeResultCardProps) {
+  const { args, result, status, autoApproved, riskReport, liveOutput, elapsedMs } = toolCall;
 
   // Show code by default, but collapse if already completed (e.g., on page reload)
   // The parent component should use a key based on status to trigger re-mount when status changes
@@ -214,6 +388,7 @@ export function CodeResultCard({ toolCall, onApprove, onReject }: CodeResultCard
   const stdout = (result as { stdout?: string })?.stdout || "";
   const stderr = (result as { stderr?: string })?.stderr || "";
   const error = (result as { error?: string | null })?.error;
+  const errorDetails = (result as { errorDetails?: { line?: number; lineText?: string } })?.errorDetails;
   const results = (result as { results?: Array<{ text?: string; png?: string; html?: string }> })?.results || [];
   const generatedFiles = (result as { generatedFiles?: GeneratedFile[] })?.generatedFiles || [];
 
@@ -222,6 +397,9 @@ export function CodeResultCard({ toolCall, onApprove, onReject }: CodeResultCard
   const isApproved = status === "approved";
   const isRejected = status === "rejected";
   const isCompleted = status === "completed";
+  const isBlocked = (riskReport?.blockedCategories.length ?? 0) > 0;
+  const runningFor = useElapsed(isApproved);
+  const [isCancelling, setIsCancelling] = useState(false);
 
   return (
     <div className={`my-3 overflow-hidden rounded-xl border ${
@@ -280,8 +458,21 @@ export function CodeResultCard({ toolCall, onApprove, onReject }: CodeResultCard
                   成功
                 </span>
               )}
+              {elapsedMs !== undefined && (
+                <span className="text-[10px] font-normal text-zinc-400">
+                  耗时 {formatElapsed(elapsedMs)}
+                </span>
+              )}
             </>
           )}
+          {autoApproved && (isApproved || isCompleted) && (
+            <span
+              className="rounded-md bg-zinc-100 px-1.5 py-0.5 text-[10px] font-medium text-zinc-500"
+              title="根据执行策略自动运行，未经手动确认"
+            >
+              自动执行
+            </span>
+          )}
         </div>
         <div className="flex items-center gap-2">
           {showCode && code && (
@@ -326,15 +517,19 @@ export function CodeResultCard({ toolCall, onApprove, onReject }: CodeResultCard
         </div>
       )}
 
+      {/* Pending: static safety analysis */}
+      {isPending && riskReport && <RiskReportPanel report={riskReport} />}
+
       {/* Pending: Confirm / Reject buttons */}
       {isPending && (
         <div className="flex items-center gap-3 px-3 py-3">
           <span className="text-xs text-amber-700">
-            是否执行以上代码？
+            {isBlocked ? "代码包含服务器禁止的操作，无法执行" : "是否执行以上代码？"}
           </span>
           <button
             onClick={onApprove}
-            className="rounded-lg bg-green-600 px-4 py-1.5 text-xs font-medium text-white transition-colors hover:bg-green-700"
+            disabled={isBlocked}
+            className="rounded-lg bg-green-600 px-4 py-1.5 text-xs font-medium text-white transition-colors hover:bg-green-700 disabled:cursor-not-allowed disabled:bg-zinc-300"
           >
             ✓ 确认执行
           </button>
@@ -347,14 +542,45 @@ export function CodeResultCard({ toolCall, onApprove, onReject }: CodeResultCard
         </div>
       )}
 
-      {/* Approved: Loading spinner */}
+      {/* Approved: live output, elapsed time and cancel */}
       {isApproved && (
-        <div className="flex items-center gap-2 px-3 py-3">
-          <svg className="h-4 w-4 animate-spin text-blue-500" fill="none" viewBox="0 0 24 24">
-            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
-          </svg>
-          <span className="text-xs text-zinc-500">正在沙盒中执行代码...</span>
+        <div className="px-3 py-3">
+          <div className="flex items-center gap-2">
+            <svg className="h-4 w-4 animate-spin text-blue-500" fill="none" viewBox="0 0 24 24">
+              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+            </svg>
+            <span className="text-xs text-zinc-500">
+              正在沙盒中执行代码... {formatElapsed(runningFor)}
+            </span>
+            {onCancel && (
+              <button
+                onClick={() => {
+                  setIsCancelling(true);
+                  onCancel();
+                }}
+                disabled={isCancelling}
+                className="ml-auto rounded-lg border border-red-200 bg-white px-3 py-1 text-xs font-medium text-red-600 transition-colors hover:bg-red-50 disabled:opacity-50"
+                title="终止执行并重启 Python 内核"
+              >
+                {isCancelling ? "正在终止..." : "■ 终止"}
+              </button>
+            )}
+          </div>
+          {liveOutput && (liveOutput.stdout || liveOutput.stderr) && (
+            <pre className="mt-2 max-h-64 overflow-auto rounded-lg bg-zinc-50 p-2 text-xs text-zinc-700">
+              {liveOutput.stdout}
+              {liveOutput.stderr && <span className="text-amber-700">{liveOutput.stderr}</span>}
+            </pre>
+          )}
+          {liveOutput?.results
+            .filter((r) => r.png)
+            .map((r, i) => (
+              <div key={i} className="mt-2 overflow-hidden rounded-lg bg-white">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img src={`data:image/png;base64,${r.png}`} alt="Live chart" className="max-w-full" />
+              </div>
+            ))}
         </div>
       )}
 
@@ -416,7 +642,7 @@ export function CodeResultCard({ toolCall, onApprove, onReject }: CodeResultCard
                   </div>
                   <div
                     className="overflow-x-auto rounded-lg bg-white p-2 text-xs"
-                    dangerouslySetInnerHTML={{ __html: r.html }}
+                    dangerouslySetInnerHTML={{ __html: sanitizeHtml(r.html) }}
                   />
                 </div>
               )}
@@ -497,6 +723,12 @@ export function CodeResultCard({ toolCall, onApprove, onReject }: CodeResultCard
                   错误
                 </span>
               </div>
+              {errorDetails?.line !== undefined && (
+                <div className="mb-1 text-xs text-red-600">
+                  出错位置: 第 {errorDetails.line} 行
+                  <code className="ml-2 font-mono text-red-700">{errorDetails.lineText}</code>
+                </div>
+              )}
               <div className="overflow-x-auto rounded-lg bg-red-50 p-3 text-xs text-red-700 border border-red-200">
                 <pre className="whitespace-pre-wrap wrap-break-words font-mono">{error}</pre>
               </div>
@@ -504,6 +736,11 @@ export function CodeResultCard({ toolCall, onApprove, onReject }: CodeResultCard
           )}
         </div>
       )}
+
+      {/* Automatic fixes of this run */}
+      {(toolCall.repairAttempts?.length ?? 0) > 0 && (
+        <RepairChain root={toolCall} onCancel={onCancel} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,255 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { ColumnProfile, ColumnSemanticType } from "../hooks/useChat";
+
+const SEMANTIC_TYPES: Record<ColumnSemanticType, { label: string; className: string }> = {
+  numeric: { label: "数值", className: "bg-indigo-100 text-indigo-700 dark:bg-indigo-950/50 dark:text-indigo-300" },
+  identifier: { label: "标识符", className: "bg-zinc-200 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300" },
+  datetime: { label: "日期时间", className: "bg-blue-100 text-blue-700 dark:bg-blue-950/50 dark:text-blue-300" },
+  categorical: { label: "分类", className: "bg-emerald-100 text-emerald-700 dark:bg-emerald-950/50 dark:text-emerald-300" },
+  boolean: { label: "布尔", className: "bg-teal-100 text-teal-700 dark:bg-teal-950/50 dark:text-teal-300" },
+  text: { label: "文本", className: "bg-purple-100 text-purple-700 dark:bg-purple-950/50 dark:text-purple-300" },
+  constant: { label: "常量", className: "bg-amber-100 text-amber-700 dark:bg-amber-950/50 dark:text-amber-300" },
+  unknown: { label: "未知", className: "bg-red-100 text-red-700 dark:bg-red-950/50 dark:text-red-300" },
+};
+
+type SortKey = "original" | "name" | "nulls" | "unique" | "type";
+
+const SORT_OPTIONS: Array<{ key: SortKey; label: string }> = [
+  { key: "original", label: "原始顺序" },
+  { key: "name", label: "列名" },
+  { key: "nulls", label: "缺失率" },
+  { key: "unique", label: "不同值数" },
+  { key: "type", label: "语义类型" },
+];
+
+const TYPE_ORDER = Object.keys(SEMANTIC_TYPES) as ColumnSemanticType[];
+
+interface ColumnExplorerProps {
+  profiles: ColumnProfile[];
+  /** Null counts over the same sampled rows the profiles describe */
+  nullCounts: Record<string, number>;
+  /** SPSS / Stata variable labels */
+  columnLabels?: Record<string, string>;
+}
+
+interface ColumnEntry {
+  profile: ColumnProfile;
+  index: number;
+  nullRatio: number;
+}
+
+function formatValue(value: number | null | undefined): string {
+  if (value === null || value === undefined) return "—";
+  if (Number.isInteger(value)) return value.toLocaleString();
+  return Number(value.toPrecision(4)).toLocaleString();
+}
+
+/** Bar-chart sparkline of a numeric histogram. */
+function Histogram({ edges, counts }: { edges: Array<number | null>; counts: number[] }) {
+  const max = Math.max(1, ...counts);
+  return (
+    <div>
+      <div className="flex h-12 items-end gap-px">
+        {counts.map((count, i) => (
+          <div
+            key={i}
+            className="flex-1 rounded-t-sm bg-indigo-400 dark:bg-indigo-500"
+            style={{ height: `${Math.max(count > 0 ? 4 : 0, (count / max) * 100)}%` }}
+            title={`${formatValue(edges[i])} ~ ${formatValue(edges[i + 1])}: ${count}`}
+          />
+        ))}
+      </div>
+      <div className="mt-0.5 flex justify-between font-mono text-[10px] text-zinc-400">
+        <span>{formatValue(edges[0])}</span>
+        <span>{formatValue(edges[edges.length - 1])}</span>
+      </div>
+    </div>
+  );
+}
+
+function TopValues({ profile }: { profile: ColumnProfile }) {
+  if (profile.topValues.length === 0) return null;
+  const total = Math.max(1, profile.nonNull);
+  return (
+    <div className="space-y-1">
+      {profile.topValues.map((v) => (
+        <div key={v.value} className="flex items-center gap-2 text-xs">
+          <div className="relative h-4 flex-1 overflow-hidden rounded bg-zinc-100 dark:bg-zinc-800">
+            <div
+              className="absolute inset-y-0 left-0 bg-emerald-200 dark:bg-emerald-900/60"
+              style={{ width: `${(v.count / total) * 100}%` }}
+            />
+            <span className="relative block truncate px-1.5 font-mono leading-4 text-zinc-700 dark:text-zinc-300" title={v.value}>
+              {v.value}
+            </span>
+          </div>
+          <span className="w-10 shrink-0 text-right text-zinc-500 dark:text-zinc-400">{v.count}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ColumnCard({ entry, label }: { entry: ColumnEntry; label?: string }) {
+  const { profile, nullRatio } = entry;
+  const type = SEMANTIC_TYPES[profile.semanticType] ?? SEMANTIC_TYPES.unknown;
+  const histogram = profile.numeric?.histogram;
+
+  return (
+    <div className="rounded-lg border border-zinc-200 bg-white p-3 dark:border-zinc-700 dark:bg-zinc-900">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <div className="truncate font-mono text-sm font-medium text-zinc-900 dark:text-zinc-100" title={profile.name}>
+            {profile.name}
+          </div>
+          {label && <div className="truncate text-xs text-zinc-500 dark:text-zinc-400" title={label}>{label}</div>}
+        </div>
+        <div className="flex shrink-0 items-center gap-1">
+          <span className={`rounded px-1.5 py-0.5 text-[10px] font-medium ${type.className}`}>{type.label}</span>
+          <span className="rounded bg-zinc-100 px-1.5 py-0.5 font-mono text-[10px] text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400">
+            {profile.dtype}
+          </span>
+        </div>
+      </div>
+
+      {profile.error ? (
+        <div className="mt-2 text-xs text-red-600 dark:text-red-400">无法分析: {profile.error}</div>
+      ) : (
+        <>
+          {/* Null ratio */}
+          <div className="mt-2 flex items-center gap-2 text-xs">
+            <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-emerald-200 dark:bg-emerald-900/60">
+              <div className="h-full bg-amber-500" style={{ width: `${nullRatio * 100}%` }} />
+            </div>
+            <span className={nullRatio > 0 ? "text-amber-600 dark:text-amber-400" : "text-zinc-500 dark:text-zinc-400"}>
+              缺失 {(nullRatio * 100).toFixed(nullRatio > 0 && nullRatio < 0.01 ? 1 : 0)}%
+            </span>
+            <span className="text-zinc-500 dark:text-zinc-400">· {profile.unique.toLocaleString()} 个不同值</span>
+          </div>
+
+          <div className="mt-3">
+            {histogram && histogram.counts.length > 1 ? (
+              <Histogram edges={histogram.edges} counts={histogram.counts} />
+            ) : (
+              profile.semanticType !== "identifier" && <TopValues profile={profile} />
+            )}
+          </div>
+
+          <div className="mt-2 flex flex-wrap gap-x-3 gap-y-0.5 text-[11px] text-zinc-500 dark:text-zinc-400">
+            {profile.numeric && (
+              <>
+                <span>均值 {formatValue(profile.numeric.mean)}</span>
+                <span>标准差 {formatValue(profile.numeric.std)}</span>
+              </>
+            )}
+            {profile.datetime && (
+              <span>
+                {profile.datetime.min} ~ {profile.datetime.max}
+              </span>
+            )}
+            {profile.stringLength && (
+              <span>
+                长度 {profile.stringLength.min}–{profile.stringLength.max}（中位 {formatValue(profile.stringLength.median)}）
+              </span>
+            )}
+            {profile.dateParseRatio !== undefined && profile.dateParseRatio > 0 && !profile.datetime && (
+              <span>{Math.round(profile.dateParseRatio * 100)}% 可解析为日期</span>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Per-column cards built from the preview's column profiles, with search
+ * and sorting across columns.
+ */
+export function ColumnExplorer({ profiles, nullCounts, columnLabels }: ColumnExplorerProps) {
+  const [query, setQuery] = useState("");
+  const [sortKey, setSortKey] = useState<SortKey>("original");
+
+  const entries = useMemo<ColumnEntry[]>(
+    () =>
+      profiles.map((profile, index) => {
+        const nulls = nullCounts[profile.name] ?? 0;
+        const sampled = profile.nonNull + nulls;
+        return { profile, index, nullRatio: sampled > 0 ? nulls / sampled : 0 };
+      }),
+    [profiles, nullCounts]
+  );
+
+  const visible = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    const filtered = q
+      ? entries.filter(
+          ({ profile }) =>
+            profile.name.toLowerCase().includes(q) ||
+            (columnLabels?.[profile.name] ?? "").toLowerCase().includes(q)
+        )
+      : entries;
+    const sorted = [...filtered];
+    switch (sortKey) {
+      case "name":
+        sorted.sort((a, b) => a.profile.name.localeCompare(b.profile.name));
+        break;
+      case "nulls":
+        sorted.sort((a, b) => b.nullRatio - a.nullRatio || a.index - b.index);
+        break;
+      case "unique":
+        sorted.sort((a, b) => b.profile.unique - a.profile.unique || a.index - b.index);
+        break;
+      case "type":
+        sorted.sort(
+          (a, b) =>
+            TYPE_ORDER.indexOf(a.profile.semanticType) - TYPE_ORDER.indexOf(b.profile.semanticType) ||
+            a.index - b.index
+        );
+        break;
+    }
+    return sorted;
+  }, [entries, query, sortKey, columnLabels]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="搜索列名..."
+          className="min-w-0 flex-1 rounded-lg border border-zinc-200 bg-white px-3 py-1.5 text-sm text-zinc-900 placeholder-zinc-400 focus:border-indigo-400 focus:outline-none dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-100"
+        />
+        <select
+          value={sortKey}
+          onChange={(e) => setSortKey(e.target.value as SortKey)}
+          className="rounded-lg border border-zinc-200 bg-white px-2 py-1.5 text-sm text-zinc-700 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-300"
+          aria-label="排序方式"
+        >
+          {SORT_OPTIONS.map((o) => (
+            <option key={o.key} value={o.key}>
+              按{o.label}
+            </option>
+          ))}
+        </select>
+        <span className="text-xs text-zinc-500 dark:text-zinc-400">
+          {visible.length} / {entries.length} 列
+        </span>
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="py-8 text-center text-sm text-zinc-500 dark:text-zinc-400">没有匹配的列</div>
+      ) : (
+        <div className="grid gap-3 sm:grid-cols-2">
+          {visible.map((entry) => (
+            <ColumnCard key={entry.index} entry={entry} label={columnLabels?.[entry.profile.name]} />
+          ))}
+        </div>
+      )}
+      <div className="text-[11px] text-zinc-400">基于预览时读取的样本行计算</div>
+    </div>
+  );
+}
@@ -1,36 +1,31 @@
 "use client";
 
 import { useState } from "react";
-import type { ToolCall } from "../hooks/useChat";
+import type { ConfirmationDecision, ToolCall } from "../hooks/useChat";
 
 interface ConfirmationCardProps {
   toolCall: ToolCall;
-  onConfirm: (action: string) => void;
-  onReject: (action: string) => void;
+  /** Answer the request; the agent resumes with the decision */
+  onDecide: (decision: ConfirmationDecision) => void;
 }
 
-export function ConfirmationCard({
-  toolCall,
-  onConfirm,
-  onReject,
-}: ConfirmationCardProps) {
-  const [status, setStatus] = useState<"pending" | "confirmed" | "rejected">(
-    "pending"
-  );
+export function ConfirmationCard({ toolCall, onDecide }: ConfirmationCardProps) {
+  const [note, setNote] = useState("");
+  const [showNote, setShowNote] = useState(false);
 
   const { action, description } = toolCall.args as {
     action: string;
     description: string;
   };
+  const decided =
+    toolCall.result?.type === "confirmation_decision"
+      ? (toolCall.result as unknown as ConfirmationDecision & { decidedAt?: number })
+      : null;
+  // Cards saved before decisions were bound to the tool call have no id
+  const canDecide = toolCall.status === "pending" && !!toolCall.id;
 
-  const handleConfirm = () => {
-    setStatus("confirmed");
-    onConfirm(action);
-  };
-
-  const handleReject = () => {
-    setStatus("rejected");
-    onReject(action);
+  const decide = (decision: ConfirmationDecision["decision"]) => {
+    onDecide({ decision, note: note.trim() || undefined });
   };
 
   return (
@@ -50,31 +45,63 @@ export function ConfirmationCard({
         {description}
       </div>
 
-      {status === "pending" ? (
-        <div className="flex gap-2">
-          <button
-            onClick={handleConfirm}
-            className="rounded-lg bg-emerald-600 px-4 py-1.5 text-sm font-medium text-white shadow-sm transition-all hover:bg-emerald-700 hover:shadow-md"
+      {canDecide ? (
+        <>
+          {showNote && (
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={2000}
+              rows={2}
+              placeholder="备注（可选），例如：只删除 2020 年以前的数据"
+              className="mb-2 w-full resize-none rounded-lg border border-amber-200 bg-white px-3 py-2 text-sm text-zinc-800 placeholder-zinc-400 focus:border-amber-400 focus:outline-none dark:border-amber-800 dark:bg-zinc-900 dark:text-zinc-200"
+            />
+          )}
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => decide("approve")}
+              className="rounded-lg bg-emerald-600 px-4 py-1.5 text-sm font-medium text-white shadow-sm transition-all hover:bg-emerald-700 hover:shadow-md"
+            >
+              ✓ 确认执行
+            </button>
+            <button
+              onClick={() => decide("deny")}
+              className="rounded-lg bg-white px-4 py-1.5 text-sm font-medium text-zinc-600 shadow-sm ring-1 ring-inset ring-zinc-300 transition-all hover:bg-zinc-50 hover:text-zinc-900 dark:bg-transparent dark:text-zinc-300 dark:ring-zinc-700 dark:hover:bg-zinc-800"
+            >
+              ✗ 拒绝
+            </button>
+            {!showNote && (
+              <button
+                onClick={() => setShowNote(true)}
+                className="text-xs text-amber-700 hover:underline dark:text-amber-400"
+              >
+                添加备注
+              </button>
+            )}
+          </div>
+        </>
+      ) : decided ? (
+        <div className="space-y-1">
+          <div
+            className={`inline-flex items-center gap-1 rounded-lg px-3 py-1.5 text-sm font-medium ${
+              decided.decision === "approve"
+                ? "bg-emerald-50 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300"
+                : "bg-zinc-100 text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400"
+            }`}
           >
-            ✓ 确认执行
-          </button>
-          <button
-            onClick={handleReject}
-            className="rounded-lg bg-white px-4 py-1.5 text-sm font-medium text-zinc-600 shadow-sm ring-1 ring-inset ring-zinc-300 transition-all hover:bg-zinc-50 hover:text-zinc-900 dark:bg-transparent dark:text-zinc-300 dark:ring-zinc-700 dark:hover:bg-zinc-800"
-          >
-            ✗ 取消
-          </button>
+            {decided.decision === "approve" ? "✓ 已确认" : "✗ 已拒绝"}
+            {decided.decidedAt && (
+              <span className="text-xs font-normal opacity-70">
+                · {new Date(decided.decidedAt).toLocaleString()}
+              </span>
+            )}
+          </div>
+          {decided.note && (
+            <div className="text-xs text-amber-800/80 dark:text-amber-300/80">备注：{decided.note}</div>
+          )}
         </div>
       ) : (
-        <div
-          className={`inline-flex items-center gap-1 rounded-lg px-3 py-1.5 text-sm font-medium ${
-            status === "confirmed"
-              ? "bg-emerald-50 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300"
-              : "bg-zinc-100 text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400"
-          }`}
-        >
-          {status === "confirmed" ? "✓ 已确认" : "✗ 已取消"}
-        </div>
+        <div className="text-xs text-zinc-500 dark:text-zinc-400">未记录决定</div>
       )}
     </div>
   );
@@ -0,0 +1,48 @@
+"use client";
+
+import { memo } from "react";
+import type { ConfirmationRecord } from "../hooks/useChat";
+
+interface ConfirmationLogProps {
+  confirmations: ConfirmationRecord[];
+}
+
+/**
+ * Audit trail of the session's confirm_action requests: what the agent
+ * asked to do, what the user decided and when. Hidden until the first one.
+ */
+export const ConfirmationLog = memo(function ConfirmationLog({ confirmations }: ConfirmationLogProps) {
+  if (confirmations.length === 0) return null;
+
+  return (
+    <div className="border-t border-zinc-200 p-3 dark:border-zinc-800">
+      <div className="mb-2 text-xs font-semibold text-zinc-600 dark:text-zinc-400">🛡️ 确认记录</div>
+      <ul className="max-h-48 space-y-1.5 overflow-y-auto">
+        {[...confirmations].reverse().map((c) => (
+          <li key={c.toolCallId} className="text-xs" title={c.description}>
+            <div className="flex items-center gap-1">
+              <span
+                className={
+                  c.decision === "approve"
+                    ? "text-emerald-600 dark:text-emerald-400"
+                    : "text-zinc-400 dark:text-zinc-500"
+                }
+              >
+                {c.decision === "approve" ? "✓" : "✗"}
+              </span>
+              <span className="min-w-0 flex-1 truncate text-zinc-700 dark:text-zinc-300">{c.action}</span>
+              <span className="shrink-0 text-[10px] text-zinc-400">
+                {new Date(c.decidedAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+              </span>
+            </div>
+            {c.note && (
+              <div className="ml-4 truncate text-[10px] text-zinc-500 dark:text-zinc-400" title={c.note}>
+                {c.note}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+});
@@ -2,6 +2,15 @@
 
 import { useState } from "react";
 import type { FileAttachment } from "../hooks/useChat";
+import type { DataFormat } from "../lib/data-formats";
+import { ColumnExplorer } from "./ColumnExplorer";
+
+// What the tables of a multi-table file are called
+const TABLE_NOUNS: Partial<Record<DataFormat, string>> = {
+  excel: "工作表",
+  sqlite: "数据表",
+  zip: "文件",
+};
 
 interface FilePreviewModalProps {
   file: FileAttachment;
@@ -9,7 +18,15 @@ interface FilePreviewModalProps {
 }
 
 export function FilePreviewModal({ file, onClose }: FilePreviewModalProps) {
-  const [activeTab, setActiveTab] = useState<"preview" | "stats" | "raw">("preview");
+  const [activeTab, setActiveTab] = useState<"preview" | "columns" | "stats" | "raw">("preview");
+  // Multi-table files: start on the table the overview describes (first with data)
+  const tables = file.richPreview?.tables ?? [];
+  const tableNoun = (file.richPreview?.format && TABLE_NOUNS[file.richPreview.format]) || "表";
+  const [tableIndex, setTableIndex] = useState(() =>
+    Math.max(0, tables.findIndex((table) => table.shape[0] > 0))
+  );
+  const activeTable = tables.length > 1 ? tables[tableIndex] : undefined;
+  const shape = activeTable?.shape ?? file.richPreview?.shape;
 
   const renderPreviewContent = () => {
     if (file.previewError) {
@@ -65,7 +82,23 @@ export function FilePreviewModal({ file, onClose }: FilePreviewModalProps) {
       );
     }
 
-    const rp = file.richPreview;
+    const rp = activeTable ?? file.richPreview;
+
+    if (activeTable?.error && activeTab !== "raw") {
+      return (
+        <div className="py-12 text-center text-sm text-red-600 dark:text-red-400">
+          {tableNoun}「{activeTable.name}」无法读取: {activeTable.error}
+        </div>
+      );
+    }
+
+    if (activeTable && activeTable.shape[0] === 0 && activeTab !== "raw") {
+      return (
+        <div className="py-12 text-center text-sm text-zinc-500 dark:text-zinc-400">
+          {tableNoun}「{activeTable.name}」没有数据
+        </div>
+      );
+    }
 
     if (activeTab === "preview") {
       return (
@@ -170,6 +203,23 @@ export function FilePreviewModal({ file, onClose }: FilePreviewModalProps) {
       );
     }
 
+    if (activeTab === "columns") {
+      if (!rp.columnProfiles) {
+        return (
+          <div className="py-12 text-center text-sm text-zinc-500 dark:text-zinc-400">
+            此预览没有列画像，请重新上传文件
+          </div>
+        );
+      }
+      return (
+        <ColumnExplorer
+          profiles={rp.columnProfiles}
+          nullCounts={rp.null_counts}
+          columnLabels={activeTable ? undefined : file.richPreview.columnLabels}
+        />
+      );
+    }
+
     if (activeTab === "stats") {
       return (
         <div>
@@ -222,10 +272,22 @@ export function FilePreviewModal({ file, onClose }: FilePreviewModalProps) {
               </div>
               <div className="text-xs text-zinc-500 dark:text-zinc-400">
                 {formatFileSize(file.size)}
-                {file.richPreview && (
+                {shape && (
                   <span className="ml-2">
-                    · {file.richPreview.shape[0].toLocaleString()} 行 ×{" "}
-                    {file.richPreview.shape[1]} 列
+                    · {shape[0].toLocaleString()} 行 ×{" "}
+                    {shape[1]} 列
+                  </span>
+                )}
+                {tables.length > 1 && (
+                  <span className="ml-2">
+                    · {file.richPreview?.tableCount ?? tables.length} 个{tableNoun}
+                  </span>
+                )}
+                {file.richPreview?.csvDialect && (
+                  <span className="ml-2" title="预览时自动识别的读取参数">
+                    · 分隔符 {file.richPreview.csvDialect.sep === "\t" ? "Tab" : file.richPreview.csvDialect.sep}
+                    {" "}· 编码 {file.richPreview.csvDialect.encoding}
+                    {file.richPreview.csvDialect.skiprows > 0 && ` · 跳过 ${file.richPreview.csvDialect.skiprows} 行`}
                   </span>
                 )}
               </div>
@@ -265,6 +327,16 @@ export function FilePreviewModal({ file, onClose }: FilePreviewModalProps) {
             >
               数据预览
             </button>
+            <button
+              onClick={() => setActiveTab("columns")}
+              className={`px-4 py-2 text-sm font-medium transition-colors ${
+                activeTab === "columns"
+                  ? "border-b-2 border-indigo-600 text-indigo-600 dark:border-indigo-400 dark:text-indigo-400"
+                  : "text-zinc-600 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-200"
+              }`}
+            >
+              列探索
+            </button>
             <button
               onClick={() => setActiveTab("stats")}
               className={`px-4 py-2 text-sm font-medium transition-colors ${
@@ -288,8 +360,33 @@ export function FilePreviewModal({ file, onClose }: FilePreviewModalProps) {
           </div>
         )}
 
+        {/* Sheet / table / archive member switcher */}
+        {activeTable && !file.previewError && !file.isPreviewing && activeTab !== "raw" && (
+          <div className="flex gap-1 overflow-x-auto border-b border-zinc-200 px-6 py-2 dark:border-zinc-800">
+            {tables.map((table, i) => (
+              <button
+                key={table.name}
+                onClick={() => setTableIndex(i)}
+                className={`shrink-0 rounded-md px-2.5 py-1 text-xs font-medium transition-colors ${
+                  i === tableIndex
+                    ? "bg-indigo-100 text-indigo-700 dark:bg-indigo-950/50 dark:text-indigo-300"
+                    : "text-zinc-500 hover:bg-zinc-100 hover:text-zinc-700 dark:text-zinc-400 dark:hover:bg-zinc-800"
+                }`}
+                title={table.error ?? `${table.shape[0].toLocaleString()} 行 × ${table.shape[1]} 列`}
+              >
+                📑 {table.name}
+                {table.error ? (
+                  <span className="ml-1 text-red-400">(错误)</span>
+                ) : (
+                  table.shape[0] === 0 && <span className="ml-1 text-zinc-400">(空)</span>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Content */}
-        <div className="max-h-[calc(90vh-140px)] overflow-y-auto p-6">
+        <div className={`${activeTable ? "max-h-[calc(90vh-185px)]" : "max-h-[calc(90vh-140px)]"} overflow-y-auto p-6`}>
           {renderPreviewContent()}
         </div>
       </div>
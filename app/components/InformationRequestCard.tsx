@@ -1,17 +1,255 @@
 "use client";
 
-import type { ToolCall } from "../hooks/useChat";
+import { useState, type ReactNode } from "react";
+import type {
+  FileAttachment,
+  InformationAnswer,
+  InformationAnswerType,
+  ToolCall,
+} from "../hooks/useChat";
 
 interface InformationRequestCardProps {
   toolCall: ToolCall;
+  /** Session files, for the column picker */
+  files?: FileAttachment[];
+  /** Submit the form; the agent resumes with the answer */
+  onAnswer?: (answer: InformationAnswer) => void;
 }
 
-export function InformationRequestCard({ toolCall }: InformationRequestCardProps) {
-  const { question, context } = toolCall.args as {
-    question: string;
-    context?: string;
+interface QuestionArgs {
+  question: string;
+  context?: string;
+  answerType?: InformationAnswerType;
+  options?: string[];
+  min?: number;
+  max?: number;
+  file?: string;
+}
+
+const inputClassName =
+  "w-full rounded-lg border border-blue-200 bg-white px-3 py-1.5 text-sm text-zinc-800 placeholder-zinc-400 focus:border-blue-400 focus:outline-none dark:border-blue-800 dark:bg-zinc-900 dark:text-zinc-200";
+
+const submitClassName =
+  "rounded-lg bg-blue-600 px-4 py-1.5 text-sm font-medium text-white shadow-sm transition-all hover:bg-blue-700 hover:shadow-md disabled:cursor-not-allowed disabled:opacity-50";
+
+/** One-line rendering of a submitted answer. */
+function formatAnswer(answer: InformationAnswer): string {
+  const { value } = answer;
+  if (typeof value === "boolean") return value ? "是" : "否";
+  if (Array.isArray(value)) return value.join("、");
+  if (typeof value === "object") return `${value.from} ~ ${value.to}`;
+  return String(value);
+}
+
+/** The data file whose columns a `columns` question offers. */
+function columnSource(files: FileAttachment[], name?: string): FileAttachment | undefined {
+  const named = name ? files.find((f) => f.name === name) : undefined;
+  if (named?.richPreview?.columns.length) return named;
+  return files.find((f) => f.richPreview?.columns.length);
+}
+
+function CheckList({
+  items,
+  selected,
+  multiple,
+  labels,
+  onToggle,
+}: {
+  items: string[];
+  selected: Set<string>;
+  multiple: boolean;
+  labels?: Record<string, string>;
+  onToggle: (item: string) => void;
+}) {
+  return (
+    <div className="max-h-56 space-y-1 overflow-y-auto">
+      {items.map((item) => (
+        <label
+          key={item}
+          className={`flex cursor-pointer items-center gap-2 rounded-lg border px-3 py-1.5 text-sm transition-all hover:shadow-sm ${
+            selected.has(item)
+              ? "border-blue-300 bg-white dark:border-blue-700 dark:bg-blue-950/40"
+              : "border-transparent bg-white/60 dark:bg-blue-950/20"
+          }`}
+        >
+          <input
+            type={multiple ? "checkbox" : "radio"}
+            checked={selected.has(item)}
+            onChange={() => onToggle(item)}
+            className="h-4 w-4 accent-blue-600"
+          />
+          <span className="min-w-0 flex-1 truncate text-zinc-800 dark:text-zinc-200">{item}</span>
+          {labels?.[item] && (
+            <span className="truncate text-xs text-zinc-500 dark:text-zinc-400">{labels[item]}</span>
+          )}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+function AnswerForm({
+  args,
+  files,
+  onAnswer,
+}: {
+  args: QuestionArgs;
+  files: FileAttachment[];
+  onAnswer: (answer: InformationAnswer) => void;
+}) {
+  const [text, setText] = useState("");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const source = args.answerType === "columns" ? columnSource(files, args.file) : undefined;
+  const options = args.options ?? [];
+  // Without choices or columns to pick from, fall back to a free-text answer
+  let answerType: InformationAnswerType = args.answerType ?? "text";
+  if ((answerType === "single_choice" || answerType === "multi_choice") && options.length === 0) {
+    answerType = "text";
+  }
+  if (answerType === "columns" && !source) answerType = "text";
+
+  const toggle = (item: string) => {
+    setSelected((prev) => {
+      if (answerType === "single_choice") return new Set([item]);
+      const next = new Set(prev);
+      if (next.has(item)) next.delete(item);
+      else next.add(item);
+      return next;
+    });
   };
 
+  if (answerType === "yes_no") {
+    return (
+      <div className="flex gap-2">
+        <button onClick={() => onAnswer({ answerType, value: true })} className={submitClassName}>
+          是
+        </button>
+        <button
+          onClick={() => onAnswer({ answerType, value: false })}
+          className="rounded-lg bg-white px-4 py-1.5 text-sm font-medium text-zinc-600 shadow-sm ring-1 ring-inset ring-zinc-300 transition-all hover:bg-zinc-50 hover:text-zinc-900 dark:bg-transparent dark:text-zinc-300 dark:ring-zinc-700 dark:hover:bg-zinc-800"
+        >
+          否
+        </button>
+      </div>
+    );
+  }
+
+  let control: ReactNode;
+  let answer: InformationAnswer | null = null;
+  let hint: string | undefined;
+
+  switch (answerType) {
+    case "single_choice":
+    case "multi_choice": {
+      control = (
+        <CheckList
+          items={options}
+          selected={selected}
+          multiple={answerType === "multi_choice"}
+          onToggle={toggle}
+        />
+      );
+      // Keep the listed order rather than click order
+      const picked = options.filter((o) => selected.has(o));
+      if (picked.length > 0) {
+        answer = { answerType, value: answerType === "single_choice" ? picked[0] : picked };
+      }
+      break;
+    }
+    case "columns": {
+      const columns = source!.richPreview!.columns;
+      control = (
+        <>
+          <div className="mb-1 text-xs text-blue-700/70 dark:text-blue-300/70">📄 {source!.name}</div>
+          <CheckList
+            items={columns}
+            selected={selected}
+            multiple
+            labels={source!.richPreview!.columnLabels}
+            onToggle={toggle}
+          />
+        </>
+      );
+      const picked = columns.filter((c) => selected.has(c));
+      if (picked.length > 0) answer = { answerType, value: picked, file: source!.name };
+      break;
+    }
+    case "number": {
+      const value = Number(text);
+      const bounds = [
+        args.min !== undefined ? `≥ ${args.min}` : "",
+        args.max !== undefined ? `≤ ${args.max}` : "",
+      ].filter(Boolean);
+      control = (
+        <input
+          type="number"
+          step="any"
+          min={args.min}
+          max={args.max}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={bounds.length > 0 ? `取值 ${bounds.join(" 且 ")}` : "输入数值"}
+          className={inputClassName}
+        />
+      );
+      if (text.trim() !== "" && Number.isFinite(value)) {
+        if ((args.min !== undefined && value < args.min) || (args.max !== undefined && value > args.max)) {
+          hint = `数值需${bounds.join(" 且 ")}`;
+        } else {
+          answer = { answerType, value };
+        }
+      }
+      break;
+    }
+    case "date_range":
+      control = (
+        <div className="flex items-center gap-2">
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClassName} />
+          <span className="text-blue-700/70 dark:text-blue-300/70">~</span>
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClassName} />
+        </div>
+      );
+      if (from && to) {
+        if (from > to) hint = "开始日期不能晚于结束日期";
+        else answer = { answerType, value: { from, to } };
+      }
+      break;
+    default:
+      control = (
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={2}
+          placeholder="输入你的回答"
+          className={`${inputClassName} resize-none`}
+        />
+      );
+      if (text.trim()) answer = { answerType: "text", value: text.trim() };
+  }
+
+  return (
+    <div className="space-y-2">
+      {control}
+      {hint && <div className="text-xs text-red-600 dark:text-red-400">{hint}</div>}
+      <button onClick={() => answer && onAnswer(answer)} disabled={!answer} className={submitClassName}>
+        提交回答
+      </button>
+    </div>
+  );
+}
+
+export function InformationRequestCard({ toolCall, files = [], onAnswer }: InformationRequestCardProps) {
+  const args = toolCall.args as unknown as QuestionArgs;
+  const answered =
+    toolCall.result?.type === "information_answer"
+      ? (toolCall.result as unknown as InformationAnswer)
+      : null;
+  // Cards saved before questions paused the agent have no form to submit
+  const canAnswer = toolCall.status === "pending" && !!toolCall.id && !!onAnswer;
+
   return (
     <div className="my-3 rounded-xl border border-blue-200/75 bg-blue-50/50 p-4 shadow-sm dark:border-blue-800 dark:bg-blue-950/20">
       <div className="mb-2 flex items-center gap-2">
@@ -23,20 +261,31 @@ export function InformationRequestCard({ toolCall }: InformationRequestCardProps
         </span>
       </div>
 
-      {context && (
+      {args.context && (
         <div className="mb-2 text-xs text-blue-700/70 dark:text-blue-300/70">
-          {context}
+          {args.context}
         </div>
       )}
 
       <div className="rounded-lg bg-white/60 p-3 text-sm text-blue-900 dark:bg-blue-950/40 dark:text-blue-100">
         <span className="font-medium">问题：</span>
-        {question}
+        {args.question}
       </div>
 
-      <div className="mt-3 text-xs text-blue-600/80 dark:text-blue-400/80">
-        💡 请在下方输入框中回答这个问题
-      </div>
+      {canAnswer ? (
+        <div className="mt-3">
+          <AnswerForm args={args} files={files} onAnswer={onAnswer!} />
+        </div>
+      ) : answered ? (
+        <div className="mt-3 inline-flex items-center gap-1 rounded-lg bg-blue-100/70 px-3 py-1.5 text-sm text-blue-800 dark:bg-blue-900/30 dark:text-blue-200">
+          <span>✓ 已回答：</span>
+          <span className="font-medium">{formatAnswer(answered)}</span>
+        </div>
+      ) : (
+        <div className="mt-3 text-xs text-blue-600/80 dark:text-blue-400/80">
+          💡 请在下方输入框中回答这个问题
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,88 @@
+"use client";
+
+import { useRef, memo } from "react";
+import type { KnowledgeDocument } from "../hooks/useKnowledgeBase";
+
+interface KnowledgePanelProps {
+  documents: KnowledgeDocument[];
+  isUploading: boolean;
+  onUpload: (files: File[]) => void;
+  onDelete: (id: string) => void;
+}
+
+const ACCEPTED_EXTENSIONS = ".md,.markdown,.txt,.pdf,.csv,.tsv";
+
+const FORMAT_ICONS: Record<KnowledgeDocument["format"], string> = {
+  markdown: "📝",
+  text: "📄",
+  pdf: "📕",
+  csv: "📒",
+};
+
+export const KnowledgePanel = memo(function KnowledgePanel({
+  documents,
+  isUploading,
+  onUpload,
+  onDelete,
+}: KnowledgePanelProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="border-t border-zinc-200 p-3 dark:border-zinc-800">
+      <div className="mb-2 flex items-center justify-between">
+        <span className="text-xs font-semibold text-zinc-600 dark:text-zinc-400">
+          📚 知识库
+        </span>
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={isUploading}
+          className="rounded-md px-1.5 py-0.5 text-xs text-indigo-600 hover:bg-indigo-50 disabled:opacity-50 dark:text-indigo-400 dark:hover:bg-indigo-950/30"
+          title="导入数据字典、指标定义或历史报告 (Markdown / PDF / CSV)"
+        >
+          {isUploading ? "导入中..." : "+ 导入"}
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={ACCEPTED_EXTENSIONS}
+          className="hidden"
+          onChange={(e) => {
+            const files = Array.from(e.target.files || []);
+            if (files.length > 0) onUpload(files);
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      {documents.length === 0 ? (
+        <div className="text-[10px] leading-relaxed text-zinc-400">
+          导入数据字典、指标定义或历史报告后，助手会检索并引用其中的内容
+        </div>
+      ) : (
+        <ul className="max-h-40 space-y-0.5 overflow-y-auto">
+          {documents.map((doc) => (
+            <li
+              key={doc.id}
+              className="group flex items-center gap-1.5 rounded-md px-1.5 py-1 text-xs text-zinc-600 hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-zinc-800"
+              title={`${doc.name} · ${doc.chunkCount} 个片段`}
+            >
+              <span>{FORMAT_ICONS[doc.format] || "📄"}</span>
+              <span className="min-w-0 flex-1 truncate">{doc.name}</span>
+              <button
+                onClick={() => {
+                  if (confirm(`从知识库删除「${doc.name}」？`)) onDelete(doc.id);
+                }}
+                className="hidden rounded px-1 text-zinc-400 hover:text-red-600 group-hover:block"
+                aria-label="Delete document"
+                title="删除"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,159 @@
+"use client";
+
+import { memo, useState } from "react";
+import type { FileAttachment } from "../hooks/useChat";
+import { fileVersion, staleInputs } from "../lib/lineage";
+
+interface LineagePanelProps {
+  files: FileAttachment[];
+  disabled: boolean;
+  onRederive: (name: string) => Promise<void>;
+}
+
+// Deep chains are cut off rather than pushing the tree out of the sidebar
+const MAX_DEPTH = 6;
+
+interface LineageNodeProps {
+  name: string;
+  /** Version the child was derived from; undefined for the roots */
+  usedVersion?: number;
+  files: FileAttachment[];
+  depth: number;
+  /** Files on the path from the root, to stop on cycles */
+  path: string[];
+  disabled: boolean;
+  onRederive: (name: string) => Promise<void>;
+}
+
+function LineageNode({ name, usedVersion, files, depth, path, disabled, onRederive }: LineageNodeProps) {
+  const [showCode, setShowCode] = useState(false);
+  const [isRederiving, setIsRederiving] = useState(false);
+  const file = files.find((f) => f.name === name);
+  const version = fileVersion(file);
+  const lineage = file?.lineage;
+  const stale = file ? staleInputs(file, files) : [];
+  const expand = !!lineage && depth < MAX_DEPTH && !path.includes(name);
+
+  const rederive = async () => {
+    setIsRederiving(true);
+    try {
+      await onRederive(name);
+    } catch (err) {
+      alert(`重新生成 ${name} 失败: ${err instanceof Error ? err.message : err}`);
+    } finally {
+      setIsRederiving(false);
+    }
+  };
+
+  return (
+    <li>
+      <div
+        className="group flex items-center gap-1 rounded-md px-1 py-0.5 text-xs text-zinc-600 hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-zinc-800"
+        title={lineage?.step ? `由步骤「${lineage.step}」生成` : lineage ? "由代码生成" : "用户上传"}
+      >
+        {depth > 0 && <span className="text-zinc-300 dark:text-zinc-600">←</span>}
+        <span>{!file ? "❔" : lineage ? "🧪" : "📄"}</span>
+        <span className="min-w-0 flex-1 truncate">{name}</span>
+        {file && (
+          <span
+            className={`shrink-0 rounded px-1 font-mono text-[10px] ${
+              usedVersion !== undefined && usedVersion !== version
+                ? "bg-amber-100 text-amber-700 dark:bg-amber-950/50 dark:text-amber-300"
+                : "bg-zinc-100 text-zinc-500 dark:bg-zinc-800 dark:text-zinc-400"
+            }`}
+            title={
+              usedVersion !== undefined && usedVersion !== version
+                ? `使用的是 v${usedVersion}，当前为 v${version}`
+                : undefined
+            }
+          >
+            v{usedVersion ?? version}
+          </span>
+        )}
+        {lineage && (
+          <>
+            <button
+              onClick={() => setShowCode((v) => !v)}
+              className="hidden rounded px-1 text-zinc-400 hover:text-indigo-600 group-hover:block"
+              title="查看生成代码"
+            >
+              {"</>"}
+            </button>
+            <button
+              onClick={rederive}
+              disabled={disabled || isRederiving}
+              className={`rounded px-1 hover:text-indigo-600 disabled:opacity-50 ${
+                stale.length > 0 ? "text-amber-600 dark:text-amber-400" : "hidden text-zinc-400 group-hover:block"
+              }`}
+              title={
+                stale.length > 0
+                  ? `输入已更新 (${stale.map((s) => s.name).join(", ")})，点击用最新输入重新生成`
+                  : "重新运行生成代码"
+              }
+            >
+              {isRederiving ? "…" : "↻"}
+            </button>
+          </>
+        )}
+      </div>
+      {showCode && lineage && (
+        <pre className="my-1 max-h-40 overflow-auto rounded bg-zinc-900 p-2 text-[10px] text-zinc-100">
+          {lineage.code}
+        </pre>
+      )}
+      {expand && lineage.inputs.length > 0 && (
+        <ul className="ml-3 border-l border-zinc-200 pl-1 dark:border-zinc-700">
+          {lineage.inputs.map((input) => (
+            <LineageNode
+              key={input.name}
+              name={input.name}
+              usedVersion={input.version}
+              files={files}
+              depth={depth + 1}
+              path={[...path, name]}
+              disabled={disabled}
+              onRederive={onRederive}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Where the session's generated files come from: each final output with
+ * the files it was derived from beneath it, and a re-run of its code.
+ */
+export const LineagePanel = memo(function LineagePanel({ files, disabled, onRederive }: LineagePanelProps) {
+  const generated = files.filter((f) => f.lineage);
+  // Outputs no other generated file was derived from
+  const roots = generated.filter(
+    (f) => !generated.some((g) => g.lineage?.inputs.some((input) => input.name === f.name))
+  );
+
+  return (
+    <div className="border-t border-zinc-200 p-3 dark:border-zinc-800">
+      <div className="mb-2 text-xs font-semibold text-zinc-600 dark:text-zinc-400">🧬 数据血缘</div>
+      {roots.length === 0 ? (
+        <div className="text-[10px] leading-relaxed text-zinc-400">
+          代码生成的文件会显示在这里，并标出它由哪一步、从哪些文件得到
+        </div>
+      ) : (
+        <ul className="max-h-60 space-y-0.5 overflow-y-auto">
+          {roots.map((f) => (
+            <LineageNode
+              key={f.name}
+              name={f.name}
+              files={files}
+              depth={0}
+              path={[]}
+              disabled={disabled}
+              onRederive={onRederive}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+});
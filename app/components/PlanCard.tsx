@@ -1,19 +1,7 @@
 "use client";
 
-export interface PlanStep {
-  id: string;
-  title: string;
-  description?: string;
-  status: "pending" | "in_progress" | "completed" | "failed";
-  result?: string;
-}
-
-export interface Plan {
-  id: string;
-  steps: PlanStep[];
-  currentStepIndex: number;
-  isComplete: boolean;
-}
+import { useState } from "react";
+import type { Plan, PlanRevision, PlanStep } from "../hooks/useChat";
 
 interface PlanCardProps {
   plan: Plan;
@@ -40,6 +28,14 @@ function StepIcon({ status, index }: { status: PlanStep["status"]; index: number
           </svg>
         </div>
       );
+    case "skipped":
+      return (
+        <div className={`${baseClass} bg-zinc-300 text-white dark:bg-zinc-600`}>
+          <svg className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={3}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M13 5l7 7-7 7M5 5l7 7-7 7" />
+          </svg>
+        </div>
+      );
     case "failed":
       return (
         <div className={`${baseClass} bg-red-500 text-white`}>
@@ -57,9 +53,22 @@ function StepIcon({ status, index }: { status: PlanStep["status"]; index: number
   }
 }
 
+const REVISION_LABELS: Record<PlanRevision["action"], string> = {
+  insert_step: "新增步骤",
+  skip_step: "跳过步骤",
+  retry_step: "重试步骤",
+  move_step: "调整顺序",
+  set_result: "记录结果",
+};
+
 export function PlanCard({ plan }: PlanCardProps) {
+  const [showRevisions, setShowRevisions] = useState(false);
   const completedCount = plan.steps.filter((s) => s.status === "completed").length;
-  const progress = plan.steps.length > 0 ? (completedCount / plan.steps.length) * 100 : 0;
+  const skippedCount = plan.steps.filter((s) => s.status === "skipped").length;
+  const progress =
+    plan.steps.length > 0 ? ((completedCount + skippedCount) / plan.steps.length) * 100 : 0;
+  const revisions = plan.revisions ?? [];
+  const stepTitles = new Map(plan.steps.map((s) => [s.id, s.title]));
 
   return (
     <div className="my-2 overflow-hidden rounded-lg border border-zinc-200 bg-white text-sm">
@@ -70,6 +79,18 @@ export function PlanCard({ plan }: PlanCardProps) {
           <span className="font-medium">执行计划</span>
           <span className="text-zinc-400">·</span>
           <span className="text-zinc-500">{completedCount}/{plan.steps.length}</span>
+          {skippedCount > 0 && (
+            <span className="text-zinc-400">（跳过 {skippedCount}）</span>
+          )}
+          {revisions.length > 0 && (
+            <button
+              onClick={() => setShowRevisions(!showRevisions)}
+              className="rounded bg-amber-50 px-1.5 py-0.5 text-[10px] font-medium text-amber-700 hover:bg-amber-100"
+              title="查看计划修订记录"
+            >
+              已修订 v{plan.revision ?? revisions.length} {showRevisions ? "▴" : "▾"}
+            </button>
+          )}
         </div>
         {plan.isComplete && (
           <span className="text-xs text-emerald-600">✓ 完成</span>
@@ -84,28 +105,57 @@ export function PlanCard({ plan }: PlanCardProps) {
         />
       </div>
 
+      {/* Revision log */}
+      {showRevisions && revisions.length > 0 && (
+        <ol className="space-y-0.5 border-b border-zinc-100 bg-amber-50/40 px-3 py-1.5">
+          {revisions.map((r) => (
+            <li key={r.revision} className="text-[11px] text-zinc-500">
+              <span className="font-medium text-amber-700">v{r.revision}</span>{" "}
+              {REVISION_LABELS[r.action] ?? r.action}: {stepTitles.get(r.stepId) ?? r.stepId}
+              {r.note && r.note !== stepTitles.get(r.stepId) && (
+                <span className="text-zinc-400"> — {r.note}</span>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+
       {/* Steps */}
       <div className="px-3 py-2">
         <div className="space-y-1">
           {plan.steps.map((step, index) => (
-            <div
-              key={step.id}
-              className="flex items-center gap-2 py-0.5"
-            >
-              <StepIcon status={step.status} index={index} />
-              <span
-                className={`text-xs ${
-                  step.status === "completed"
-                    ? "text-emerald-600"
-                    : step.status === "in_progress"
-                    ? "text-blue-600 font-medium"
-                    : step.status === "failed"
-                    ? "text-red-600"
-                    : "text-zinc-500"
-                }`}
-              >
-                {step.title}
-              </span>
+            <div key={step.id} className="py-0.5">
+              <div className="flex items-center gap-2">
+                <StepIcon status={step.status} index={index} />
+                <span
+                  className={`text-xs ${
+                    step.status === "completed"
+                      ? "text-emerald-600"
+                      : step.status === "in_progress"
+                      ? "text-blue-600 font-medium"
+                      : step.status === "failed"
+                      ? "text-red-600"
+                      : step.status === "skipped"
+                      ? "text-zinc-400 line-through"
+                      : "text-zinc-500"
+                  }`}
+                >
+                  {step.title}
+                </span>
+                {step.addedInRevision && (
+                  <span className="rounded bg-amber-50 px-1 text-[10px] text-amber-700">新增</span>
+                )}
+                {step.attempts && step.attempts > 1 && (
+                  <span className="rounded bg-blue-50 px-1 text-[10px] text-blue-600">
+                    第 {step.attempts} 次尝试
+                  </span>
+                )}
+              </div>
+              {step.result && (
+                <div className="ml-7 mt-0.5 text-[11px] leading-snug text-zinc-500">
+                  {step.result}
+                </div>
+              )}
             </div>
           ))}
         </div>
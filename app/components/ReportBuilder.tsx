@@ -0,0 +1,265 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { flushSync } from "react-dom";
+import { createRoot } from "react-dom/client";
+import type { Message } from "../hooks/useChat";
+import { downloadBlob } from "../lib/download";
+import { collectReport, type ReportItem, type ReportSection } from "../lib/report";
+import { ReportDocument } from "./ReportDocument";
+
+interface ReportBuilderProps {
+  messages: Message[];
+  onClose: () => void;
+}
+
+// The exported page carries its own styles: it has to render the same
+// opened from disk, offline and when printed to PDF
+const REPORT_CSS = `
+body { margin: 0; background: #f4f4f5; color: #18181b; font: 15px/1.7 -apple-system, BlinkMacSystemFont, "Segoe UI", "PingFang SC", "Microsoft YaHei", sans-serif; }
+article { max-width: 860px; margin: 0 auto; padding: 48px 56px; background: #fff; }
+header { border-bottom: 2px solid #4f46e5; margin-bottom: 32px; padding-bottom: 16px; }
+h1 { margin: 0 0 4px; font-size: 28px; }
+h2 { margin: 40px 0 16px; font-size: 20px; border-bottom: 1px solid #e4e4e7; padding-bottom: 6px; }
+h3 { margin: 24px 0 8px; font-size: 15px; color: #4f46e5; }
+a { color: #4f46e5; }
+.meta, .caption, figcaption { color: #71717a; font-size: 12px; }
+.toc ol { padding-left: 20px; }
+.narrative table, .plan, .output-table table { border-collapse: collapse; margin: 12px 0; font-size: 13px; }
+.narrative th, .narrative td, .plan th, .plan td, .output-table th, .output-table td { border: 1px solid #e4e4e7; padding: 4px 10px; text-align: left; }
+th { background: #f4f4f5; }
+.plan .status-failed td { color: #dc2626; }
+.plan .status-skipped td { color: #a1a1aa; }
+.output-table { overflow-x: auto; }
+pre { overflow-x: auto; padding: 12px; border-radius: 6px; background: #f4f4f5; font: 12px/1.5 ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; white-space: pre-wrap; }
+.appendix pre { background: #18181b; color: #f4f4f5; }
+figure { margin: 20px 0; text-align: center; }
+figure img { max-width: 100%; }
+.file { margin: 8px 0; }
+.source { margin-left: 6px; font-size: 12px; }
+@media print {
+  body { background: #fff; }
+  article { max-width: none; padding: 0; }
+  figure, table, pre { break-inside: avoid; }
+  .appendix { break-before: page; }
+  .source { display: none; }
+}
+`;
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/** Render the report into a standalone HTML page. */
+function renderReportHtml(props: Parameters<typeof ReportDocument>[0]): string {
+  const container = document.createElement("div");
+  const root = createRoot(container);
+  flushSync(() => root.render(<ReportDocument {...props} />));
+  const body = container.innerHTML;
+  root.unmount();
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(props.title)}</title>
+<style>${REPORT_CSS}</style>
+</head>
+<body>${body}</body>
+</html>`;
+}
+
+/** Open the browser's print dialog on the report, where it can be saved as PDF. */
+function printReport(html: string) {
+  const frame = document.createElement("iframe");
+  frame.style.position = "fixed";
+  frame.style.width = "0";
+  frame.style.height = "0";
+  frame.style.border = "0";
+  frame.srcdoc = html;
+  frame.onload = () => {
+    const win = frame.contentWindow;
+    if (!win) return;
+    win.addEventListener("afterprint", () => frame.remove());
+    win.focus();
+    win.print();
+  };
+  document.body.appendChild(frame);
+}
+
+const KIND_LABELS: Record<ReportItem["kind"], string> = {
+  narrative: "📝 说明",
+  plan: "📋 计划",
+  chart: "📊 图表",
+  table: "🔢 表格",
+  output: "🖥️ 输出",
+  file: "📎 文件",
+};
+
+function ItemSummary({ item }: { item: ReportItem }) {
+  switch (item.kind) {
+    case "narrative":
+      return <span className="truncate">{item.text.replace(/\s+/g, " ").slice(0, 120)}</span>;
+    case "plan":
+      return (
+        <span className="truncate">
+          {item.plan.steps.length} 个步骤，完成 {item.plan.steps.filter((s) => s.status === "completed").length} 个
+        </span>
+      );
+    case "chart":
+      return (
+        <>
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={item.src} alt="" className="h-10 rounded border border-zinc-200 bg-white dark:border-zinc-700" />
+          {item.name && <span className="truncate">{item.name}</span>}
+        </>
+      );
+    case "table":
+      return <span className="truncate text-zinc-400">HTML 表格</span>;
+    case "output":
+      return <span className="truncate font-mono text-xs">{item.text.split("\n")[0]}</span>;
+    case "file":
+      return <span className="truncate">{item.name}</span>;
+  }
+}
+
+/**
+ * Pick what goes into the analysis report, then export it as a single
+ * self-contained HTML file or print it to PDF.
+ */
+export function ReportBuilder({ messages, onClose }: ReportBuilderProps) {
+  const sections = useMemo(() => collectReport(messages), [messages]);
+  const [title, setTitle] = useState("数据分析报告");
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [includeToc, setIncludeToc] = useState(true);
+  const [includeCode, setIncludeCode] = useState(true);
+
+  const toggle = (ids: string[], include: boolean) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      for (const id of ids) {
+        if (include) next.delete(id);
+        else next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const chosen: ReportSection[] = sections
+    .map((s) => ({ ...s, items: s.items.filter((item) => !excluded.has(item.id)) }))
+    .filter((s) => s.items.length > 0);
+  const itemCount = chosen.reduce((sum, s) => sum + s.items.length, 0);
+
+  const render = () =>
+    renderReportHtml({
+      title: title.trim() || "数据分析报告",
+      sections: chosen,
+      includeToc,
+      includeCode,
+      generatedAt: Date.now(),
+    });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        className="flex max-h-[90vh] w-full max-w-3xl flex-col overflow-hidden rounded-2xl bg-white shadow-2xl dark:bg-zinc-900"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between border-b border-zinc-200 px-6 py-4 dark:border-zinc-800">
+          <div className="font-semibold text-zinc-900 dark:text-zinc-100">📑 生成分析报告</div>
+          <button
+            onClick={onClose}
+            className="flex h-8 w-8 items-center justify-center rounded-lg text-zinc-400 transition-colors hover:bg-zinc-100 hover:text-zinc-600 dark:hover:bg-zinc-800 dark:hover:text-zinc-300"
+            aria-label="Close report builder"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Options */}
+        <div className="flex flex-wrap items-center gap-3 border-b border-zinc-200 px-6 py-3 text-sm dark:border-zinc-800">
+          <input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="报告标题"
+            className="min-w-0 flex-1 rounded-lg border border-zinc-200 bg-white px-3 py-1.5 text-zinc-900 focus:border-indigo-400 focus:outline-none dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-100"
+          />
+          <label className="flex items-center gap-1.5 text-zinc-600 dark:text-zinc-400">
+            <input type="checkbox" checked={includeToc} onChange={(e) => setIncludeToc(e.target.checked)} className="accent-indigo-600" />
+            目录
+          </label>
+          <label className="flex items-center gap-1.5 text-zinc-600 dark:text-zinc-400">
+            <input type="checkbox" checked={includeCode} onChange={(e) => setIncludeCode(e.target.checked)} className="accent-indigo-600" />
+            代码附录
+          </label>
+        </div>
+
+        {/* Items */}
+        <div className="flex-1 space-y-4 overflow-y-auto px-6 py-4">
+          {sections.length === 0 ? (
+            <div className="py-8 text-center text-sm text-zinc-500 dark:text-zinc-400">
+              对话中还没有可以放入报告的内容
+            </div>
+          ) : (
+            sections.map((section) => {
+              const ids = section.items.map((item) => item.id);
+              const allIncluded = ids.every((id) => !excluded.has(id));
+              return (
+                <div key={section.id}>
+                  <label className="mb-1 flex items-center gap-2 text-sm font-medium text-zinc-800 dark:text-zinc-200">
+                    <input
+                      type="checkbox"
+                      checked={allIncluded}
+                      onChange={() => toggle(ids, !allIncluded)}
+                      className="accent-indigo-600"
+                    />
+                    <span className="truncate">{section.title}</span>
+                  </label>
+                  <ul className="ml-6 space-y-0.5">
+                    {section.items.map((item) => (
+                      <li key={item.id}>
+                        <label className="flex cursor-pointer items-center gap-2 rounded px-1 py-0.5 text-xs text-zinc-600 hover:bg-zinc-50 dark:text-zinc-400 dark:hover:bg-zinc-800">
+                          <input
+                            type="checkbox"
+                            checked={!excluded.has(item.id)}
+                            onChange={(e) => toggle([item.id], e.target.checked)}
+                            className="accent-indigo-600"
+                          />
+                          <span className="w-16 shrink-0">{KIND_LABELS[item.kind]}</span>
+                          <ItemSummary item={item} />
+                        </label>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center justify-between border-t border-zinc-200 px-6 py-3 dark:border-zinc-800">
+          <span className="text-xs text-zinc-500 dark:text-zinc-400">已选 {itemCount} 项</span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => printReport(render())}
+              disabled={itemCount === 0}
+              className="rounded-lg bg-white px-4 py-1.5 text-sm font-medium text-zinc-600 shadow-sm ring-1 ring-inset ring-zinc-300 transition-all hover:bg-zinc-50 hover:text-zinc-900 disabled:opacity-50 dark:bg-transparent dark:text-zinc-300 dark:ring-zinc-700 dark:hover:bg-zinc-800"
+              title="在打印对话框中选择「另存为 PDF」"
+            >
+              导出 PDF
+            </button>
+            <button
+              onClick={() => downloadBlob(render(), `analysis-report-${Date.now()}.html`, "text/html")}
+              disabled={itemCount === 0}
+              className="rounded-lg bg-indigo-600 px-4 py-1.5 text-sm font-medium text-white shadow-sm transition-all hover:bg-indigo-700 disabled:opacity-50"
+            >
+              导出 HTML
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
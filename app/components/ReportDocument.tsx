@@ -0,0 +1,186 @@
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import type { PlanStep } from "../hooks/useChat";
+import { MAX_EMBEDDED_FILE_SIZE, type ReportItem, type ReportSection } from "../lib/report";
+import { sanitizeHtml } from "../lib/sanitize-html";
+
+interface ReportDocumentProps {
+  title: string;
+  /** Sections with only the items chosen for the report */
+  sections: ReportSection[];
+  includeToc: boolean;
+  includeCode: boolean;
+  generatedAt: number;
+}
+
+const STEP_STATUS: Record<PlanStep["status"], string> = {
+  pending: "○ 未开始",
+  in_progress: "◐ 进行中",
+  completed: "✓ 完成",
+  failed: "✗ 失败",
+  skipped: "↷ 跳过",
+};
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * The analysis report as static markup, styled by the stylesheet of the
+ * exported HTML page (see `ReportBuilder`). Charts are numbered across the
+ * report and point to the code in the appendix that produced them.
+ */
+export function ReportDocument({ title, sections, includeToc, includeCode, generatedAt }: ReportDocumentProps) {
+  // Appendix labels (A1, A2, …) for code that produced an included item,
+  // and figure numbers across the report
+  const codeLabels = new Map<string, string>();
+  const figures = new Map<string, number>();
+  for (const section of sections) {
+    for (const code of section.code) {
+      if (section.items.some((item) => "codeId" in item && item.codeId === code.id)) {
+        codeLabels.set(code.id, `A${codeLabels.size + 1}`);
+      }
+    }
+    for (const item of section.items) {
+      if (item.kind === "chart") figures.set(item.id, figures.size + 1);
+    }
+  }
+
+  const source = (codeId: string) =>
+    includeCode && codeLabels.has(codeId) ? (
+      <a href={`#${codeId}`} className="source">
+        代码 {codeLabels.get(codeId)}
+      </a>
+    ) : null;
+
+  const renderItem = (item: ReportItem) => {
+    switch (item.kind) {
+      case "narrative":
+        return (
+          <div key={item.id} className="narrative">
+            <ReactMarkdown remarkPlugins={[remarkGfm]}>{item.text}</ReactMarkdown>
+          </div>
+        );
+      case "plan":
+        return (
+          <table key={item.id} className="plan">
+            <thead>
+              <tr>
+                <th>#</th>
+                <th>步骤</th>
+                <th>状态</th>
+                <th>结果</th>
+              </tr>
+            </thead>
+            <tbody>
+              {item.plan.steps.map((step, i) => (
+                <tr key={step.id} className={`status-${step.status}`}>
+                  <td>{i + 1}</td>
+                  <td>{step.title}</td>
+                  <td>{STEP_STATUS[step.status]}</td>
+                  <td>{step.result ?? ""}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        );
+      case "chart":
+        return (
+          <figure key={item.id}>
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={item.src} alt={item.name ?? `图 ${figures.get(item.id)}`} />
+            <figcaption>
+              图 {figures.get(item.id)}
+              {item.name && ` · ${item.name}`} {source(item.codeId)}
+            </figcaption>
+          </figure>
+        );
+      case "table":
+        return (
+          <div key={item.id} className="output-table">
+            <div dangerouslySetInnerHTML={{ __html: sanitizeHtml(item.html) }} />
+            <div className="caption">{source(item.codeId)}</div>
+          </div>
+        );
+      case "output":
+        return (
+          <div key={item.id} className="output">
+            <pre>{item.text}</pre>
+            <div className="caption">{source(item.codeId)}</div>
+          </div>
+        );
+      case "file":
+        return (
+          <div key={item.id} className="file">
+            📎{" "}
+            {item.size <= MAX_EMBEDDED_FILE_SIZE && item.content ? (
+              <a href={`data:application/octet-stream;base64,${item.content}`} download={item.name}>
+                {item.name}
+              </a>
+            ) : (
+              <span>{item.name}</span>
+            )}{" "}
+            <span className="caption">
+              {formatFileSize(item.size)} {source(item.codeId)}
+            </span>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <article>
+      <header>
+        <h1>{title}</h1>
+        <div className="meta">生成于 {new Date(generatedAt).toLocaleString()} · Next Analyst</div>
+      </header>
+
+      {includeToc && sections.length > 1 && (
+        <nav className="toc">
+          <h2>目录</h2>
+          <ol>
+            {sections.map((section) => (
+              <li key={section.id}>
+                <a href={`#${section.id}`}>{section.title}</a>
+              </li>
+            ))}
+            {includeCode && codeLabels.size > 0 && (
+              <li>
+                <a href="#appendix">附录：代码</a>
+              </li>
+            )}
+          </ol>
+        </nav>
+      )}
+
+      {sections.map((section, i) => (
+        <section key={section.id} id={section.id}>
+          <h2>
+            {i + 1}. {section.title}
+          </h2>
+          {section.items.map(renderItem)}
+        </section>
+      ))}
+
+      {includeCode && codeLabels.size > 0 && (
+        <section id="appendix" className="appendix">
+          <h2>附录：代码</h2>
+          {sections.flatMap((section) =>
+            section.code
+              .filter((code) => codeLabels.has(code.id))
+              .map((code) => (
+                <div key={code.id} id={code.id} className="code">
+                  <h3>{codeLabels.get(code.id)}</h3>
+                  <pre>
+                    <code>{code.code}</code>
+                  </pre>
+                </div>
+              ))
+          )}
+        </section>
+      )}
+    </article>
+  );
+}
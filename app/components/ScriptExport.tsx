@@ -0,0 +1,113 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { FileAttachment, Message } from "../hooks/useChat";
+import { downloadBlob } from "../lib/download";
+import { buildReproducibleScript } from "../lib/script-export";
+
+interface ScriptExportProps {
+  messages: Message[];
+  sessionFiles: FileAttachment[];
+  title: string;
+  onClose: () => void;
+}
+
+const FILES = {
+  script: { name: "analysis.py", type: "text/x-python" },
+  requirements: { name: "requirements.txt", type: "text/plain" },
+} as const;
+
+/**
+ * Preview and download the completed plan as a standalone Python script
+ * with its requirements file.
+ */
+export function ScriptExport({ messages, sessionFiles, title, onClose }: ScriptExportProps) {
+  const exported = useMemo(
+    () => buildReproducibleScript(messages, sessionFiles, title),
+    [messages, sessionFiles, title]
+  );
+  const [tab, setTab] = useState<keyof typeof FILES>("script");
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        className="flex max-h-[90vh] w-full max-w-3xl flex-col overflow-hidden rounded-2xl bg-white shadow-2xl dark:bg-zinc-900"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between border-b border-zinc-200 px-6 py-4 dark:border-zinc-800">
+          <div className="font-semibold text-zinc-900 dark:text-zinc-100">🐍 导出可复现脚本</div>
+          <button
+            onClick={onClose}
+            className="flex h-8 w-8 items-center justify-center rounded-lg text-zinc-400 transition-colors hover:bg-zinc-100 hover:text-zinc-600 dark:hover:bg-zinc-800 dark:hover:text-zinc-300"
+            aria-label="Close script export"
+          >
+            ✕
+          </button>
+        </div>
+
+        {!exported ? (
+          <div className="px-6 py-12 text-center text-sm text-zinc-500 dark:text-zinc-400">
+            还没有执行过代码的已完成计划步骤
+          </div>
+        ) : (
+          <>
+            {/* Steps */}
+            <div className="border-b border-zinc-200 px-6 py-3 text-xs text-zinc-600 dark:border-zinc-800 dark:text-zinc-400">
+              <div className="mb-1 font-medium text-zinc-800 dark:text-zinc-200">包含的步骤</div>
+              <ol className="list-inside list-decimal space-y-0.5">
+                {exported.steps.map((step, i) => (
+                  <li key={i}>
+                    {step.title}
+                    <span className="text-zinc-400"> · {step.runs} 段代码</span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+
+            {/* Files */}
+            <div className="flex gap-1 px-6 pt-3">
+              {(Object.keys(FILES) as Array<keyof typeof FILES>).map((key) => (
+                <button
+                  key={key}
+                  onClick={() => setTab(key)}
+                  className={`rounded-t-lg px-3 py-1.5 font-mono text-xs transition-colors ${
+                    tab === key
+                      ? "bg-zinc-900 text-zinc-100 dark:bg-zinc-800"
+                      : "text-zinc-500 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+                  }`}
+                >
+                  {FILES[key].name}
+                </button>
+              ))}
+            </div>
+            <pre className="mx-6 flex-1 overflow-auto rounded-b-lg rounded-tr-lg bg-zinc-900 p-4 font-mono text-xs leading-relaxed text-zinc-100 dark:bg-zinc-800">
+              {exported[tab]}
+            </pre>
+
+            {/* Actions */}
+            <div className="flex items-center justify-between px-6 py-3">
+              <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                运行：python analysis.py --data-dir 数据文件目录
+              </span>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => downloadBlob(exported.requirements, FILES.requirements.name, FILES.requirements.type)}
+                  className="rounded-lg bg-white px-4 py-1.5 text-sm font-medium text-zinc-600 shadow-sm ring-1 ring-inset ring-zinc-300 transition-all hover:bg-zinc-50 hover:text-zinc-900 dark:bg-transparent dark:text-zinc-300 dark:ring-zinc-700 dark:hover:bg-zinc-800"
+                >
+                  下载 requirements.txt
+                </button>
+                <button
+                  onClick={() => downloadBlob(exported.script, FILES.script.name, FILES.script.type)}
+                  className="rounded-lg bg-indigo-600 px-4 py-1.5 text-sm font-medium text-white shadow-sm transition-all hover:bg-indigo-700"
+                >
+                  下载 analysis.py
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
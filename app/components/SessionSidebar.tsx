@@ -0,0 +1,161 @@
+"use client";
+
+import { useState, useRef, memo, type ReactNode } from "react";
+import type { SessionSummary } from "../hooks/useChat";
+import { DATA_FILE_ACCEPT } from "../lib/data-formats";
+
+interface SessionSidebarProps {
+  sessions: SessionSummary[];
+  currentSessionId: string | null;
+  disabled?: boolean;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  /** Start a session from a `.ipynb` file, with any data files picked along */
+  onImport: (files: File[]) => void;
+  /** Extra panel pinned to the bottom of the sidebar. */
+  children?: ReactNode;
+}
+
+function formatUpdatedAt(timestamp: number): string {
+  const date = new Date(timestamp);
+  const now = new Date();
+  if (date.toDateString() === now.toDateString()) {
+    return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  }
+  return date.toLocaleDateString();
+}
+
+export const SessionSidebar = memo(function SessionSidebar({
+  sessions,
+  currentSessionId,
+  disabled,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+  onImport,
+  children,
+}: SessionSidebarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+
+  const startEditing = (session: SessionSummary) => {
+    setEditingId(session.id);
+    setDraftTitle(session.title);
+  };
+
+  const commitEditing = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <aside className="hidden w-60 shrink-0 flex-col border-r border-zinc-200 bg-white/60 md:flex dark:border-zinc-800 dark:bg-zinc-900/60">
+      <div className="p-3">
+        <button
+          onClick={onNew}
+          disabled={disabled}
+          className="w-full rounded-lg border border-dashed border-zinc-300 px-3 py-2 text-xs font-medium text-zinc-600 transition-all hover:border-indigo-300 hover:bg-indigo-50 hover:text-indigo-600 disabled:opacity-50 dark:border-zinc-700 dark:text-zinc-400 dark:hover:border-indigo-700 dark:hover:bg-indigo-950/30"
+        >
+          + 新建分析
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          multiple
+          accept={`.ipynb,${DATA_FILE_ACCEPT}`}
+          onChange={(e) => {
+            if (e.target.files?.length) onImport(Array.from(e.target.files));
+            e.target.value = "";
+          }}
+          className="hidden"
+        />
+        <button
+          onClick={() => importInputRef.current?.click()}
+          disabled={disabled}
+          className="mt-1.5 w-full rounded-lg px-3 py-1.5 text-xs text-zinc-500 transition-all hover:bg-zinc-100 hover:text-zinc-700 disabled:opacity-50 dark:text-zinc-400 dark:hover:bg-zinc-800 dark:hover:text-zinc-300"
+          title="选择一个 .ipynb 文件，可同时选择它用到的数据文件"
+        >
+          📓 导入 Notebook
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-2 pb-3">
+        {sessions.length === 0 ? (
+          <div className="px-2 py-4 text-center text-xs text-zinc-400">
+            暂无历史分析
+          </div>
+        ) : (
+          <ul className="space-y-0.5">
+            {sessions.map((session) => {
+              const isActive = session.id === currentSessionId;
+              return (
+                <li key={session.id}>
+                  {editingId === session.id ? (
+                    <input
+                      autoFocus
+                      value={draftTitle}
+                      onChange={(e) => setDraftTitle(e.target.value)}
+                      onBlur={commitEditing}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") commitEditing();
+                        if (e.key === "Escape") setEditingId(null);
+                      }}
+                      className="w-full rounded-lg border border-indigo-300 bg-white px-2 py-1.5 text-xs outline-none dark:border-indigo-700 dark:bg-zinc-900 dark:text-zinc-200"
+                    />
+                  ) : (
+                    <div
+                      onClick={() => !disabled && onSelect(session.id)}
+                      className={`group flex cursor-pointer items-center gap-1 rounded-lg px-2 py-1.5 text-xs transition-colors ${
+                        isActive
+                          ? "bg-indigo-50 text-indigo-700 dark:bg-indigo-950/40 dark:text-indigo-300"
+                          : "text-zinc-600 hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-zinc-800"
+                      } ${disabled ? "cursor-not-allowed opacity-60" : ""}`}
+                      title={session.title}
+                    >
+                      <div className="min-w-0 flex-1">
+                        <div className="truncate font-medium">{session.title}</div>
+                        <div className="text-[10px] text-zinc-400">
+                          {formatUpdatedAt(session.updatedAt)} · {session.messageCount} 条消息
+                        </div>
+                      </div>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          startEditing(session);
+                        }}
+                        className="hidden rounded px-1 text-zinc-400 hover:text-zinc-700 group-hover:block dark:hover:text-zinc-200"
+                        aria-label="Rename session"
+                        title="重命名"
+                      >
+                        ✎
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          if (confirm(`删除「${session.title}」？`)) onDelete(session.id);
+                        }}
+                        className="hidden rounded px-1 text-zinc-400 hover:text-red-600 group-hover:block"
+                        aria-label="Delete session"
+                        title="删除"
+                      >
+                        ×
+                      </button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      {children}
+    </aside>
+  );
+});
@@ -6,13 +6,74 @@ interface ToolCallCardProps {
   toolCall: ToolCall;
 }
 
+interface KnowledgeHit {
+  rank: number;
+  score: number;
+  source: string;
+  label?: string;
+  snippet: string;
+}
+
+function KnowledgeResults({ query, hits, message }: { query: string; hits: KnowledgeHit[]; message?: string }) {
+  return (
+    <div className="my-2 rounded-xl border border-indigo-100 bg-indigo-50/50 p-3 dark:border-indigo-900/30 dark:bg-indigo-950/20">
+      <div className="mb-2 flex items-center gap-2 text-xs font-medium text-indigo-600 dark:text-indigo-400">
+        <span className="flex h-5 w-5 items-center justify-center rounded bg-indigo-100 text-[10px] dark:bg-indigo-900/50">
+          📚
+        </span>
+        <span>知识库检索: {query}</span>
+        <span className="text-indigo-400/80">· {hits.length} 条结果</span>
+      </div>
+      {hits.length === 0 ? (
+        <div className="text-xs text-zinc-500">{message || "没有找到相关内容"}</div>
+      ) : (
+        <ol className="space-y-1.5">
+          {hits.map((hit) => (
+            <li
+              key={`${hit.rank}-${hit.source}`}
+              className="rounded-lg bg-white/70 p-2 text-xs dark:bg-black/30"
+            >
+              <div className="mb-0.5 flex items-center gap-1.5 text-[11px] text-zinc-500 dark:text-zinc-400">
+                <span className="rounded bg-indigo-100 px-1 font-medium text-indigo-600 dark:bg-indigo-900/50 dark:text-indigo-300">
+                  {hit.rank}
+                </span>
+                <span className="truncate font-medium text-zinc-700 dark:text-zinc-300">
+                  {hit.source}
+                </span>
+                {hit.label && <span className="truncate">› {hit.label}</span>}
+              </div>
+              <div className="whitespace-pre-wrap text-zinc-600 dark:text-zinc-400">
+                {hit.snippet}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
 export function ToolCallCard({ toolCall }: ToolCallCardProps) {
   const { tool, args, result } = toolCall;
 
-  if (tool === "confirm_action" || tool === "ask_for_information") {
+  if (
+    tool === "confirm_action" ||
+    tool === "ask_for_information" ||
+    tool === "present_analysis_options"
+  ) {
     return null; // Handled by dedicated cards
   }
 
+  if (tool === "search_knowledge" && result?.type === "search_result") {
+    return (
+      <KnowledgeResults
+        query={String(result.query ?? args.query ?? "")}
+        hits={(result.results as KnowledgeHit[]) || []}
+        message={result.message as string | undefined}
+      />
+    );
+  }
+
   return (
     <div className="my-2 rounded-xl border border-indigo-100 bg-indigo-50/50 p-3 dark:border-indigo-900/30 dark:bg-indigo-950/20">
       <div className="mb-1 flex items-center gap-2 text-xs font-medium text-indigo-600 dark:text-indigo-400">
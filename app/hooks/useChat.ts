@@ -1,15 +1,93 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
+import { uploadFileInChunks } from "../lib/chunked-upload";
+import { buildLineage, type FileLineage } from "../lib/lineage";
+import { generateUUID } from "../lib/uuid";
+import { dataFileMimeType, detectDataFormat, type DataFormat } from "../lib/data-formats";
+import { toAttachments } from "../lib/file-attachments";
+import { isPlanComplete } from "../api/chat/plan-updates";
+import { notebookToMessages, parseNotebook, referencedDataFiles } from "../lib/notebook";
+
+export interface CsvDialect {
+  encoding: string;
+  sep: string;
+  quotechar: string;
+  /** Preamble lines before the header row */
+  skiprows: number;
+  hasHeader: boolean;
+  decimal: string;
+  /** Thousands separator, when numbers are grouped ("1,234") */
+  thousands?: string | null;
+}
+
+export type ColumnSemanticType =
+  | "numeric"
+  | "identifier"
+  | "datetime"
+  | "categorical"
+  | "boolean"
+  | "text"
+  | "constant"
+  | "unknown";
+
+/** Per-column facts computed by the preview on the sampled rows */
+export interface ColumnProfile {
+  name: string;
+  dtype: string;
+  nonNull: number;
+  unique: number;
+  topValues: Array<{ value: string; count: number }>;
+  numeric?: {
+    min: number | null;
+    max: number | null;
+    mean: number | null;
+    std: number | null;
+    integer: boolean;
+    histogram: { edges: Array<number | null>; counts: number[] };
+  };
+  datetime?: { min: string; max: string };
+  stringLength?: { min: number; max: number; mean: number; median: number };
+  /** Share of sampled strings that parse as dates */
+  dateParseRatio?: number;
+  semanticType: ColumnSemanticType;
+  error?: string;
+}
+
+/** One sheet, database table or archive member of a multi-table file */
+export interface TablePreview {
+  name: string;
+  shape: [number, number];
+  columns: string[];
+  dtypes: Record<string, string>;
+  head: string;
+  describe: string;
+  null_counts: Record<string, number>;
+  columnProfiles?: ColumnProfile[];
+  /** Archive members that could not be read */
+  error?: string;
+}
 
 export interface FilePreview {
   fileName: string;
+  format?: DataFormat;
   shape: [number, number];
   columns: string[];
   dtypes: Record<string, string>;
   head: string;
   describe: string;
   null_counts: Record<string, number>;
+  columnProfiles?: ColumnProfile[];
+  /** Excel / SQLite / ZIP: every table (at most 20); the fields above mirror the first non-empty one */
+  tables?: TablePreview[];
+  /** Number of tables in the file, including any not previewed */
+  tableCount?: number;
+  /** CSV/TSV/TXT only: the sniffed read_csv arguments the preview parsed with */
+  csvDialect?: CsvDialect;
+  /** Set when the file only loaded with a non-default call (e.g. Arrow IPC streams) */
+  readCall?: string;
+  /** SPSS / Stata variable labels by column */
+  columnLabels?: Record<string, string>;
 }
 
 export interface FileAttachment {
@@ -17,12 +95,21 @@ export interface FileAttachment {
   name: string;
   type: string;
   size: number;
+  /** Base64 body; empty for uploads kept in the server file store */
   content: string;
+  /** Server file store handle, set once the upload finishes */
+  handle?: string;
+  /** Browser file waiting to be uploaded (dropped after the upload) */
+  source?: File;
+  /** Share of the file stored on the server (0–1) while uploading */
+  uploadProgress?: number;
   preview: string;
   richPreview?: FilePreview;
   isPreviewing?: boolean;
   previewError?: string;
   isGenerated?: boolean;
+  /** How a generated file was produced */
+  lineage?: FileLineage;
 }
 
 export interface MessagePart {
@@ -37,14 +124,32 @@ export interface Plan {
   steps: PlanStep[];
   currentStepIndex: number;
   isComplete: boolean;
+  revision?: number;
+  revisions?: PlanRevision[];
 }
 
 export interface PlanStep {
   id: string;
   title: string;
   description?: string;
-  status: "pending" | "in_progress" | "completed" | "failed";
+  status: "pending" | "in_progress" | "completed" | "failed" | "skipped";
   result?: string;
+  attempts?: number;
+  addedInRevision?: number;
+}
+
+export interface PlanRevision {
+  revision: number;
+  action: "insert_step" | "skip_step" | "retry_step" | "move_step" | "set_result";
+  stepId: string;
+  note?: string;
+  at: number;
+}
+
+export interface AnalysisOption {
+  name: string;
+  reason: string;
+  priority: number;
 }
 
 export interface Message {
@@ -58,27 +163,445 @@ export interface Message {
   isStreaming?: boolean;
 }
 
+export interface SessionSummary {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+}
+
+/**
+ * When `execute_python` may run without a click: never, only for code that
+ * just reads and analyzes data, or always (for the current session).
+ */
+export type ApprovalPolicy = "always_ask" | "auto_read_only" | "auto_all";
+
+export type CodeRiskCategory =
+  | "subprocess"
+  | "shell"
+  | "network"
+  | "package_install"
+  | "file_deletion"
+  | "infinite_loop"
+  | "dynamic_code"
+  | "file_access"
+  | "system_access"
+  | "file_write";
+
+export interface CodeRiskFinding {
+  category: CodeRiskCategory;
+  severity: "low" | "medium" | "high";
+  line: number;
+  snippet: string;
+  message: string;
+}
+
+/** Static analysis of pending code, computed by the server before execution. */
+export interface CodeRiskReport {
+  level: "none" | "low" | "medium" | "high";
+  findings: CodeRiskFinding[];
+  blockedCategories: CodeRiskCategory[];
+}
+
 export interface ToolCall {
+  /** LLM tool call id — used to resume the interrupted server thread */
+  id?: string;
   tool: string;
   args: Record<string, unknown>;
   status: "pending" | "approved" | "rejected" | "completed";
+  /** Ran on the server under the approval policy, without a click */
+  autoApproved?: boolean;
+  riskReport?: CodeRiskReport;
+  /** Output streamed so far while the code is running */
+  liveOutput?: LiveOutput;
+  /** Wall-clock execution time of a streamed run */
+  elapsedMs?: number;
+  /** Set on an automatic fix: the failed call it repairs and its attempt number */
+  repair?: { rootToolCallId: string; attempt: number };
+  /** Automatic fixes of this (failed) call, in order */
+  repairAttempts?: ToolCall[];
+  /** Plan step in progress when the call completed */
+  stepId?: string;
   result?: {
     type: string;
     [key: string]: unknown;
   };
-  // Plan context for HITL continuation
-  planContext?: {
-    plan: Plan;
-    currentStepIndex: number;
+}
+
+export interface LiveOutput {
+  stdout: string;
+  stderr: string;
+  results: Array<{ text?: string; png?: string; html?: string }>;
+}
+
+/** The user's answer to a `confirm_action` request. */
+export interface ConfirmationDecision {
+  decision: "approve" | "deny";
+  note?: string;
+}
+
+/** Audit trail entry: one decided confirmation, kept with the session. */
+export interface ConfirmationRecord extends ConfirmationDecision {
+  toolCallId: string;
+  action: string;
+  description: string;
+  decidedAt: number;
+}
+
+export type InformationAnswerType =
+  | "text"
+  | "single_choice"
+  | "multi_choice"
+  | "number"
+  | "date_range"
+  | "columns"
+  | "yes_no";
+
+/**
+ * A submitted `ask_for_information` form. `value` follows `answerType`:
+ * text / single_choice → string, multi_choice / columns → string[],
+ * number → number, date_range → { from, to }, yes_no → boolean.
+ */
+export interface InformationAnswer {
+  answerType: InformationAnswerType;
+  value: string | number | boolean | string[] | { from: string; to: string };
+  /** columns: the file the columns were picked from */
+  file?: string;
+}
+
+/** What an interrupted server thread is resumed with (see `/api/chat`). */
+type ThreadResume =
+  | { results: Record<string, unknown> }
+  | {
+      decisions: Record<string, ConfirmationDecision>;
+      answers: Record<string, InformationAnswer>;
+    };
+
+/** Tools whose pending calls wait for the user's input rather than a run. */
+const USER_INPUT_TOOLS = new Set(["confirm_action", "ask_for_information"]);
+
+// Longest code result repeated when a lost thread is re-seeded
+const RESEED_RESULT_LENGTH = 4000;
+
+/** What the interrupted turn was resumed with, as a user message for the model. */
+function describeResume(base: Message, resume: ThreadResume): string {
+  const call = (id: string) => base.toolCalls?.find((t) => t.id === id);
+  const lines = ["（会话已恢复，服务器上的对话状态已失效。上一条回复中等待处理的请求结果如下）"];
+  if ("results" in resume) {
+    for (const [id, value] of Object.entries(resume.results)) {
+      const result = value as Record<string, unknown>;
+      const output = [
+        result.stdout && `标准输出:\n${result.stdout}`,
+        result.error && `错误: ${result.error}`,
+        ...((result.results as LiveOutput["results"] | undefined) ?? []).map((r) =>
+          r.png ? "[生成了图表]" : r.text ?? (r.html ? "[生成了HTML内容]" : "")
+        ),
+      ]
+        .filter(Boolean)
+        .join("\n");
+      lines.push(
+        `已执行代码:\n\`\`\`python\n${call(id)?.args.code ?? ""}\n\`\`\`\n` +
+          (output ? output.slice(0, RESEED_RESULT_LENGTH) : "没有输出。")
+      );
+    }
+  } else {
+    for (const [id, decision] of Object.entries(resume.decisions)) {
+      const note = decision.note ? `，备注：${decision.note}` : "";
+      lines.push(`确认「${call(id)?.args.action ?? ""}」：${decision.decision === "approve" ? "已确认" : "已拒绝"}${note}`);
+    }
+    for (const [id, answer] of Object.entries(resume.answers)) {
+      lines.push(`问题「${call(id)?.args.question ?? ""}」的回答：${JSON.stringify(answer.value)}`);
+    }
+  }
+  return lines.join("\n\n");
+}
+
+/**
+ * Request history that starts a thread the server no longer has (restored
+ * session, server restart or eviction): the conversation up to `base`,
+ * then the resolved input as a user message.
+ */
+function reseedHistory(messages: Message[], base: Message, resume: ThreadResume) {
+  const index = messages.findIndex((m) => m.id === base.id);
+  const before = index === -1 ? messages : messages.slice(0, index);
+  return [
+    ...[...before, base].map((m) => ({ role: m.role, content: m.content })),
+    { role: "user" as const, content: describeResume(base, resume) },
+  ];
+}
+
+/** Apply a change to the n-th tool call of a message, in both `toolCalls` and `parts`. */
+function updateToolCallAt(
+  message: Message,
+  toolCallIndex: number,
+  update: (toolCall: ToolCall) => ToolCall
+): Message {
+  let counter = 0;
+  return {
+    ...message,
+    toolCalls: message.toolCalls?.map((t, i) => (i === toolCallIndex ? update(t) : t)),
+    parts: message.parts?.map((part) => {
+      if (part.type !== "tool_call" || !part.toolCall) return part;
+      return counter++ === toolCallIndex ? { ...part, toolCall: update(part.toolCall) } : part;
+    }),
   };
 }
 
+/** An event of the chat stream; which fields are set depends on `type`. */
+interface ChatStreamEvent {
+  type: string;
+  content?: string;
+  // tool_call, pending_tool_call and analysis_options
+  toolCallId?: string;
+  tool?: string;
+  args?: Record<string, unknown>;
+  result?: ToolCall["result"];
+  autoApproved?: boolean;
+  riskReport?: CodeRiskReport;
+  repair?: ToolCall["repair"];
+  summary?: string;
+  options?: unknown;
+  // plan_created, plan_updated and plan_step_update
+  plan?: unknown;
+  stepIndex?: number;
+  status?: string;
+}
+
+/**
+ * Read an SSE body event by event. Unlike a per-chunk split, this keeps
+ * partial events across reads, which large payloads (charts) always produce.
+ */
+async function readEventStream<T = Record<string, unknown>>(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (data: T) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const chunk = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      if (!chunk.startsWith("data: ")) continue;
+      try {
+        onEvent(JSON.parse(chunk.slice(6)));
+      } catch {
+        // skip invalid JSON
+      }
+    }
+  }
+}
+
+/** Swap in a revised plan on the message that shows it (matched by plan id). */
+function replacePlan(messages: Message[], plan: Plan): Message[] {
+  let target = -1;
+  messages.forEach((m, i) => {
+    if (m.plan?.id === plan.id) target = i;
+  });
+  if (target === -1) return messages;
+  return messages.map((m, i) =>
+    i === target
+      ? {
+          ...m,
+          plan,
+          parts: m.parts?.map((p) => (p.type === "plan" ? { ...p, plan } : p)),
+        }
+      : m
+  );
+}
+
+/**
+ * Record a streamed tool call. An auto-approved `execute_python` result
+ * replaces the running card announced by `pending_tool_call` (same id), and
+ * an automatic fix joins the attempt chain of the call it repairs.
+ */
+function upsertToolCall(toolCalls: ToolCall[], parts: MessagePart[], toolCall: ToolCall): void {
+  const replace = (index: number, next: ToolCall) => {
+    const previousId = toolCalls[index].id;
+    toolCalls[index] = next;
+    const partIndex = parts.findIndex((p) => p.toolCall?.id === previousId);
+    if (partIndex !== -1) parts[partIndex] = { type: "tool_call", toolCall: next };
+  };
+
+  const rootIndex = toolCall.repair
+    ? toolCalls.findIndex((t) => t.id === toolCall.repair!.rootToolCallId)
+    : -1;
+  if (rootIndex !== -1) {
+    const root = toolCalls[rootIndex];
+    const attempts = [...(root.repairAttempts ?? [])];
+    const existing = attempts.findIndex((a) => a.id === toolCall.id);
+    if (existing === -1) attempts.push(toolCall);
+    else attempts[existing] = { ...attempts[existing], ...toolCall };
+    replace(rootIndex, { ...root, repairAttempts: attempts });
+    return;
+  }
+
+  const index = toolCall.id ? toolCalls.findIndex((t) => t.id === toolCall.id) : -1;
+  if (index === -1) {
+    toolCalls.push(toolCall);
+    parts.push({ type: "tool_call", toolCall });
+    return;
+  }
+  // Keep what the running card already knew (e.g. its risk report)
+  replace(index, { ...toolCalls[index], ...toolCall });
+}
+
+interface GeneratedFileInfo {
+  name: string;
+  content: string;
+  size: number;
+  richPreview?: FilePreview;
+}
+
+/**
+ * Turn files produced by a code execution into session attachments, with
+ * their lineage against the session files the code ran with.
+ */
+function toGeneratedAttachments(
+  result: unknown,
+  origin: { toolCallId?: string; step?: string },
+  files: FileAttachment[]
+): FileAttachment[] {
+  const record = result as Record<string, unknown> | null;
+  const genFiles = (record?.generatedFiles as GeneratedFileInfo[] | undefined) || [];
+  const code = typeof record?.code === "string" ? record.code : "";
+  return genFiles.map((gf) => {
+    const ext = gf.name.split(".").pop()?.toLowerCase() || "";
+    const mimeMap: Record<string, string> = {
+      png: "image/png", jpg: "image/jpeg", html: "text/html", md: "text/markdown",
+    };
+    return {
+      id: `gen-${Date.now()}-${Math.random().toString(36).slice(2)}-${gf.name}`,
+      name: gf.name,
+      type: dataFileMimeType(gf.name) || mimeMap[ext] || "application/octet-stream",
+      size: gf.size,
+      content: gf.content,
+      preview: "(代码执行生成的文件)",
+      richPreview: gf.richPreview as FilePreview | undefined,
+      isPreviewing: false,
+      isGenerated: true,
+      lineage: buildLineage(gf.name, code, files, origin),
+    };
+  });
+}
+
+/** The plan step currently running, if any. */
+function currentPlanStep(messages: Message[]): PlanStep | undefined {
+  const plan = [...messages].reverse().find((m) => m.plan)?.plan;
+  return plan?.steps.find((s) => s.status === "in_progress");
+}
+
+/** Lineage for the prompt; the code itself stays on the client. */
+function lineageContext(lineage: FileLineage | undefined) {
+  return lineage && { step: lineage.step, inputs: lineage.inputs, version: lineage.version };
+}
+
+/** Replace same-named session files with newly generated ones. */
+function mergeSessionFiles(files: FileAttachment[], generated: FileAttachment[]): FileAttachment[] {
+  if (generated.length === 0) return files;
+  const newNames = new Set(generated.map((f) => f.name));
+  return [...files.filter((f) => !newNames.has(f.name)), ...generated];
+}
+
+/** Files for an execution request: stored uploads by handle, the rest inline. */
+function toExecutionFiles(files: FileAttachment[]) {
+  return files
+    .filter((f) => f.handle || f.content)
+    .map((f) => (f.handle ? { name: f.name, handle: f.handle } : { name: f.name, content: f.content }));
+}
+
+/**
+ * Files the server uploads to the sandbox before an auto-approved run.
+ * Not sent at all while every execution goes through the client.
+ */
+function executionFilesFor(policy: ApprovalPolicy, files: FileAttachment[], autoRepair: boolean) {
+  if (policy === "always_ask" && !autoRepair) return undefined;
+  return toExecutionFiles(files);
+}
+
+const SAVE_DEBOUNCE_MS = 800;
+const SESSION_TITLE_LENGTH = 40;
+
+/**
+ * Prepare messages for the session store: drop transient UI flags and the
+ * base64 bodies of attached files (those live once in `sessionFiles`).
+ */
+function serializeMessages(messages: Message[]): Message[] {
+  return messages.map((m) => ({
+    ...m,
+    isStreaming: undefined,
+    files: m.files?.map((f) => ({ ...f, content: "", isPreviewing: false })),
+  }));
+}
+
 export function useChat() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [pendingFiles, setPendingFiles] = useState<FileAttachment[]>([]);
   const [sessionFiles, setSessionFiles] = useState<FileAttachment[]>([]);
   const [isPreviewingFiles, setIsPreviewingFiles] = useState(false);
+  const [approvalPolicy, setApprovalPolicy] = useState<ApprovalPolicy>("always_ask");
+  // Let the agent fix failed code on its own (bounded server-side)
+  const [autoRepair, setAutoRepair] = useState(false);
+  // Identifies this conversation's persistent sandbox session on the server
+  const [conversationId, setConversationId] = useState(() => generateUUID());
+  // Server-side persisted session currently shown (null until first save)
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  // Decided confirm_action requests of this session, oldest first
+  const [confirmations, setConfirmations] = useState<ConfirmationRecord[]>([]);
+  // Input held back until every confirmation / question of the same interrupt is answered
+  const userInputRef = useRef<{
+    decisions: Record<string, ConfirmationDecision>;
+    answers: Record<string, InformationAnswer>;
+  }>({ decisions: {}, answers: {} });
+  const sessionIdRef = useRef<string | null>(null);
+  // Latest messages for stream callbacks that outlive the render they started in
+  const messagesRef = useRef(messages);
+  const lastSavedRef = useRef<string>("");
+  // Bumped on every session switch so in-flight saves don't leak into the next session
+  const generationRef = useRef(0);
+  // Session create in flight for the current generation, if any
+  const creatingRef = useRef<{ generation: number; id: Promise<string | null> } | null>(null);
+
+  useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
+
+  const selectSession = useCallback((id: string | null) => {
+    sessionIdRef.current = id;
+    setSessionId(id);
+  }, []);
+
+  const refreshSessions = useCallback(async () => {
+    try {
+      const response = await fetch("/api/sessions");
+      const data = await response.json();
+      setSessions((data.sessions as SessionSummary[]) || []);
+    } catch {
+      // Listing is best-effort; the current chat still works
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshSessions();
+  }, [refreshSessions]);
+
+  // Store a selected file on the server chunk by chunk; returns its handle
+  const uploadFile = useCallback(
+    (id: string, source: File) =>
+      uploadFileInChunks(source, conversationId, (progress) => {
+        setPendingFiles((prev) =>
+          prev.map((f) => (f.id === id ? { ...f, uploadProgress: progress } : f))
+        );
+      }),
+    [conversationId]
+  );
 
   // Fetch rich preview (first 5 rows + dtypes + shape) from sandbox
   const fetchRichPreview = useCallback(async (file: FileAttachment) => {
@@ -87,7 +610,9 @@ export function useChat() {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          file: { name: file.name, content: file.content },
+          file: file.handle
+            ? { name: file.name, handle: file.handle }
+            : { name: file.name, content: file.content },
         }),
       });
       const data = await response.json();
@@ -109,10 +634,26 @@ export function useChat() {
 
       // Trigger sandbox preview for each data file
       setIsPreviewingFiles(true);
-      const previewPromises = filesWithFlag.map(async (file) => {
-        const ext = file.name.split(".").pop()?.toLowerCase() || "";
-        const dataExts = ["csv", "tsv", "txt", "json", "xlsx", "xls", "parquet"];
-        if (!dataExts.includes(ext)) {
+      const previewPromises = filesWithFlag.map(async (selected) => {
+        const { source, ...file } = selected;
+        if (source) {
+          try {
+            file.handle = await uploadFile(file.id, source);
+          } catch (err) {
+            const errMsg = err instanceof Error ? err.message : "Upload failed";
+            setPendingFiles((prev) =>
+              prev.map((f) =>
+                f.id === file.id
+                  ? { ...file, previewError: `上传失败: ${errMsg}`, isPreviewing: false }
+                  : f
+              )
+            );
+            return;
+          }
+          setPendingFiles((prev) => prev.map((f) => (f.id === file.id ? file : f)));
+        }
+
+        if (!detectDataFormat(file.name)) {
           // Not a data file, skip sandbox preview
           setPendingFiles((prev) =>
             prev.map((f) => (f.id === file.id ? { ...f, isPreviewing: false } : f))
@@ -139,7 +680,7 @@ export function useChat() {
         setIsPreviewingFiles(false);
       });
     },
-    [fetchRichPreview]
+    [fetchRichPreview, uploadFile]
   );
 
   const removeFile = useCallback((id: string) => {
@@ -208,6 +749,7 @@ export function useChat() {
                 preview: f.preview,
                 richPreview: f.richPreview || undefined,
                 isGenerated: f.isGenerated || false,
+                lineage: lineageContext(f.lineage),
               }))
             : undefined;
 
@@ -215,9 +757,13 @@ export function useChat() {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
+            threadId: conversationId,
             messages: allMessages,
             files: fileContext,
             sessionFiles: sessionFilesContext,
+            approvalPolicy,
+            executionFiles: executionFilesFor(approvalPolicy, allSessionFiles, autoRepair),
+            autoRepair,
           }),
         });
 
@@ -225,170 +771,184 @@ export function useChat() {
           throw new Error(`HTTP ${response.status}`);
         }
 
-        const reader = response.body?.getReader();
-        if (!reader) throw new Error("No reader");
+        if (!response.body) throw new Error("No reader");
 
-        const decoder = new TextDecoder();
         let accContent = "";
         const accToolCalls: ToolCall[] = [];
         const accParts: MessagePart[] = [];
 
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          const text = decoder.decode(value, { stream: true });
-          const lines = text.split("\n");
-
-          for (const line of lines) {
-            if (!line.startsWith("data: ")) continue;
-            const jsonStr = line.slice(6).trim();
-            if (!jsonStr) continue;
-
-            try {
-              const data = JSON.parse(jsonStr);
-
-              if (data.type === "text_delta") {
-                accContent += data.content;
-
-                // Directly update accParts - single source of truth
-                if (accParts.length > 0 && accParts[accParts.length - 1].type === "text") {
-                   const lastPart = accParts[accParts.length - 1];
-                   accParts[accParts.length - 1] = {
-                     type: "text",
-                     text: (lastPart.text || "") + data.content
-                   };
-                } else {
-                  accParts.push({ type: "text", text: data.content });
-                }
+        await readEventStream<ChatStreamEvent>(response.body, (data) => {
+          if (data.type === "text_delta") {
+            accContent += data.content;
+
+            // Directly update accParts - single source of truth
+            if (accParts.length > 0 && accParts[accParts.length - 1].type === "text") {
+               const lastPart = accParts[accParts.length - 1];
+               accParts[accParts.length - 1] = {
+                 type: "text",
+                 text: (lastPart.text || "") + data.content
+               };
+            } else {
+              accParts.push({ type: "text", text: data.content });
+            }
 
-                setMessages((prev) =>
-                  prev.map((m) =>
-                    m.id === assistantMessage.id
-                      ? { ...m, content: accContent, parts: [...accParts] }
-                      : m
-                  )
-                );
-              } else if (data.type === "text") {
-                accContent += data.content;
-
-                // Directly update accParts - single source of truth
-                if (accParts.length > 0 && accParts[accParts.length - 1].type === "text") {
-                   const lastPart = accParts[accParts.length - 1];
-                   accParts[accParts.length - 1] = {
-                     type: "text",
-                     text: (lastPart.text || "") + data.content
-                   };
-                } else {
-                  accParts.push({ type: "text", text: data.content });
-                }
+            setMessages((prev) =>
+              prev.map((m) =>
+                m.id === assistantMessage.id
+                  ? { ...m, content: accContent, parts: [...accParts] }
+                  : m
+              )
+            );
+          } else if (data.type === "text") {
+            accContent += data.content;
+
+            // Directly update accParts - single source of truth
+            if (accParts.length > 0 && accParts[accParts.length - 1].type === "text") {
+               const lastPart = accParts[accParts.length - 1];
+               accParts[accParts.length - 1] = {
+                 type: "text",
+                 text: (lastPart.text || "") + data.content
+               };
+            } else {
+              accParts.push({ type: "text", text: data.content });
+            }
 
-                setMessages((prev) =>
-                  prev.map((m) =>
-                    m.id === assistantMessage.id
-                      ? { ...m, content: accContent, parts: [...accParts] }
-                      : m
-                  )
-                );
-              } else if (data.type === "tool_call") {
-                const newToolCall: ToolCall = {
-                  tool: data.tool,
-                  args: data.args,
-                  status: "completed",
-                  result: data.result,
-                };
-                accToolCalls.push(newToolCall);
-                const newPart: MessagePart = { type: "tool_call", toolCall: newToolCall };
-                accParts.push(newPart);
-
-                setMessages((prev) =>
-                  prev.map((m) =>
-                    m.id === assistantMessage.id
-                      ? { ...m, toolCalls: [...accToolCalls], parts: [...accParts] }
-                      : m
-                  )
+            setMessages((prev) =>
+              prev.map((m) =>
+                m.id === assistantMessage.id
+                  ? { ...m, content: accContent, parts: [...accParts] }
+                  : m
+              )
+            );
+          } else if (data.type === "tool_call") {
+            const newToolCall: ToolCall = {
+              id: data.toolCallId,
+              tool: data.tool ?? "",
+              args: data.args ?? {},
+              status: "completed",
+              result: data.result,
+              autoApproved: data.autoApproved,
+              repair: data.repair,
+              stepId: currentPlanStep(messagesRef.current)?.id,
+            };
+            upsertToolCall(accToolCalls, accParts, newToolCall);
+            if (data.autoApproved) {
+              const origin = { toolCallId: data.toolCallId, step: currentPlanStep(messagesRef.current)?.title };
+              setSessionFiles((prev) =>
+                mergeSessionFiles(prev, toGeneratedAttachments(data.result, origin, prev))
+              );
+            }
+
+            setMessages((prev) =>
+              prev.map((m) =>
+                m.id === assistantMessage.id
+                  ? { ...m, toolCalls: [...accToolCalls], parts: [...accParts] }
+                  : m
+              )
+            );
+          } else if (data.type === "analysis_options") {
+            // Interactive analysis options card
+            const newToolCall: ToolCall = {
+              tool: "present_analysis_options",
+              args: data.args ?? {},
+              status: "completed",
+              result: {
+                type: "analysis_options",
+                summary: data.summary,
+                options: data.options as AnalysisOption[],
+              },
+            };
+            accToolCalls.push(newToolCall);
+            accParts.push({ type: "tool_call", toolCall: newToolCall });
+
+            setMessages((prev) =>
+              prev.map((m) =>
+                m.id === assistantMessage.id
+                  ? { ...m, toolCalls: [...accToolCalls], parts: [...accParts] }
+                  : m
+              )
+            );
+          } else if (data.type === "pending_tool_call") {
+            // HITL: code execution requires user confirmation, unless
+            // the approval policy lets the server run it right away
+            const newToolCall: ToolCall = {
+              id: data.toolCallId,
+              tool: data.tool ?? "",
+              args: data.args ?? {},
+              status: data.autoApproved ? "approved" : "pending",
+              autoApproved: data.autoApproved,
+              riskReport: data.riskReport,
+              repair: data.repair,
+            };
+            upsertToolCall(accToolCalls, accParts, newToolCall);
+
+            setMessages((prev) =>
+              prev.map((m) =>
+                m.id === assistantMessage.id
+                  ? { ...m, toolCalls: [...accToolCalls], parts: [...accParts] }
+                  : m
+              )
+            );
+          } else if (data.type === "plan_created") {
+            // Plan created by agent
+            const plan = data.plan as Plan;
+            const newPart: MessagePart = { type: "plan", plan };
+            accParts.push(newPart);
+
+            setMessages((prev) =>
+              prev.map((m) =>
+                m.id === assistantMessage.id
+                  ? { ...m, plan, parts: [...accParts] }
+                  : m
+              )
+            );
+          } else if (data.type === "plan_updated") {
+            // Agent revised the plan (inserted / skipped / retried / moved steps)
+            setMessages((prev) => replacePlan(prev, data.plan as Plan));
+          } else if (data.type === "plan_step_update") {
+            // Update plan step status - find the message with the plan
+            const { stepIndex, status } = data as { stepIndex: number; status: string };
+            setMessages((prev) => {
+              // Find the message that has a plan (could be current or previous message)
+              const planMsgIndex = prev.findIndex((m) => m.plan != null);
+              if (planMsgIndex === -1) return prev;
+
+              return prev.map((m, idx) => {
+                if (idx !== planMsgIndex || !m.plan) return m;
+                const updatedSteps = m.plan.steps.map((step, i) =>
+                  i === stepIndex ? { ...step, status: status as PlanStep["status"] } : step
                 );
-              } else if (data.type === "pending_tool_call") {
-                // HITL: code execution requires user confirmation
-                const newToolCall: ToolCall = {
-                  tool: data.tool,
-                  args: data.args,
-                  status: "pending",
-                  planContext: data.planContext,
+                const updatedPlan = {
+                  ...m.plan,
+                  steps: updatedSteps,
+                  currentStepIndex: stepIndex,
+                  isComplete: isPlanComplete(updatedSteps),
                 };
-                accToolCalls.push(newToolCall);
-                 const newPart: MessagePart = { type: "tool_call", toolCall: newToolCall };
-                 accParts.push(newPart);
-
-                setMessages((prev) =>
-                  prev.map((m) =>
-                    m.id === assistantMessage.id
-                      ? { ...m, toolCalls: [...accToolCalls], parts: [...accParts] }
-                      : m
-                  )
-                );
-              } else if (data.type === "plan_created") {
-                // Plan created by agent
-                const plan = data.plan as Plan;
-                const newPart: MessagePart = { type: "plan", plan };
-                accParts.push(newPart);
-
-                setMessages((prev) =>
-                  prev.map((m) =>
-                    m.id === assistantMessage.id
-                      ? { ...m, plan, parts: [...accParts] }
-                      : m
-                  )
-                );
-              } else if (data.type === "plan_step_update") {
-                // Update plan step status - find the message with the plan
-                const { stepIndex, status } = data as { stepIndex: number; status: string };
-                setMessages((prev) => {
-                  // Find the message that has a plan (could be current or previous message)
-                  const planMsgIndex = prev.findIndex((m) => m.plan != null);
-                  if (planMsgIndex === -1) return prev;
-
-                  return prev.map((m, idx) => {
-                    if (idx !== planMsgIndex || !m.plan) return m;
-                    const updatedSteps = m.plan.steps.map((step, i) =>
-                      i === stepIndex ? { ...step, status: status as PlanStep["status"] } : step
-                    );
-                    const completedCount = updatedSteps.filter((s) => s.status === "completed").length;
-                    const updatedPlan = {
-                      ...m.plan,
-                      steps: updatedSteps,
-                      currentStepIndex: stepIndex,
-                      isComplete: completedCount === updatedSteps.length,
-                    };
-                    const updatedParts = m.parts?.map((p) =>
-                      p.type === "plan" ? { ...p, plan: updatedPlan } : p
-                    );
-                    return { ...m, plan: updatedPlan, parts: updatedParts };
-                  });
-                });
-              } else if (data.type === "error") {
-                accContent += data.content;
-                setMessages((prev) =>
-                  prev.map((m) =>
-                    m.id === assistantMessage.id
-                      ? { ...m, content: accContent }
-                      : m
-                  )
+                const updatedParts = m.parts?.map((p) =>
+                  p.type === "plan" ? { ...p, plan: updatedPlan } : p
                 );
-              } else if (data.type === "done") {
-                setMessages((prev) =>
-                  prev.map((m) =>
-                    m.id === assistantMessage.id
-                      ? { ...m, isStreaming: false }
-                      : m
-                  )
-                );
-              }
-            } catch {
-              // skip invalid JSON
-            }
+                return { ...m, plan: updatedPlan, parts: updatedParts };
+              });
+            });
+          } else if (data.type === "error") {
+            accContent += data.content;
+            setMessages((prev) =>
+              prev.map((m) =>
+                m.id === assistantMessage.id
+                  ? { ...m, content: accContent }
+                  : m
+              )
+            );
+          } else if (data.type === "done") {
+            setMessages((prev) =>
+              prev.map((m) =>
+                m.id === assistantMessage.id
+                  ? { ...m, isStreaming: false }
+                  : m
+              )
+            );
           }
-        }
+        });
       } catch (error: unknown) {
         const errorMsg =
           error instanceof Error ? error.message : "Unknown error";
@@ -407,139 +967,14 @@ export function useChat() {
         setIsLoading(false);
       }
     },
-    [messages, pendingFiles, sessionFiles]
+    [messages, pendingFiles, sessionFiles, conversationId, approvalPolicy, autoRepair]
   );
 
-  // HITL: Approve a pending tool call, execute the code, then get AI follow-up
-  const approveToolCall = useCallback(
-    async (messageId: string, toolCallIndex: number) => {
-      const msg = messages.find((m) => m.id === messageId);
-      const tc = msg?.toolCalls?.[toolCallIndex];
-      if (!tc || tc.status !== "pending") return;
-
-      // Mark as approved (loading)
-      setMessages((prev) =>
-        prev.map((m) => {
-          if (m.id !== messageId) return m;
-
-          let toolCallCounter = 0;
-          const newParts = m.parts?.map((part) => {
-            if (part.type === "tool_call" && part.toolCall) {
-              if (toolCallCounter === toolCallIndex) {
-                toolCallCounter++;
-                return {
-                  ...part,
-                  toolCall: { ...part.toolCall, status: "approved" as const },
-                };
-              }
-              toolCallCounter++;
-            }
-            return part;
-          });
-
-          return {
-            ...m,
-            toolCalls: m.toolCalls?.map((t, i) =>
-              i === toolCallIndex ? { ...t, status: "approved" as const } : t
-            ),
-            parts: newParts,
-          };
-        })
-      );
-
-      let executionResult: Record<string, unknown> | null = null;
-
-      try {
-        const response = await fetch("/api/chat/execute", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            tool: tc.tool,
-            args: tc.args,
-            files: sessionFiles.map((f) => ({
-              name: f.name,
-              content: f.content,
-            })),
-          }),
-        });
-
-        executionResult = await response.json();
-
-        setMessages((prev) =>
-          prev.map((m) =>
-            m.id === messageId
-              ? {
-                  ...m,
-                  toolCalls: m.toolCalls?.map((t, i) =>
-                    i === toolCallIndex
-                      ? { ...t, status: "completed" as const, result: executionResult as ToolCall["result"] }
-                      : t
-                  ),
-                }
-              : m
-          )
-        );
-      } catch (error: unknown) {
-        const errMsg = error instanceof Error ? error.message : "执行失败";
-        setMessages((prev) =>
-          prev.map((m) =>
-            m.id === messageId
-              ? {
-                  ...m,
-                  toolCalls: m.toolCalls?.map((t, i) =>
-                    i === toolCallIndex
-                      ? {
-                          ...t,
-                          status: "completed" as const,
-                          result: { type: "code_execution_error", error: errMsg },
-                        }
-                      : t
-                  ),
-                }
-              : m
-          )
-        );
-        return; // Don't trigger follow-up if execution request itself failed
-      }
-
-      // Add generated files to session for future sandbox executions
-      interface GeneratedFileInfo {
-        name: string;
-        content: string;
-        size: number;
-        richPreview?: FilePreview;
-      }
-      const genFiles = ((executionResult as Record<string, unknown>)?.generatedFiles as GeneratedFileInfo[] | undefined) || [];
-      const newGenSessionFiles: FileAttachment[] = genFiles.map((gf) => {
-        const ext = gf.name.split(".").pop()?.toLowerCase() || "";
-        const mimeMap: Record<string, string> = {
-          csv: "text/csv", json: "application/json", txt: "text/plain",
-          xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
-          xls: "application/vnd.ms-excel", parquet: "application/octet-stream",
-          png: "image/png", jpg: "image/jpeg", html: "text/html", md: "text/markdown",
-        };
-        return {
-          id: `gen-${Date.now()}-${Math.random().toString(36).slice(2)}-${gf.name}`,
-          name: gf.name,
-          type: mimeMap[ext] || "application/octet-stream",
-          size: gf.size,
-          content: gf.content,
-          preview: "(代码执行生成的文件)",
-          richPreview: gf.richPreview as FilePreview | undefined,
-          isPreviewing: false,
-          isGenerated: true,
-        };
-      });
-
-      if (newGenSessionFiles.length > 0) {
-        setSessionFiles((prev) => {
-          const newNames = new Set(newGenSessionFiles.map((f) => f.name));
-          return [...prev.filter((f) => !newNames.has(f.name)), ...newGenSessionFiles];
-        });
-      }
-
-      // --- Follow-up: Send tool result to AI for analysis ---
-      if (!executionResult) return;
+  // Resume the interrupted server thread and stream the agent's reply into
+  // `base`, the message holding the tool call that was just resolved
+  const resumeThread = useCallback(
+    async (base: Message, resume: ThreadResume, files: FileAttachment[]) => {
+      const messageId = base.id;
 
       // Get the latest message state to avoid stale closure
       setMessages((prev) => {
@@ -553,209 +988,196 @@ export function useChat() {
       setIsLoading(true);
 
       try {
-        // Build conversation history up to the assistant message
-        const msgIndex = messages.findIndex((m) => m.id === messageId);
-        const conversationHistory = messages.slice(0, msgIndex).map((m) => ({
-          role: m.role,
-          content: m.content,
-        }));
-
-        // Add the assistant's existing content as context
-        if (msg?.content) {
-          conversationHistory.push({
-            role: "assistant",
-            content: msg.content,
-          });
-        }
-
-        // Include session files metadata (merged with newly generated files)
-        const effectiveSessionFiles = (() => {
-          const newNames = new Set(newGenSessionFiles.map((f) => f.name));
-          return [...sessionFiles.filter((f) => !newNames.has(f.name)), ...newGenSessionFiles];
-        })();
         const sessionFilesContext =
-          effectiveSessionFiles.length > 0
-            ? effectiveSessionFiles.map((f) => ({
+          files.length > 0
+            ? files.map((f) => ({
                 name: f.name,
                 size: f.size,
                 type: f.type,
                 preview: f.preview,
                 richPreview: f.richPreview || undefined,
                 isGenerated: f.isGenerated || false,
+                lineage: lineageContext(f.lineage),
               }))
             : undefined;
 
-        const followUpResponse = await fetch("/api/chat", {
+        const request = {
+          threadId: conversationId,
+          sessionFiles: sessionFilesContext,
+          approvalPolicy,
+          executionFiles: executionFilesFor(approvalPolicy, files, autoRepair),
+          autoRepair,
+        };
+        let followUpResponse = await fetch("/api/chat", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            messages: conversationHistory,
-            toolResult: executionResult,
-            sessionFiles: sessionFilesContext,
-            // Pass plan context for automatic step status updates
-            plan: tc.planContext?.plan,
-            currentStepIndex: tc.planContext?.currentStepIndex,
-          }),
+          body: JSON.stringify({ ...request, resume }),
         });
+        if (followUpResponse.status === 409) {
+          // The server has no interrupt to resume: re-seed the thread with
+          // the history and what the user just resolved
+          followUpResponse = await fetch("/api/chat", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ ...request, messages: reseedHistory(messagesRef.current, base, resume) }),
+          });
+        }
 
         if (!followUpResponse.ok) throw new Error(`HTTP ${followUpResponse.status}`);
 
-        const reader = followUpResponse.body?.getReader();
-        if (!reader) throw new Error("No reader");
-
-        const decoder = new TextDecoder();
+        if (!followUpResponse.body) throw new Error("No reader");
 
-        // Initialize accumulators from current message state
-        let accContent = msg?.content || "";
+        // Initialize accumulators from the message with the resolved call
+        let accContent = base.content || "";
         if (accContent) accContent += "\n\n";
+        const accToolCalls = [...(base.toolCalls || [])];
+        const accParts = [...(base.parts || [])];
+
+        await readEventStream<ChatStreamEvent>(followUpResponse.body, (data) => {
+          if (data.type === "text_delta" || data.type === "text") {
+            accContent += data.content;
+
+            // Directly update accParts - single source of truth
+            if (accParts.length > 0 && accParts[accParts.length - 1].type === "text") {
+               const lastPart = accParts[accParts.length - 1];
+               accParts[accParts.length - 1] = {
+                 type: "text",
+                 text: (lastPart.text || "") + data.content
+               };
+            } else {
+              accParts.push({ type: "text", text: data.content });
+            }
 
-        // Build initial state from the updated tool call result
-        const initialToolCalls = msg?.toolCalls?.map((t, i) =>
-             i === toolCallIndex
-               ? { ...t, status: "completed" as const, result: executionResult as ToolCall["result"] }
-               : t
-        ) || [];
-
-        let toolCallCounter = 0;
-        const initialParts = msg?.parts?.map(part => {
-             if (part.type === 'tool_call' && part.toolCall) {
-                if (toolCallCounter === toolCallIndex) {
-                   toolCallCounter++;
-                   return { ...part, toolCall: { ...part.toolCall, status: "completed" as const, result: executionResult as ToolCall["result"] } };
-                }
-                toolCallCounter++;
-             }
-             return part;
-        }) || [];
-
-        const accToolCalls = [...initialToolCalls];
-        const accParts = [...initialParts];
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          const text = decoder.decode(value, { stream: true });
-          const lines = text.split("\n");
-
-          for (const line of lines) {
-            if (!line.startsWith("data: ")) continue;
-            const jsonStr = line.slice(6).trim();
-            if (!jsonStr) continue;
-
-            try {
-              const data = JSON.parse(jsonStr);
-
-              if (data.type === "text_delta" || data.type === "text") {
-                accContent += data.content;
-
-                // Directly update accParts - single source of truth
-                if (accParts.length > 0 && accParts[accParts.length - 1].type === "text") {
-                   const lastPart = accParts[accParts.length - 1];
-                   accParts[accParts.length - 1] = {
-                     type: "text",
-                     text: (lastPart.text || "") + data.content
-                   };
-                } else {
-                  accParts.push({ type: "text", text: data.content });
-                }
+            setMessages((prev) =>
+              prev.map((m) =>
+                m.id === messageId ? { ...m, content: accContent, parts: [...accParts] } : m
+              )
+            );
+          } else if (data.type === "tool_call") {
+            const newToolCall: ToolCall = {
+               id: data.toolCallId,
+               tool: data.tool ?? "",
+               args: data.args ?? {},
+               status: "completed",
+               result: data.result,
+               autoApproved: data.autoApproved,
+               repair: data.repair,
+               stepId: currentPlanStep(messagesRef.current)?.id,
+            };
+            upsertToolCall(accToolCalls, accParts, newToolCall);
+            if (data.autoApproved) {
+              const origin = { toolCallId: data.toolCallId, step: currentPlanStep(messagesRef.current)?.title };
+              setSessionFiles((prev) =>
+                mergeSessionFiles(prev, toGeneratedAttachments(data.result, origin, prev))
+              );
+            }
 
-                setMessages((prev) =>
-                  prev.map((m) =>
-                    m.id === messageId ? { ...m, content: accContent, parts: [...accParts] } : m
-                  )
-                );
-              } else if (data.type === "tool_call") {
-                const newToolCall: ToolCall = {
-                   tool: data.tool,
-                   args: data.args,
-                   status: "completed",
-                   result: data.result,
-                };
-                accToolCalls.push(newToolCall);
-                accParts.push({ type: "tool_call", toolCall: newToolCall });
-
-                setMessages((prev) =>
-                  prev.map((m) =>
-                    m.id === messageId
-                      ? {
-                          ...m,
-                          toolCalls: [...accToolCalls],
-                          parts: [...accParts]
-                        }
-                      : m
-                  )
+            setMessages((prev) =>
+              prev.map((m) =>
+                m.id === messageId
+                  ? {
+                      ...m,
+                      toolCalls: [...accToolCalls],
+                      parts: [...accParts]
+                    }
+                  : m
+              )
+            );
+          } else if (data.type === "analysis_options") {
+            const newToolCall: ToolCall = {
+               tool: "present_analysis_options",
+               args: data.args ?? {},
+               status: "completed",
+               result: {
+                 type: "analysis_options",
+                 summary: data.summary,
+                 options: data.options as AnalysisOption[],
+               },
+            };
+            accToolCalls.push(newToolCall);
+            accParts.push({ type: "tool_call", toolCall: newToolCall });
+
+            setMessages((prev) =>
+              prev.map((m) =>
+                m.id === messageId
+                  ? {
+                      ...m,
+                      toolCalls: [...accToolCalls],
+                      parts: [...accParts],
+                    }
+                  : m
+              )
+            );
+          } else if (data.type === "pending_tool_call") {
+            const newToolCall: ToolCall = {
+               id: data.toolCallId,
+               tool: data.tool ?? "",
+               args: data.args ?? {},
+               status: data.autoApproved ? "approved" : "pending",
+               autoApproved: data.autoApproved,
+               riskReport: data.riskReport,
+               repair: data.repair,
+            };
+            upsertToolCall(accToolCalls, accParts, newToolCall);
+
+            setMessages((prev) =>
+              prev.map((m) =>
+                m.id === messageId
+                  ? {
+                      ...m,
+                      toolCalls: [...accToolCalls],
+                      parts: [...accParts],
+                    }
+                  : m
+              )
+            );
+          } else if (data.type === "plan_created") {
+            // Plan created by agent during follow-up
+            const plan = data.plan as Plan;
+            accParts.push({ type: "plan", plan });
+
+            setMessages((prev) =>
+              prev.map((m) =>
+                m.id === messageId
+                  ? { ...m, plan, parts: [...accParts] }
+                  : m
+              )
+            );
+          } else if (data.type === "plan_updated") {
+            // Agent revised the plan (inserted / skipped / retried / moved steps)
+            setMessages((prev) => replacePlan(prev, data.plan as Plan));
+          } else if (data.type === "plan_step_update") {
+            // Update plan step status during follow-up - find the message with the plan
+            const { stepIndex, status } = data as { stepIndex: number; status: string };
+            setMessages((prev) => {
+              const planMsgIndex = prev.findIndex((m) => m.plan != null);
+              if (planMsgIndex === -1) return prev;
+
+              return prev.map((m, idx) => {
+                if (idx !== planMsgIndex || !m.plan) return m;
+                const updatedSteps = m.plan.steps.map((step, i) =>
+                  i === stepIndex ? { ...step, status: status as PlanStep["status"] } : step
                 );
-              } else if (data.type === "pending_tool_call") {
-                const newToolCall: ToolCall = {
-                   tool: data.tool,
-                   args: data.args,
-                   status: "pending",
-                   planContext: data.planContext,
+                const updatedPlan = {
+                  ...m.plan,
+                  steps: updatedSteps,
+                  currentStepIndex: stepIndex,
+                  isComplete: isPlanComplete(updatedSteps),
                 };
-                accToolCalls.push(newToolCall);
-                accParts.push({ type: "tool_call", toolCall: newToolCall });
-
-                setMessages((prev) =>
-                  prev.map((m) =>
-                    m.id === messageId
-                      ? {
-                          ...m,
-                          toolCalls: [...accToolCalls],
-                          parts: [...accParts],
-                        }
-                      : m
-                  )
-                );
-              } else if (data.type === "plan_created") {
-                // Plan created by agent during follow-up
-                const plan = data.plan as Plan;
-                accParts.push({ type: "plan", plan });
-
-                setMessages((prev) =>
-                  prev.map((m) =>
-                    m.id === messageId
-                      ? { ...m, plan, parts: [...accParts] }
-                      : m
-                  )
-                );
-              } else if (data.type === "plan_step_update") {
-                // Update plan step status during follow-up - find the message with the plan
-                const { stepIndex, status } = data as { stepIndex: number; status: string };
-                setMessages((prev) => {
-                  const planMsgIndex = prev.findIndex((m) => m.plan != null);
-                  if (planMsgIndex === -1) return prev;
-
-                  return prev.map((m, idx) => {
-                    if (idx !== planMsgIndex || !m.plan) return m;
-                    const updatedSteps = m.plan.steps.map((step, i) =>
-                      i === stepIndex ? { ...step, status: status as PlanStep["status"] } : step
-                    );
-                    const completedCount = updatedSteps.filter((s) => s.status === "completed").length;
-                    const updatedPlan = {
-                      ...m.plan,
-                      steps: updatedSteps,
-                      currentStepIndex: stepIndex,
-                      isComplete: completedCount === updatedSteps.length,
-                    };
-                    const updatedParts = m.parts?.map((p) =>
-                      p.type === "plan" ? { ...p, plan: updatedPlan } : p
-                    );
-                    return { ...m, plan: updatedPlan, parts: updatedParts };
-                  });
-                });
-              } else if (data.type === "done") {
-                setMessages((prev) =>
-                  prev.map((m) =>
-                    m.id === messageId ? { ...m, isStreaming: false } : m
-                  )
+                const updatedParts = m.parts?.map((p) =>
+                  p.type === "plan" ? { ...p, plan: updatedPlan } : p
                 );
-              }
-            } catch {
-              // skip invalid JSON
-            }
+                return { ...m, plan: updatedPlan, parts: updatedParts };
+              });
+            });
+          } else if (data.type === "done") {
+            setMessages((prev) =>
+              prev.map((m) =>
+                m.id === messageId ? { ...m, isStreaming: false } : m
+              )
+            );
           }
-        }
+        });
       } catch (error: unknown) {
         const errMsg = error instanceof Error ? error.message : "分析失败";
         setMessages((prev) =>
@@ -773,7 +1195,157 @@ export function useChat() {
         setIsLoading(false);
       }
     },
-    [messages, sessionFiles]
+    [conversationId, approvalPolicy, autoRepair]
+  );
+
+  // HITL: Approve a pending tool call, execute the code (streaming its
+  // output into the card), then get AI follow-up
+  const approveToolCall = useCallback(
+    async (messageId: string, toolCallIndex: number) => {
+      const msg = messages.find((m) => m.id === messageId);
+      const tc = msg?.toolCalls?.[toolCallIndex];
+      if (!msg || !tc || tc.status !== "pending") return;
+
+      const updateToolCall = (update: (t: ToolCall) => ToolCall) =>
+        setMessages((prev) =>
+          prev.map((m) => (m.id === messageId ? updateToolCallAt(m, toolCallIndex, update) : m))
+        );
+
+      // Mark as approved (loading)
+      updateToolCall((t) => ({
+        ...t,
+        status: "approved",
+        liveOutput: { stdout: "", stderr: "", results: [] },
+      }));
+
+      // Assigned from the stream callback, so keep TS from narrowing it to null
+      let executionResult = null as Record<string, unknown> | null;
+      let elapsedMs: number | undefined;
+
+      try {
+        const response = await fetch("/api/chat/execute/stream", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            tool: tc.tool,
+            args: tc.args,
+            conversationId,
+            files: toExecutionFiles(sessionFiles),
+          }),
+        });
+
+        if (!response.ok || !response.body) {
+          // Validation errors come back as plain JSON
+          const data = await response.json().catch(() => ({}));
+          throw new Error(data.error || `HTTP ${response.status}`);
+        }
+
+        const live: LiveOutput = { stdout: "", stderr: "", results: [] };
+        await readEventStream(response.body, (data) => {
+          if (data.type === "stdout" || data.type === "stderr") {
+            live[data.type as "stdout" | "stderr"] += String(data.text ?? "");
+          } else if (data.type === "display") {
+            live.results = [...live.results, data.result as LiveOutput["results"][number]];
+          } else if (data.type === "result") {
+            executionResult = data.result as Record<string, unknown>;
+            elapsedMs = data.elapsedMs as number | undefined;
+            return;
+          } else {
+            return;
+          }
+          const snapshot = { ...live };
+          updateToolCall((t) => ({ ...t, liveOutput: snapshot }));
+        });
+
+        if (!executionResult) throw new Error("执行中断，未收到结果");
+        const finalResult = executionResult;
+        updateToolCall((t) => ({
+          ...t,
+          status: "completed",
+          result: finalResult as ToolCall["result"],
+          elapsedMs,
+          stepId: currentPlanStep(messages)?.id,
+          liveOutput: undefined,
+        }));
+      } catch (error: unknown) {
+        const errMsg = error instanceof Error ? error.message : "执行失败";
+        updateToolCall((t) => ({
+          ...t,
+          status: "completed",
+          result: { type: "code_execution_error", error: errMsg },
+          liveOutput: undefined,
+        }));
+        return; // Don't trigger follow-up if execution request itself failed
+      }
+
+      // Add generated files to session for future sandbox executions
+      const newGenSessionFiles = toGeneratedAttachments(
+        executionResult,
+        { toolCallId: tc.id, step: currentPlanStep(messages)?.title },
+        sessionFiles
+      );
+      if (newGenSessionFiles.length > 0) {
+        setSessionFiles((prev) => mergeSessionFiles(prev, newGenSessionFiles));
+      }
+
+      // --- Follow-up: Send tool result to AI for analysis ---
+      if (!executionResult) return;
+
+      const completed = updateToolCallAt(msg, toolCallIndex, (t) => ({
+        ...t,
+        status: "completed",
+        result: executionResult as ToolCall["result"],
+        elapsedMs,
+        stepId: currentPlanStep(messages)?.id,
+      }));
+      // Resume the interrupted thread with a ToolMessage for this call,
+      // listing the newly generated files with the session files
+      await resumeThread(
+        completed,
+        { results: { [tc.id ?? ""]: executionResult } },
+        mergeSessionFiles(sessionFiles, newGenSessionFiles)
+      );
+    },
+    [messages, sessionFiles, conversationId, resumeThread]
+  );
+
+  // Stop running code: the server kills the kernel and the run finishes
+  // with a cancellation error, which the normal follow-up reports
+  const cancelToolCall = useCallback(() => {
+    fetch("/api/chat/execute/cancel", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ conversationId }),
+    }).catch(() => {});
+  }, [conversationId]);
+
+  // Re-run the code that produced a generated file against the current
+  // session files; the rewritten files become new versions
+  const rederiveFile = useCallback(
+    async (name: string) => {
+      const file = sessionFiles.find((f) => f.name === name);
+      if (!file?.lineage) return;
+      const response = await fetch("/api/chat/execute", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          tool: "execute_python",
+          args: { code: file.lineage.code },
+          conversationId,
+          files: toExecutionFiles(sessionFiles),
+        }),
+      });
+      const result = await response.json().catch(() => ({}));
+      if (result.type !== "code_execution" || result.error) {
+        throw new Error(result.error || `HTTP ${response.status}`);
+      }
+      if (!result.generatedFiles?.some((f: { name: string }) => f.name === name)) {
+        throw new Error(`代码运行成功，但没有重新写出 ${name}`);
+      }
+      const origin = { toolCallId: file.lineage.toolCallId, step: file.lineage.step };
+      setSessionFiles((prev) => mergeSessionFiles(prev, toGeneratedAttachments(result, origin, prev)));
+    },
+    [sessionFiles, conversationId]
   );
 
   // HITL: Reject a pending tool call
@@ -797,11 +1369,273 @@ export function useChat() {
     []
   );
 
+  // Settle a confirm_action / ask_for_information card with the user's
+  // input; once no card of the interrupted turn is left open, resume the
+  // thread with all of it
+  const settleUserInput = useCallback(
+    async (msg: Message, toolCallIndex: number, result: NonNullable<ToolCall["result"]>) => {
+      const resolved = updateToolCallAt(msg, toolCallIndex, (t) => ({
+        ...t,
+        status: "completed",
+        result,
+      }));
+      setMessages((prev) => prev.map((m) => (m.id === msg.id ? resolved : m)));
+      const waiting = resolved.toolCalls?.some(
+        (t) => USER_INPUT_TOOLS.has(t.tool) && t.status === "pending"
+      );
+      if (waiting) return;
+
+      const held = userInputRef.current;
+      const resume = { decisions: {}, answers: {} } as Extract<ThreadResume, { answers: unknown }>;
+      for (const t of resolved.toolCalls ?? []) {
+        if (!t.id) continue;
+        if (held.decisions[t.id]) resume.decisions[t.id] = held.decisions[t.id];
+        if (held.answers[t.id]) resume.answers[t.id] = held.answers[t.id];
+        delete held.decisions[t.id];
+        delete held.answers[t.id];
+      }
+      await resumeThread(resolved, resume, sessionFiles);
+    },
+    [sessionFiles, resumeThread]
+  );
+
+  // Answer a pending confirm_action and add it to the audit trail
+  const resolveConfirmation = useCallback(
+    async (messageId: string, toolCallIndex: number, decision: ConfirmationDecision) => {
+      const msg = messages.find((m) => m.id === messageId);
+      const tc = msg?.toolCalls?.[toolCallIndex];
+      if (!msg || !tc?.id || tc.tool !== "confirm_action" || tc.status !== "pending") return;
+
+      const { action, description } = tc.args as { action?: string; description?: string };
+      const record: ConfirmationRecord = {
+        ...decision,
+        toolCallId: tc.id,
+        action: action ?? "",
+        description: description ?? "",
+        decidedAt: Date.now(),
+      };
+      setConfirmations((prev) => [...prev, record]);
+      userInputRef.current.decisions[tc.id] = decision;
+      await settleUserInput(msg, toolCallIndex, {
+        type: "confirmation_decision",
+        ...decision,
+        decidedAt: record.decidedAt,
+      });
+    },
+    [messages, settleUserInput]
+  );
+
+  // Submit the form of a pending ask_for_information question
+  const answerInformationRequest = useCallback(
+    async (messageId: string, toolCallIndex: number, answer: InformationAnswer) => {
+      const msg = messages.find((m) => m.id === messageId);
+      const tc = msg?.toolCalls?.[toolCallIndex];
+      if (!msg || !tc?.id || tc.tool !== "ask_for_information" || tc.status !== "pending") return;
+
+      userInputRef.current.answers[tc.id] = answer;
+      await settleUserInput(msg, toolCallIndex, { type: "information_answer", ...answer });
+    },
+    [messages, settleUserInput]
+  );
+
+  // Record the directions picked on an analysis options card with its tool
+  // call, so the card stays submitted after a reload, then start on them
+  const selectAnalysisOptions = useCallback(
+    async (messageId: string, toolCallIndex: number, selected: string[]) => {
+      const tc = messages.find((m) => m.id === messageId)?.toolCalls?.[toolCallIndex];
+      if (!tc || tc.tool !== "present_analysis_options" || tc.result?.selected || selected.length === 0) return;
+
+      setMessages((prev) =>
+        prev.map((m) =>
+          m.id === messageId
+            ? updateToolCallAt(m, toolCallIndex, (t) => ({
+                ...t,
+                result: { type: "analysis_options", ...t.result, selected },
+              }))
+            : m
+        )
+      );
+      await sendMessage(`请执行以下分析: ${selected.join("、")}`);
+    },
+    [messages, sendMessage]
+  );
+
+  // Tear down the sandbox session and agent thread kept for this conversation
+  const resetSandboxSession = useCallback(() => {
+    fetch("/api/chat/execute", {
+      method: "DELETE",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ conversationId }),
+    }).catch(() => {});
+    fetch("/api/chat", {
+      method: "DELETE",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ threadId: conversationId }),
+    }).catch(() => {});
+    setConversationId(generateUUID());
+    // "Run everything" was granted for the old session only
+    setApprovalPolicy((prev) => (prev === "auto_all" ? "always_ask" : prev));
+  }, [conversationId]);
+
   const clearMessages = useCallback(() => {
+    resetSandboxSession();
+    generationRef.current++;
+    selectSession(null);
+    lastSavedRef.current = "";
     setMessages([]);
     setPendingFiles([]);
     setSessionFiles([]);
-  }, []);
+    setConfirmations([]);
+    userInputRef.current = { decisions: {}, answers: {} };
+  }, [resetSandboxSession, selectSession]);
+
+  /**
+   * Start a new session from a Jupyter notebook. Data files picked along
+   * with the `.ipynb` are attached to the next message, like uploads.
+   */
+  const importNotebook = useCallback(
+    async (files: File[]) => {
+      if (isLoading) return;
+      const notebookFile = files.find((f) => /\.ipynb$/i.test(f.name));
+      if (!notebookFile) {
+        alert("请选择一个 .ipynb 文件");
+        return;
+      }
+      try {
+        const notebook = parseNotebook(await notebookFile.text());
+        const { attachments, errors } = await toAttachments(files.filter((f) => f !== notebookFile));
+        const provided = new Set(attachments.map((f) => f.name));
+        const missing = referencedDataFiles(notebook).filter((name) => !provided.has(name));
+
+        clearMessages();
+        setMessages(notebookToMessages(notebook, notebookFile.name, missing));
+        if (attachments.length > 0) addFiles(attachments);
+        if (errors.length > 0) alert("文件上传出错:\n" + errors.join("\n"));
+      } catch (err) {
+        const errMsg = err instanceof Error ? err.message : "读取失败";
+        alert(`导入 Notebook 失败: ${errMsg}`);
+      }
+    },
+    [isLoading, clearMessages, addFiles]
+  );
+
+  // --- Session persistence ---
+
+  const saveSession = useCallback(
+    async (msgs: Message[], files: FileAttachment[], decided: ConfirmationRecord[]) => {
+      const payload = JSON.stringify({
+        messages: serializeMessages(msgs),
+        sessionFiles: files,
+        confirmations: decided,
+      });
+      if (payload === lastSavedRef.current) return;
+
+      const generation = generationRef.current;
+      try {
+        let id = sessionIdRef.current;
+        if (!id) {
+          // Saves that start while the first create is in flight wait for its id
+          if (creatingRef.current?.generation !== generation) {
+            const firstUserMessage = msgs.find((m) => m.role === "user");
+            const created = fetch("/api/sessions", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({
+                title: firstUserMessage?.content.slice(0, SESSION_TITLE_LENGTH),
+              }),
+            })
+              .then((response) => response.json())
+              .then((data) => (data.session?.id as string | undefined) ?? null)
+              .catch(() => null);
+            creatingRef.current = { generation, id: created };
+          }
+          const pending = creatingRef.current;
+          const createdId = await pending.id;
+          // A failed create is retried by the next save
+          if (!createdId && creatingRef.current === pending) creatingRef.current = null;
+          if (!createdId || generation !== generationRef.current) return;
+          id = createdId;
+          selectSession(id);
+        }
+
+        const response = await fetch(`/api/sessions/${id}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: payload,
+        });
+        if (response.ok && generation === generationRef.current) {
+          lastSavedRef.current = payload;
+        }
+        refreshSessions();
+      } catch {
+        // Saving is best-effort; the next change retries
+      }
+    },
+    [refreshSessions, selectSession]
+  );
+
+  // Autosave once streaming settles
+  useEffect(() => {
+    if (isLoading || messages.length === 0) return;
+    if (messages.some((m) => m.isStreaming)) return;
+    const timer = setTimeout(() => {
+      saveSession(messages, sessionFiles, confirmations);
+    }, SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [messages, sessionFiles, confirmations, isLoading, saveSession]);
+
+  const loadSession = useCallback(
+    async (id: string) => {
+      if (isLoading || id === sessionIdRef.current) return;
+      try {
+        const response = await fetch(`/api/sessions/${id}`);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const data = await response.json();
+        const loadedMessages = (data.session.messages as Message[]) || [];
+        const loadedFiles = (data.session.sessionFiles as FileAttachment[]) || [];
+        const loadedConfirmations = (data.session.confirmations as ConfirmationRecord[]) || [];
+
+        resetSandboxSession();
+        generationRef.current++;
+        selectSession(id);
+        lastSavedRef.current = JSON.stringify({
+          messages: serializeMessages(loadedMessages),
+          sessionFiles: loadedFiles,
+          confirmations: loadedConfirmations,
+        });
+        setMessages(loadedMessages);
+        setSessionFiles(loadedFiles);
+        setConfirmations(loadedConfirmations);
+        userInputRef.current = { decisions: {}, answers: {} };
+        setPendingFiles([]);
+      } catch (err) {
+        const errMsg = err instanceof Error ? err.message : "加载失败";
+        alert(`加载会话失败: ${errMsg}`);
+      }
+    },
+    [isLoading, resetSandboxSession, selectSession]
+  );
+
+  const renameSession = useCallback(
+    async (id: string, title: string) => {
+      await fetch(`/api/sessions/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title }),
+      }).catch(() => {});
+      refreshSessions();
+    },
+    [refreshSessions]
+  );
+
+  const deleteSession = useCallback(
+    async (id: string) => {
+      await fetch(`/api/sessions/${id}`, { method: "DELETE" }).catch(() => {});
+      if (id === sessionIdRef.current) clearMessages();
+      refreshSessions();
+    },
+    [clearMessages, refreshSessions]
+  );
 
   return {
     messages,
@@ -811,9 +1645,25 @@ export function useChat() {
     clearMessages,
     approveToolCall,
     rejectToolCall,
+    resolveConfirmation,
+    confirmations,
+    answerInformationRequest,
+    selectAnalysisOptions,
+    cancelToolCall,
+    approvalPolicy,
+    setApprovalPolicy,
+    autoRepair,
+    setAutoRepair,
     pendingFiles,
     sessionFiles,
+    rederiveFile,
     addFiles,
     removeFile,
+    sessionId,
+    sessions,
+    loadSession,
+    renameSession,
+    deleteSession,
+    importNotebook,
   };
 }
@@ -0,0 +1,79 @@
+"use client";
+
+import { useState, useCallback, useEffect } from "react";
+
+export interface KnowledgeDocument {
+  id: string;
+  name: string;
+  format: "markdown" | "text" | "pdf" | "csv";
+  size: number;
+  createdAt: number;
+  chunkCount: number;
+}
+
+async function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = reader.result as string;
+      resolve(result.split(",")[1] || "");
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+}
+
+/** Documents indexed for `search_knowledge` (shared across all sessions). */
+export function useKnowledgeBase() {
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const refreshDocuments = useCallback(async () => {
+    try {
+      const response = await fetch("/api/knowledge");
+      if (!response.ok) return;
+      const data = await response.json();
+      setDocuments(data.documents || []);
+    } catch {
+      // Knowledge base unavailable — keep the current list
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshDocuments();
+  }, [refreshDocuments]);
+
+  const uploadDocuments = useCallback(
+    async (files: File[]) => {
+      setIsUploading(true);
+      const errors: string[] = [];
+      try {
+        for (const file of files) {
+          const response = await fetch("/api/knowledge", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              file: { name: file.name, content: await readFileAsBase64(file) },
+            }),
+          });
+          if (!response.ok) {
+            const data = await response.json().catch(() => ({}));
+            errors.push(`${file.name}: ${data.error || `HTTP ${response.status}`}`);
+          }
+        }
+      } finally {
+        setIsUploading(false);
+        refreshDocuments();
+      }
+      if (errors.length > 0) alert(`部分文档导入失败:\n${errors.join("\n")}`);
+    },
+    [refreshDocuments]
+  );
+
+  const deleteDocument = useCallback(async (id: string) => {
+    setDocuments((prev) => prev.filter((d) => d.id !== id));
+    await fetch(`/api/knowledge/${id}`, { method: "DELETE" }).catch(() => {});
+  }, []);
+
+  return { documents, isUploading, uploadDocuments, deleteDocument };
+}
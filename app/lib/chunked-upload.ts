@@ -0,0 +1,127 @@
+/**
+ * Chunked Upload Client
+ *
+ * Sends a browser `File` to the server file store in fixed-size chunks
+ * (`/api/files/uploads`), reading one slice at a time so large datasets
+ * never sit in browser memory. Failed chunks are retried; an upload that
+ * still fails keeps its id in localStorage, and selecting the same file
+ * again resumes it by sending only the chunks the server is missing.
+ */
+
+const MAX_CHUNK_RETRIES = 3;
+const RETRY_DELAY_MS = 1000;
+const RESUME_KEY_PREFIX = "next-analyst:upload:";
+
+interface UploadStatus {
+  uploadId: string;
+  chunkSize: number;
+  chunkCount: number;
+  received: number[];
+}
+
+// Same name, size and modification time: treat as the same file
+function resumeKey(file: File): string {
+  return `${RESUME_KEY_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function readResumeId(file: File): string | null {
+  try {
+    return localStorage.getItem(resumeKey(file));
+  } catch {
+    return null;
+  }
+}
+
+function writeResumeId(file: File, uploadId: string | null) {
+  try {
+    if (uploadId) localStorage.setItem(resumeKey(file), uploadId);
+    else localStorage.removeItem(resumeKey(file));
+  } catch {
+    // Storage disabled: uploads still work, they just don't resume
+  }
+}
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`);
+  return data as T;
+}
+
+/** The unfinished upload of this file, when the server still has it. */
+async function resumeUpload(file: File): Promise<UploadStatus | null> {
+  const uploadId = readResumeId(file);
+  if (!uploadId) return null;
+  try {
+    const { upload } = await requestJson<{ upload: UploadStatus }>(
+      `/api/files/uploads/${encodeURIComponent(uploadId)}`
+    );
+    return upload;
+  } catch {
+    writeResumeId(file, null);
+    return null;
+  }
+}
+
+async function putChunk(upload: UploadStatus, index: number, body: Blob, signal?: AbortSignal) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await requestJson(`/api/files/uploads/${upload.uploadId}/chunks/${index}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/octet-stream" },
+        body,
+        signal,
+      });
+      return;
+    } catch (err) {
+      if (signal?.aborted || attempt >= MAX_CHUNK_RETRIES) throw err;
+      await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS * attempt));
+    }
+  }
+}
+
+/**
+ * Upload a file and return its file store handle. `onProgress` gets the
+ * share of bytes stored on the server (0–1), starting from what a resumed
+ * upload already had.
+ */
+export async function uploadFileInChunks(
+  file: File,
+  sessionId: string,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  const upload =
+    (await resumeUpload(file)) ??
+    (
+      await requestJson<{ upload: UploadStatus }>("/api/files/uploads", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionId, name: file.name, size: file.size }),
+        signal,
+      })
+    ).upload;
+  writeResumeId(file, upload.uploadId);
+
+  const chunkBytes = (index: number) =>
+    Math.min(upload.chunkSize, file.size - index * upload.chunkSize);
+  const received = new Set(upload.received);
+  let loaded = upload.received.reduce((sum, index) => sum + chunkBytes(index), 0);
+  const report = () => onProgress?.(file.size > 0 ? loaded / file.size : 1);
+  report();
+
+  for (let index = 0; index < upload.chunkCount; index++) {
+    if (received.has(index)) continue;
+    const start = index * upload.chunkSize;
+    await putChunk(upload, index, file.slice(start, start + upload.chunkSize), signal);
+    loaded += chunkBytes(index);
+    report();
+  }
+
+  const { file: stored } = await requestJson<{ file: { handle: string } }>(
+    `/api/files/uploads/${upload.uploadId}/complete`,
+    { method: "POST", signal }
+  );
+  writeResumeId(file, null);
+  return stored.handle;
+}
@@ -0,0 +1,153 @@
+/**
+ * Data File Formats
+ *
+ * The single list of tabular formats the app understands. The file picker's
+ * `accept` attribute, the client's decision to request a preview, the preview
+ * route and the previews of files generated by code execution all read from
+ * here, so adding a format is one entry plus its preview script.
+ */
+
+export type DataFormat =
+  | "delimited"
+  | "excel"
+  | "json"
+  | "jsonl"
+  | "parquet"
+  | "feather"
+  | "sqlite"
+  | "spss"
+  | "stata"
+  | "sas"
+  | "zip";
+
+interface DataFormatSpec {
+  /** Extensions without the dot; compound ones such as `csv.gz` are matched first */
+  extensions: string[];
+  label: string;
+  mimeType: string;
+  /** Not readable as text; the client shows no raw-text preview */
+  binary: boolean;
+}
+
+export const DATA_FORMATS: Record<DataFormat, DataFormatSpec> = {
+  delimited: {
+    extensions: ["csv", "tsv", "txt", "csv.gz", "tsv.gz"],
+    label: "CSV / TSV",
+    mimeType: "text/csv",
+    binary: false,
+  },
+  excel: {
+    extensions: ["xlsx", "xls"],
+    label: "Excel",
+    mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    binary: true,
+  },
+  json: { extensions: ["json"], label: "JSON", mimeType: "application/json", binary: false },
+  jsonl: {
+    extensions: ["jsonl", "ndjson"],
+    label: "JSON Lines",
+    mimeType: "application/x-ndjson",
+    binary: false,
+  },
+  parquet: { extensions: ["parquet"], label: "Parquet", mimeType: "application/octet-stream", binary: true },
+  feather: {
+    extensions: ["feather", "arrow"],
+    label: "Feather / Arrow",
+    mimeType: "application/vnd.apache.arrow.file",
+    binary: true,
+  },
+  sqlite: {
+    extensions: ["db", "sqlite", "sqlite3"],
+    label: "SQLite",
+    mimeType: "application/vnd.sqlite3",
+    binary: true,
+  },
+  spss: { extensions: ["sav"], label: "SPSS", mimeType: "application/x-spss-sav", binary: true },
+  stata: { extensions: ["dta"], label: "Stata", mimeType: "application/x-stata-dta", binary: true },
+  sas: { extensions: ["sas7bdat"], label: "SAS", mimeType: "application/x-sas-data", binary: true },
+  zip: { extensions: ["zip"], label: "ZIP", mimeType: "application/zip", binary: true },
+};
+
+const REGISTERED = (Object.keys(DATA_FORMATS) as DataFormat[]).flatMap((format) =>
+  DATA_FORMATS[format].extensions.map((ext) => ({ ext, format }))
+);
+
+export const SUPPORTED_DATA_EXTENSIONS = REGISTERED.map((e) => e.ext);
+
+// Longest extensions first so `data.csv.gz` is matched as a whole
+const EXTENSIONS = [...REGISTERED].sort((a, b) => b.ext.length - a.ext.length);
+
+/** Value for `<input type="file" accept>`; browsers match the final suffix only. */
+export const DATA_FILE_ACCEPT = Array.from(
+  new Set(REGISTERED.map((e) => `.${e.ext.split(".").pop()}`))
+).join(",");
+
+export function detectDataFormat(fileName: string): DataFormat | null {
+  const lower = fileName.toLowerCase();
+  return EXTENSIONS.find((e) => lower.endsWith(`.${e.ext}`))?.format ?? null;
+}
+
+export function isBinaryDataFile(fileName: string): boolean {
+  const format = detectDataFormat(fileName);
+  // Gzipped text tables are binary on the wire
+  return format !== null && (DATA_FORMATS[format].binary || /\.gz$/i.test(fileName));
+}
+
+export function dataFileMimeType(fileName: string): string | null {
+  const format = detectDataFormat(fileName);
+  return format ? DATA_FORMATS[format].mimeType : null;
+}
+
+/** Where the members of an uploaded archive are extracted in the sandbox. */
+export function archiveExtractDir(fileName: string): string {
+  return `/home/user/${fileName.replace(/\.zip$/i, "")}`;
+}
+
+export function pyString(value: string): string {
+  // JSON string literals are valid Python literals
+  return JSON.stringify(value);
+}
+
+/**
+ * The pandas expression that loads a file (or one SQLite table) as a
+ * DataFrame, for prompts and preview scripts. SQLite expressions expect
+ * `import sqlite3`. Returns null for archives and for databases without a
+ * table name, which have no single-table reading.
+ */
+export function pandasReadCall(
+  fileName: string,
+  path: string,
+  options: { table?: string; nrows?: number } = {}
+): string | null {
+  const format = detectDataFormat(fileName);
+  const nrows = options.nrows !== undefined ? `, nrows=${options.nrows}` : "";
+  switch (format) {
+    case "delimited": {
+      const sep = /\.tsv(\.gz)?$/i.test(fileName) ? `, sep="\\t"` : "";
+      return `pd.read_csv(${pyString(path)}${sep}${nrows})`;
+    }
+    case "excel":
+      return options.table !== undefined
+        ? `pd.read_excel(${pyString(path)}, sheet_name=${pyString(options.table)}${nrows})`
+        : `pd.read_excel(${pyString(path)}${nrows})`;
+    case "json":
+      return `pd.read_json(${pyString(path)})`;
+    case "jsonl":
+      return `pd.read_json(${pyString(path)}, lines=True${nrows})`;
+    case "parquet":
+      return `pd.read_parquet(${pyString(path)})`;
+    case "feather":
+      return `pd.read_feather(${pyString(path)})`;
+    case "spss":
+      return `pd.read_spss(${pyString(path)})`;
+    case "stata":
+      return `pd.read_stata(${pyString(path)})`;
+    case "sas":
+      return `pd.read_sas(${pyString(path)}, format="sas7bdat", encoding="infer")`;
+    case "sqlite":
+      if (options.table === undefined) return null;
+      return `pd.read_sql_query(${pyString(`SELECT * FROM "${options.table.replace(/"/g, '""')}"`)}, sqlite3.connect(${pyString(path)}))`;
+    default:
+      return null;
+  }
+}
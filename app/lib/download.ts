@@ -0,0 +1,19 @@
+/**
+ * Browser Download
+ *
+ * Saves generated content (exports, reports, result files) as a local file
+ * through a temporary object URL.
+ */
+
+/** Download `content` as a file called `name` with MIME type `type`. */
+export function downloadBlob(content: BlobPart, name: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
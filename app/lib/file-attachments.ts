@@ -0,0 +1,57 @@
+import type { FileAttachment } from "../hooks/useChat";
+import { isBinaryDataFile } from "./data-formats";
+import { generateUUID } from "./uuid";
+
+// Matches the server file store limit
+const MAX_FILE_SIZE = 2 * 1024 * 1024 * 1024;
+
+async function readFilePreview(file: File, maxLines = 6): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const text = reader.result as string;
+      const lines = text.split("\n").slice(0, maxLines);
+      resolve(lines.join("\n"));
+    };
+    reader.onerror = reject;
+    const blob = file.slice(0, 8192);
+    reader.readAsText(blob);
+  });
+}
+
+/**
+ * Turn files picked in the browser into attachments for `addFiles`, which
+ * uploads them in chunks. Files that are too large or unreadable are
+ * reported in `errors` instead.
+ */
+export async function toAttachments(
+  files: File[]
+): Promise<{ attachments: FileAttachment[]; errors: string[] }> {
+  const attachments: FileAttachment[] = [];
+  const errors: string[] = [];
+
+  for (const file of files) {
+    if (file.size > MAX_FILE_SIZE) {
+      errors.push(`${file.name}: 超过 2GB 限制`);
+      continue;
+    }
+    try {
+      const preview = isBinaryDataFile(file.name) ? "(二进制数据文件)" : await readFilePreview(file);
+      attachments.push({
+        id: generateUUID(),
+        name: file.name,
+        type: file.type || "text/plain",
+        size: file.size,
+        // Uploaded to the server file store in chunks by addFiles
+        content: "",
+        source: file,
+        preview,
+      });
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : "读取失败";
+      errors.push(`${file.name}: ${errMsg}`);
+    }
+  }
+
+  return { attachments, errors };
+}
@@ -0,0 +1,350 @@
+import { createReadStream } from "node:fs";
+import { mkdir, open, readdir, readFile, rename, rm, rmdir, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { Readable } from "node:stream";
+import { getDataDir, getSession, isValidSessionId, listSessions } from "./session-store";
+import { generateUUID } from "./uuid";
+
+/**
+ * Upload Store
+ *
+ * Files the user uploads are written once to
+ * `NEXT_ANALYST_DATA_DIR/uploads/<sessionId>/<fileId>` with a metadata file
+ * beside them. The client keeps only the returned handle
+ * (`<sessionId>/<fileId>`) and passes it to preview and execution, which
+ * stream the bytes from disk instead of receiving them with every request.
+ * Stored files never change, so a handle always names the same content.
+ *
+ * Uploads arrive in fixed-size chunks (init → put chunks → complete). Chunks
+ * are kept under `uploads/.partial/<uploadId>` until the upload completes,
+ * so an interrupted upload resumes by sending only the missing chunks.
+ * Completing records the stored file under `uploads/.completed/<uploadId>`,
+ * so a retried complete returns the same handle. Partial uploads untouched
+ * for `STALE_UPLOAD_MS` and old completion records are swept on
+ * `createUpload`, as are stored files no saved session has referenced for
+ * `ORPHAN_UPLOAD_MS` (uploads of unsaved or cleared conversations).
+ */
+
+export const MAX_UPLOAD_SIZE = 2 * 1024 * 1024 * 1024; // 2GB per file
+export const UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024; // 8MB
+
+export interface StoredFile {
+  handle: string;
+  name: string;
+  size: number;
+  createdAt: number;
+}
+
+export interface UploadSession {
+  uploadId: string;
+  sessionId: string;
+  name: string;
+  size: number;
+  chunkSize: number;
+  chunkCount: number;
+  createdAt: number;
+}
+
+export interface UploadStatus extends UploadSession {
+  /** Indices of the chunks already stored */
+  received: number[];
+}
+
+/** A rejected upload request; `status` is the HTTP status to answer with. */
+export class UploadError extends Error {
+  constructor(
+    message: string,
+    readonly status: number = 400
+  ) {
+    super(message);
+    this.name = "UploadError";
+  }
+}
+
+const HANDLE_PATTERN = /^[A-Za-z0-9-]{1,64}\/[A-Za-z0-9-]{1,64}$/;
+const UPLOAD_ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/;
+// Session ids never contain a dot, so these cannot collide with one
+const PARTIAL_DIR = ".partial";
+const COMPLETED_DIR = ".completed";
+const STALE_UPLOAD_MS = 24 * 60 * 60 * 1000; // 24 hours
+const ORPHAN_UPLOAD_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+function uploadsDir(): string {
+  return path.join(getDataDir(), "uploads");
+}
+
+export function isValidFileHandle(handle: unknown): handle is string {
+  return typeof handle === "string" && HANDLE_PATTERN.test(handle);
+}
+
+function filePath(handle: string): string {
+  if (!isValidFileHandle(handle)) throw new Error("Invalid file handle");
+  return path.join(uploadsDir(), ...handle.split("/"));
+}
+
+function metaPath(handle: string): string {
+  return `${filePath(handle)}.json`;
+}
+
+function partialDir(uploadId: string): string {
+  if (!UPLOAD_ID_PATTERN.test(uploadId)) throw new UploadError("Invalid upload id");
+  return path.join(uploadsDir(), PARTIAL_DIR, uploadId);
+}
+
+function chunkPath(uploadId: string, index: number): string {
+  return path.join(partialDir(uploadId), `${index}.part`);
+}
+
+function completedPath(uploadId: string): string {
+  if (!UPLOAD_ID_PATTERN.test(uploadId)) throw new UploadError("Invalid upload id");
+  return path.join(uploadsDir(), COMPLETED_DIR, `${uploadId}.json`);
+}
+
+/** Unique temp name beside `target`, so concurrent writers never share one. */
+function tmpPath(target: string): string {
+  return `${target}.${process.pid}.${generateUUID()}.tmp`;
+}
+
+// ============================================================
+// Chunked uploads
+// ============================================================
+
+let lastSweep = 0;
+
+/** Remove entries of `dir` last modified before `cutoff`. */
+async function removeOlderThan(dir: string, cutoff: number): Promise<void> {
+  let names: string[];
+  try {
+    names = await readdir(dir);
+  } catch {
+    return;
+  }
+  for (const name of names) {
+    const entry = path.join(dir, name);
+    try {
+      if ((await stat(entry)).mtimeMs < cutoff) await rm(entry, { recursive: true, force: true });
+    } catch {
+      // Removed concurrently
+    }
+  }
+}
+
+/** Handles of stored files listed anywhere in a saved session (files, message attachments). */
+async function referencedHandles(): Promise<Set<string>> {
+  const handles = new Set<string>();
+  for (const summary of await listSessions()) {
+    const session = await getSession(summary.id);
+    if (!session) continue;
+    // Session content is opaque to the server; handles are found by their key
+    for (const match of JSON.stringify(session).matchAll(/"handle":"([^"]+)"/g)) {
+      if (isValidFileHandle(match[1])) handles.add(match[1]);
+    }
+  }
+  return handles;
+}
+
+/** Delete stored files older than `cutoff` that no saved session lists. */
+async function removeOrphanedFiles(cutoff: number): Promise<void> {
+  const referenced = await referencedHandles();
+  let dirs: string[];
+  try {
+    dirs = (await readdir(uploadsDir())).filter((name) => isValidSessionId(name));
+  } catch {
+    return;
+  }
+  for (const dir of dirs) {
+    try {
+      const names = await readdir(path.join(uploadsDir(), dir));
+      let removed = false;
+      for (const name of names.filter((n) => n.endsWith(".json"))) {
+        const handle = `${dir}/${name.slice(0, -".json".length)}`;
+        if (!isValidFileHandle(handle) || referenced.has(handle)) continue;
+        if ((await stat(metaPath(handle))).mtimeMs < cutoff) {
+          await deleteUpload(handle);
+          removed = true;
+        }
+      }
+      // Fails while files remain
+      if (removed) await rmdir(path.join(uploadsDir(), dir)).catch(() => {});
+    } catch {
+      // Removed concurrently
+    }
+  }
+}
+
+/**
+ * Drop abandoned partial uploads, old completion records and orphaned
+ * stored files, at most once per interval.
+ */
+async function sweepStaleUploads(): Promise<void> {
+  const now = Date.now();
+  if (now - lastSweep < SWEEP_INTERVAL_MS) return;
+  lastSweep = now;
+  const cutoff = now - STALE_UPLOAD_MS;
+  await removeOlderThan(path.join(uploadsDir(), PARTIAL_DIR), cutoff);
+  await removeOlderThan(path.join(uploadsDir(), COMPLETED_DIR), cutoff);
+  await removeOrphanedFiles(now - ORPHAN_UPLOAD_MS);
+}
+
+/** Start an upload; the client then sends `chunkCount` chunks of `chunkSize`. */
+export async function createUpload(sessionId: string, name: string, size: number): Promise<UploadStatus> {
+  if (!isValidSessionId(sessionId)) throw new UploadError("Invalid session id");
+  if (!name || name.length > 255 || /[\\/]/.test(name)) throw new UploadError("Invalid file name");
+  if (!Number.isSafeInteger(size) || size < 0) throw new UploadError("Invalid file size");
+  if (size > MAX_UPLOAD_SIZE) {
+    throw new UploadError(`File too large (max ${MAX_UPLOAD_SIZE / 1024 / 1024}MB)`, 413);
+  }
+
+  const upload: UploadSession = {
+    uploadId: generateUUID(),
+    sessionId,
+    name,
+    size,
+    chunkSize: UPLOAD_CHUNK_SIZE,
+    // An empty file is still one (empty) chunk
+    chunkCount: Math.max(1, Math.ceil(size / UPLOAD_CHUNK_SIZE)),
+    createdAt: Date.now(),
+  };
+  await sweepStaleUploads().catch(() => {});
+  const dir = partialDir(upload.uploadId);
+  await mkdir(dir, { recursive: true });
+  await writeFile(path.join(dir, "upload.json"), JSON.stringify(upload), "utf-8");
+  return { ...upload, received: [] };
+}
+
+/** An upload in progress with its stored chunks, or null once completed or unknown. */
+export async function getUploadStatus(uploadId: string): Promise<UploadStatus | null> {
+  let upload: UploadSession;
+  let names: string[];
+  try {
+    const dir = partialDir(uploadId);
+    upload = JSON.parse(await readFile(path.join(dir, "upload.json"), "utf-8")) as UploadSession;
+    names = await readdir(dir);
+  } catch {
+    return null;
+  }
+  const received = names
+    .filter((n) => /^\d+\.part$/.test(n))
+    .map((n) => Number(n.slice(0, -".part".length)))
+    .sort((a, b) => a - b);
+  return { ...upload, received };
+}
+
+async function requireUpload(uploadId: string): Promise<UploadStatus> {
+  const upload = await getUploadStatus(uploadId);
+  if (!upload) throw new UploadError("Upload not found", 404);
+  return upload;
+}
+
+/** Store one chunk. Re-sending a chunk overwrites it, so retries are safe. */
+export async function writeChunk(uploadId: string, index: number, data: Buffer): Promise<UploadStatus> {
+  const upload = await requireUpload(uploadId);
+  if (!Number.isInteger(index) || index < 0 || index >= upload.chunkCount) {
+    throw new UploadError(`Chunk index out of range (0-${upload.chunkCount - 1})`);
+  }
+  const expected =
+    index < upload.chunkCount - 1
+      ? upload.chunkSize
+      : upload.size - upload.chunkSize * (upload.chunkCount - 1);
+  if (data.length !== expected) {
+    throw new UploadError(`Chunk ${index} should be ${expected} bytes, got ${data.length}`);
+  }
+
+  const target = chunkPath(uploadId, index);
+  const tmp = tmpPath(target);
+  await writeFile(tmp, data);
+  await rename(tmp, target);
+  const received = upload.received.includes(index)
+    ? upload.received
+    : [...upload.received, index].sort((a, b) => a - b);
+  return { ...upload, received };
+}
+
+// Completions in progress, so concurrent retries share one assembly
+const completing = new Map<string, Promise<StoredFile>>();
+
+async function getCompleted(uploadId: string): Promise<StoredFile | null> {
+  try {
+    const stored = JSON.parse(await readFile(completedPath(uploadId), "utf-8")) as StoredFile;
+    return (await getUpload(stored.handle)) ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Assemble the chunks into a stored file and return its handle. Completing
+ * an upload again returns the same file.
+ */
+export function completeUpload(uploadId: string): Promise<StoredFile> {
+  let run = completing.get(uploadId);
+  if (!run) {
+    run = assembleUpload(uploadId).finally(() => completing.delete(uploadId));
+    completing.set(uploadId, run);
+  }
+  return run;
+}
+
+async function assembleUpload(uploadId: string): Promise<StoredFile> {
+  const completed = await getCompleted(uploadId);
+  if (completed) return completed;
+  const upload = await requireUpload(uploadId);
+  const missing = upload.chunkCount - upload.received.length;
+  if (missing > 0) throw new UploadError(`${missing} chunk(s) still missing`, 409);
+
+  const stored: StoredFile = {
+    handle: `${upload.sessionId}/${generateUUID()}`,
+    name: upload.name,
+    size: upload.size,
+    createdAt: Date.now(),
+  };
+  const target = filePath(stored.handle);
+  await mkdir(path.dirname(target), { recursive: true });
+
+  // One chunk in memory at a time
+  const tmp = tmpPath(target);
+  const out = await open(tmp, "w");
+  try {
+    for (let i = 0; i < upload.chunkCount; i++) {
+      await out.write(await readFile(chunkPath(uploadId, i)));
+    }
+  } finally {
+    await out.close();
+  }
+  await rename(tmp, target);
+  // Data first, then metadata: a handle is only readable once both exist
+  await writeFile(metaPath(stored.handle), JSON.stringify(stored), "utf-8");
+  // Record the result before the chunks go, so a retry finds one or the other
+  await mkdir(path.dirname(completedPath(uploadId)), { recursive: true });
+  await writeFile(completedPath(uploadId), JSON.stringify(stored), "utf-8");
+  await rm(partialDir(uploadId), { recursive: true, force: true });
+  return stored;
+}
+
+export async function abortUpload(uploadId: string): Promise<void> {
+  await rm(partialDir(uploadId), { recursive: true, force: true });
+}
+
+// ============================================================
+// Stored files
+// ============================================================
+
+export async function getUpload(handle: string): Promise<StoredFile | null> {
+  try {
+    return JSON.parse(await readFile(metaPath(handle), "utf-8")) as StoredFile;
+  } catch {
+    return null;
+  }
+}
+
+/** A read stream over the stored bytes, or null for unknown handles. */
+export async function openUpload(handle: string): Promise<Readable | null> {
+  if (!(await getUpload(handle))) return null;
+  return createReadStream(filePath(handle));
+}
+
+export async function deleteUpload(handle: string): Promise<void> {
+  await rm(metaPath(handle), { force: true });
+  await rm(filePath(handle), { force: true });
+}
@@ -0,0 +1,264 @@
+import { inflateSync } from "node:zlib";
+import type { KnowledgeFormat, KnowledgeSection } from "./types";
+
+/**
+ * Text Extraction
+ *
+ * Turns uploaded reference documents into labelled sections:
+ * - Markdown / plain text — split at headings, labelled with the heading path
+ * - PDF — text operators of (Flate-compressed) content streams; works for
+ *   text-based PDFs, not for scans or fonts with custom glyph encodings
+ * - CSV codebooks — one section per row, rendered as `column: value` lines
+ */
+
+const FORMAT_BY_EXTENSION: Record<string, KnowledgeFormat> = {
+  md: "markdown",
+  markdown: "markdown",
+  txt: "text",
+  pdf: "pdf",
+  csv: "csv",
+  tsv: "csv",
+};
+
+export const SUPPORTED_KNOWLEDGE_EXTENSIONS = Object.keys(FORMAT_BY_EXTENSION);
+
+export function detectKnowledgeFormat(fileName: string): KnowledgeFormat | null {
+  const ext = fileName.split(".").pop()?.toLowerCase() || "";
+  return FORMAT_BY_EXTENSION[ext] ?? null;
+}
+
+function decodeText(data: Buffer): string {
+  // Strip a UTF-8 BOM; codebooks exported from Excel often carry one
+  const text = data.toString("utf-8");
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+// ============================================================
+// Markdown / Text
+// ============================================================
+
+function extractMarkdown(text: string): KnowledgeSection[] {
+  const sections: KnowledgeSection[] = [];
+  const headingPath: string[] = [];
+  let buffer: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const body = buffer.join("\n").trim();
+    if (body) sections.push({ label: headingPath.filter(Boolean).join(" > ") || undefined, text: body });
+    buffer = [];
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const heading = !inFence && /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      headingPath.length = level - 1;
+      headingPath[level - 1] = heading[2];
+      continue;
+    }
+    buffer.push(line);
+  }
+  flush();
+  return sections;
+}
+
+// ============================================================
+// CSV Codebooks
+// ============================================================
+
+/** Minimal RFC 4180 parser (quoted fields, escaped quotes, embedded newlines). */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+function extractCodebook(text: string, fileName: string): KnowledgeSection[] {
+  const delimiter = fileName.toLowerCase().endsWith(".tsv") ? "\t" : ",";
+  const [header, ...rows] = parseDelimited(text, delimiter);
+  if (!header) return [];
+
+  return rows.map((cells) => ({
+    // The first column of a codebook is almost always the variable / metric name
+    label: cells[0]?.trim() || undefined,
+    text: header
+      .map((column, i) => (cells[i]?.trim() ? `${column.trim()}: ${cells[i].trim()}` : ""))
+      .filter(Boolean)
+      .join("\n"),
+  }));
+}
+
+// ============================================================
+// PDF
+// ============================================================
+
+function decodePdfLiteral(raw: string): string {
+  return raw.replace(/\\(\d{1,3}|[\s\S])/g, (_, esc: string) => {
+    if (/^\d+$/.test(esc)) return String.fromCharCode(parseInt(esc, 8));
+    switch (esc) {
+      case "n": return "\n";
+      case "r": return "\r";
+      case "t": return "\t";
+      case "b": return "\b";
+      case "f": return "\f";
+      case "\n": return ""; // line continuation
+      default: return esc;
+    }
+  });
+}
+
+function decodePdfHex(hex: string): string {
+  const clean = hex.replace(/\s+/g, "");
+  const bytes = Buffer.from(clean.length % 2 ? clean + "0" : clean, "hex");
+  // UTF-16BE strings start with a BOM; anything else is a single-byte encoding
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    const swapped = Buffer.from(bytes.subarray(2));
+    swapped.swap16();
+    return swapped.toString("utf16le");
+  }
+  return bytes.toString("latin1");
+}
+
+/** Extract the text shown by BT … ET blocks of one content stream. */
+function extractPdfContentText(content: string): string {
+  const out: string[] = [];
+  const blocks = content.match(/BT[\s\S]*?ET/g) || [];
+  const tokenPattern =
+    /\((?:\\[\s\S]|[^\\)])*\)|<[0-9A-Fa-f\s]*>|\[(?:\((?:\\[\s\S]|[^\\)])*\)|<[0-9A-Fa-f\s]*>|[^\]])*\]|T\*|Td|TD|Tm|'|"/g;
+
+  for (const block of blocks) {
+    let line = "";
+    for (const match of block.match(tokenPattern) || []) {
+      if (match.startsWith("(")) {
+        line += decodePdfLiteral(match.slice(1, -1));
+      } else if (match.startsWith("<")) {
+        line += decodePdfHex(match.slice(1, -1));
+      } else if (match.startsWith("[")) {
+        const parts = match.match(/\((?:\\[\s\S]|[^\\)])*\)|<[0-9A-Fa-f\s]*>|-?\d+(?:\.\d+)?/g) || [];
+        for (const part of parts) {
+          if (part.startsWith("(")) line += decodePdfLiteral(part.slice(1, -1));
+          else if (part.startsWith("<")) line += decodePdfHex(part.slice(1, -1));
+          // Large negative kerning is how PDFs encode word spacing
+          else if (Number(part) < -200) line += " ";
+        }
+      } else {
+        // Positioning operators start a new line
+        if (line.trim()) out.push(line.trim());
+        line = "";
+      }
+    }
+    if (line.trim()) out.push(line.trim());
+  }
+  return out.join("\n");
+}
+
+// Bound on one inflated content stream, so a deflate bomb is skipped instead
+// of filling memory
+const MAX_INFLATED_STREAM_BYTES = 32 * 1024 * 1024;
+
+function extractPdf(data: Buffer): KnowledgeSection[] {
+  const raw = data.toString("latin1");
+  const streamPattern = /\bobj\b([\s\S]*?)\bstream\r?\n/g;
+  const pages: string[] = [];
+
+  let match: RegExpExecArray | null;
+  while ((match = streamPattern.exec(raw))) {
+    const start = match.index + match[0].length;
+    const end = raw.indexOf("endstream", start);
+    if (end < 0) break;
+    streamPattern.lastIndex = end;
+
+    // Objects without a stream make the match run on — keep the last object's dict
+    const dict = match[1].split(/\bendobj\b/).pop() || "";
+    // Skip images, fonts and other binary payloads
+    if (/\/Subtype\s*\/(Image|Form)|\/Length1|\/FontFile/.test(dict)) continue;
+
+    let content = data.subarray(start, end);
+    if (/\/FlateDecode/.test(dict)) {
+      try {
+        content = inflateSync(content, { maxOutputLength: MAX_INFLATED_STREAM_BYTES });
+      } catch {
+        continue; // Corrupt, or larger than the bound
+      }
+    } else if (/\/Filter/.test(dict)) {
+      continue; // Unsupported filter
+    }
+
+    const text = extractPdfContentText(content.toString("latin1"));
+    if (text.trim()) pages.push(text);
+  }
+
+  return pages.map((text, i) => ({ label: `第 ${i + 1} 段`, text }));
+}
+
+// ============================================================
+// Entry Point
+// ============================================================
+
+/**
+ * Extract labelled sections from a document. Throws if the format is not
+ * supported or no text could be found.
+ */
+export function extractSections(fileName: string, data: Buffer): {
+  format: KnowledgeFormat;
+  sections: KnowledgeSection[];
+} {
+  const format = detectKnowledgeFormat(fileName);
+  if (!format) {
+    throw new Error(
+      `Unsupported document format. Supported: ${SUPPORTED_KNOWLEDGE_EXTENSIONS.join(", ")}`
+    );
+  }
+
+  const sections =
+    format === "pdf"
+      ? extractPdf(data)
+      : format === "csv"
+        ? extractCodebook(decodeText(data), fileName)
+        : extractMarkdown(decodeText(data));
+
+  if (sections.length === 0) {
+    throw new Error(
+      format === "pdf"
+        ? "No extractable text found in PDF (scanned or uses embedded font encodings)"
+        : "Document contains no text"
+    );
+  }
+  return { format, sections };
+}
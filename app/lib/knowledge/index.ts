@@ -0,0 +1,3 @@
+export * from "./types";
+export { SUPPORTED_KNOWLEDGE_EXTENSIONS, detectKnowledgeFormat } from "./extract";
+export { addDocument, deleteDocument, listDocuments, searchDocuments } from "./store";
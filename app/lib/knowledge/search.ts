@@ -0,0 +1,138 @@
+import type { KnowledgeChunk, KnowledgeSection } from "./types";
+
+/**
+ * Chunking & Lexical Ranking
+ *
+ * Sections are packed into ~800 character chunks (with a short overlap so a
+ * definition split across a boundary is still found) and ranked with Okapi
+ * BM25. Chinese has no word boundaries, so CJK runs are indexed as
+ * character unigrams plus bigrams; Latin text as lower-cased words.
+ */
+
+const CHUNK_SIZE = 800;
+const CHUNK_OVERLAP = 120;
+const SNIPPET_LENGTH = 320;
+
+// BM25 parameters (standard defaults)
+const K1 = 1.2;
+const B = 0.75;
+
+const CJK_RUN = /[\u3400-\u9fff\uf900-\ufaff]+/g;
+const WORD = /[a-z0-9_\u00c0-\u024f]+/g;
+
+export function tokenize(text: string): string[] {
+  const lower = text.toLowerCase();
+  const tokens: string[] = [];
+
+  for (const run of lower.match(CJK_RUN) || []) {
+    for (let i = 0; i < run.length; i++) {
+      tokens.push(run[i]);
+      if (i + 1 < run.length) tokens.push(run.slice(i, i + 2));
+    }
+  }
+  for (const word of lower.replace(CJK_RUN, " ").match(WORD) || []) {
+    tokens.push(word);
+  }
+  return tokens;
+}
+
+/** Split one section into overlapping chunks along paragraph boundaries. */
+function chunkText(text: string): string[] {
+  if (text.length <= CHUNK_SIZE) return [text];
+
+  const chunks: string[] = [];
+  let current = "";
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    // Hard-split paragraphs that are larger than a chunk on their own
+    const pieces: string[] = [];
+    for (let i = 0; i < paragraph.length; i += CHUNK_SIZE - CHUNK_OVERLAP) {
+      pieces.push(paragraph.slice(i, i + CHUNK_SIZE));
+      if (i + CHUNK_SIZE >= paragraph.length) break;
+    }
+    for (const piece of pieces) {
+      if (current && current.length + piece.length + 2 > CHUNK_SIZE) {
+        chunks.push(current);
+        current = current.slice(-CHUNK_OVERLAP) + "\n\n" + piece;
+      } else {
+        current = current ? `${current}\n\n${piece}` : piece;
+      }
+    }
+  }
+  if (current.trim()) chunks.push(current);
+  return chunks;
+}
+
+export function chunkSections(
+  documentId: string,
+  sections: KnowledgeSection[]
+): KnowledgeChunk[] {
+  const chunks: KnowledgeChunk[] = [];
+  for (const section of sections) {
+    for (const text of chunkText(section.text)) {
+      chunks.push({
+        id: `${documentId}-${chunks.length}`,
+        documentId,
+        label: section.label,
+        text: text.trim(),
+      });
+    }
+  }
+  return chunks;
+}
+
+/** Text that is indexed for a chunk — the label too, so "GMV" finds the section titled "GMV". */
+export function indexedText(chunk: KnowledgeChunk): string {
+  return chunk.label ? `${chunk.label}\n${chunk.text}` : chunk.text;
+}
+
+/**
+ * Score every chunk against the query. Returns chunk index → score for
+ * chunks with a positive score.
+ */
+export function bm25Scores(
+  query: string,
+  chunkTokens: string[][]
+): Map<number, number> {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const scores = new Map<number, number>();
+  if (queryTerms.length === 0 || chunkTokens.length === 0) return scores;
+
+  const avgLength =
+    chunkTokens.reduce((sum, tokens) => sum + tokens.length, 0) / chunkTokens.length || 1;
+  const termCounts = chunkTokens.map((tokens) => {
+    const counts = new Map<string, number>();
+    for (const t of tokens) counts.set(t, (counts.get(t) || 0) + 1);
+    return counts;
+  });
+
+  for (const term of queryTerms) {
+    const docFreq = termCounts.filter((counts) => counts.has(term)).length;
+    if (docFreq === 0) continue;
+    const idf = Math.log(1 + (chunkTokens.length - docFreq + 0.5) / (docFreq + 0.5));
+
+    termCounts.forEach((counts, i) => {
+      const tf = counts.get(term);
+      if (!tf) return;
+      const norm = tf + K1 * (1 - B + (B * chunkTokens[i].length) / avgLength);
+      scores.set(i, (scores.get(i) || 0) + (idf * tf * (K1 + 1)) / norm);
+    });
+  }
+  return scores;
+}
+
+/** A window of the chunk around the first query term it contains. */
+export function makeSnippet(text: string, query: string): string {
+  const compact = text.replace(/\s+/g, " ").trim();
+  if (compact.length <= SNIPPET_LENGTH) return compact;
+
+  const lower = compact.toLowerCase();
+  const positions = tokenize(query)
+    .filter((t) => t.length > 1 || /[\u3400-\u9fff]/.test(t))
+    .map((t) => lower.indexOf(t))
+    .filter((p) => p >= 0);
+  const anchor = positions.length > 0 ? Math.min(...positions) : 0;
+
+  const start = Math.max(0, Math.min(anchor - SNIPPET_LENGTH / 4, compact.length - SNIPPET_LENGTH));
+  const end = start + SNIPPET_LENGTH;
+  return `${start > 0 ? "…" : ""}${compact.slice(start, end)}${end < compact.length ? "…" : ""}`;
+}
@@ -0,0 +1,196 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { OpenAIEmbeddings } from "@langchain/openai";
+import { getDataDir } from "../session-store";
+import { generateUUID } from "../uuid";
+import { extractSections } from "./extract";
+import { bm25Scores, chunkSections, indexedText, makeSnippet, tokenize } from "./search";
+import type { KnowledgeChunk, KnowledgeDocument, KnowledgeHit } from "./types";
+
+/**
+ * Knowledge Index
+ *
+ * All documents and chunks live in one JSON file under
+ * `NEXT_ANALYST_DATA_DIR/knowledge/index.json`. Ranking is BM25; when
+ * `KNOWLEDGE_EMBEDDING_MODEL` is set, chunks are also embedded through the
+ * configured OpenAI-compatible endpoint and both rankings are fused. Any
+ * embedding failure silently falls back to BM25 only.
+ */
+
+interface KnowledgeIndex {
+  documents: KnowledgeDocument[];
+  chunks: KnowledgeChunk[];
+}
+
+const DEFAULT_TOP_K = 5;
+// Reciprocal rank fusion constant (standard value from the RRF paper)
+const RRF_K = 60;
+
+let cachedIndex: KnowledgeIndex | null = null;
+let cachedTokens: string[][] | null = null;
+// Serializes read-modify-write cycles of the index file
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function indexPath(): string {
+  return path.join(getDataDir(), "knowledge", "index.json");
+}
+
+async function loadIndex(): Promise<KnowledgeIndex> {
+  if (cachedIndex) return cachedIndex;
+  try {
+    cachedIndex = JSON.parse(await readFile(indexPath(), "utf-8")) as KnowledgeIndex;
+  } catch {
+    cachedIndex = { documents: [], chunks: [] };
+  }
+  cachedTokens = null;
+  return cachedIndex;
+}
+
+async function saveIndex(index: KnowledgeIndex): Promise<void> {
+  const target = indexPath();
+  await mkdir(path.dirname(target), { recursive: true });
+  const tmp = `${target}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(index), "utf-8");
+  await rename(tmp, target);
+  cachedIndex = index;
+  cachedTokens = null;
+}
+
+function withWriteLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = writeQueue.then(fn, fn);
+  writeQueue = run.catch(() => {});
+  return run;
+}
+
+function getEmbeddings(): OpenAIEmbeddings | null {
+  const model = process.env.KNOWLEDGE_EMBEDDING_MODEL;
+  if (!model) return null;
+  return new OpenAIEmbeddings({
+    apiKey: process.env.OPENAI_API_KEY,
+    configuration: { baseURL: process.env.OPENAI_BASE_URL },
+    model,
+  });
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length && i < b.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export async function listDocuments(): Promise<KnowledgeDocument[]> {
+  const index = await loadIndex();
+  return [...index.documents].sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Extract, chunk, (optionally) embed and index a document. A document with
+ * the same name replaces the previous version.
+ */
+export async function addDocument(name: string, data: Buffer): Promise<KnowledgeDocument> {
+  const { format, sections } = extractSections(name, data);
+  const documentId = generateUUID();
+  const chunks = chunkSections(documentId, sections);
+
+  const embeddings = getEmbeddings();
+  if (embeddings) {
+    try {
+      const vectors = await embeddings.embedDocuments(chunks.map(indexedText));
+      chunks.forEach((chunk, i) => {
+        chunk.embedding = vectors[i];
+      });
+    } catch {
+      // Endpoint has no embedding model — BM25 still works
+    }
+  }
+
+  const document: KnowledgeDocument = {
+    id: documentId,
+    name,
+    format,
+    size: data.length,
+    createdAt: Date.now(),
+    chunkCount: chunks.length,
+  };
+
+  await withWriteLock(async () => {
+    const index = await loadIndex();
+    const replaced = new Set(index.documents.filter((d) => d.name === name).map((d) => d.id));
+    await saveIndex({
+      documents: [...index.documents.filter((d) => !replaced.has(d.id)), document],
+      chunks: [...index.chunks.filter((c) => !replaced.has(c.documentId)), ...chunks],
+    });
+  });
+  return document;
+}
+
+export async function deleteDocument(id: string): Promise<boolean> {
+  return withWriteLock(async () => {
+    const index = await loadIndex();
+    if (!index.documents.some((d) => d.id === id)) return false;
+    await saveIndex({
+      documents: index.documents.filter((d) => d.id !== id),
+      chunks: index.chunks.filter((c) => c.documentId !== id),
+    });
+    return true;
+  });
+}
+
+/** Rank chunks for a query and return the best snippets with their sources. */
+export async function searchDocuments(
+  query: string,
+  topK: number = DEFAULT_TOP_K
+): Promise<KnowledgeHit[]> {
+  const index = await loadIndex();
+  if (index.chunks.length === 0) return [];
+
+  if (!cachedTokens) cachedTokens = index.chunks.map((c) => tokenize(indexedText(c)));
+  const lexical = Array.from(bm25Scores(query, cachedTokens).entries()).sort(
+    (a, b) => b[1] - a[1]
+  );
+
+  // Dense ranking, only when both the query and the chunks have vectors
+  let dense: Array<[number, number]> = [];
+  const embeddings = getEmbeddings();
+  if (embeddings && index.chunks.some((c) => c.embedding)) {
+    try {
+      const queryVector = await embeddings.embedQuery(query);
+      dense = index.chunks
+        .map((c, i): [number, number] => [i, c.embedding ? cosine(queryVector, c.embedding) : 0])
+        .filter(([, score]) => score > 0)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, topK * 4);
+    } catch {
+      dense = [];
+    }
+  }
+
+  const fused = new Map<number, number>();
+  for (const ranking of [lexical, dense]) {
+    ranking.forEach(([chunkIndex], rank) => {
+      fused.set(chunkIndex, (fused.get(chunkIndex) || 0) + 1 / (RRF_K + rank + 1));
+    });
+  }
+
+  const documents = new Map(index.documents.map((d) => [d.id, d]));
+  return Array.from(fused.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, topK)
+    .map(([chunkIndex, score], i) => {
+      const chunk = index.chunks[chunkIndex];
+      return {
+        rank: i + 1,
+        score: Math.round(score * 10000) / 10000,
+        documentId: chunk.documentId,
+        source: documents.get(chunk.documentId)?.name ?? "unknown",
+        label: chunk.label,
+        snippet: makeSnippet(chunk.text, query),
+      };
+    });
+}
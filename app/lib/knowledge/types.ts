@@ -0,0 +1,47 @@
+/**
+ * Knowledge Base Types
+ *
+ * Reference documents (data dictionaries, metric definitions, past reports)
+ * are split into chunks and indexed locally so `search_knowledge` can return
+ * ranked snippets with source references.
+ */
+
+export type KnowledgeFormat = "markdown" | "text" | "pdf" | "csv";
+
+/** A logical section of an extracted document (heading + body). */
+export interface KnowledgeSection {
+  /** Heading path, page number or codebook row label used in citations. */
+  label?: string;
+  text: string;
+}
+
+/** Metadata of an ingested document. */
+export interface KnowledgeDocument {
+  id: string;
+  name: string;
+  format: KnowledgeFormat;
+  size: number;
+  createdAt: number;
+  chunkCount: number;
+}
+
+/** A searchable slice of a document. */
+export interface KnowledgeChunk {
+  id: string;
+  documentId: string;
+  /** Section label carried over from extraction, if any. */
+  label?: string;
+  text: string;
+  /** Embedding vector when an embedding model is configured. */
+  embedding?: number[];
+}
+
+/** A ranked search result returned to the agent and rendered in the UI. */
+export interface KnowledgeHit {
+  rank: number;
+  score: number;
+  documentId: string;
+  source: string;
+  label?: string;
+  snippet: string;
+}
@@ -0,0 +1,46 @@
+export interface DiffLine {
+  type: "same" | "add" | "del";
+  text: string;
+}
+
+// LCS table size guard; longer inputs fall back to "replace everything"
+const MAX_DIFF_CELLS = 250_000;
+
+/** Line diff of two code versions (longest common subsequence). */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split(/\r?\n/);
+  const b = after.split(/\r?\n/);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...a.map((text): DiffLine => ({ type: "del", text })),
+      ...b.map((text): DiffLine => ({ type: "add", text })),
+    ];
+  }
+
+  // lcs[i][j] = LCS length of a[i:] and b[j:]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: "del", text: a[i++] });
+    } else {
+      result.push({ type: "add", text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ type: "del", text: a[i++] });
+  while (j < b.length) result.push({ type: "add", text: b[j++] });
+  return result;
+}
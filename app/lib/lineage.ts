@@ -0,0 +1,67 @@
+/**
+ * File Lineage
+ *
+ * Every file written by a code execution records where it came from: the
+ * tool call that ran, the plan step in progress, the code and the session
+ * files that code used. Versions count how often a file name has been
+ * written in the session (an uploaded file is version 1), so an input can
+ * be pinned to the exact copy a derived file was built from.
+ */
+
+export interface LineageInput {
+  name: string;
+  version: number;
+}
+
+export interface FileLineage {
+  /** Tool call whose code wrote the file */
+  toolCallId?: string;
+  /** Title of the plan step in progress when the file was written */
+  step?: string;
+  code: string;
+  /** Session files the code refers to by name, at their versions of the time */
+  inputs: LineageInput[];
+  version: number;
+  producedAt: number;
+}
+
+interface LineageFile {
+  name: string;
+  lineage?: FileLineage;
+}
+
+/** Version of a session file; 0 when there is no such file yet. */
+export function fileVersion(file: LineageFile | undefined): number {
+  if (!file) return 0;
+  return file.lineage?.version ?? 1;
+}
+
+/**
+ * Lineage of a file just written by `code`. Reads are not traced inside the
+ * sandbox, so inputs are the session files whose names appear in the code.
+ */
+export function buildLineage(
+  name: string,
+  code: string,
+  files: LineageFile[],
+  origin: { toolCallId?: string; step?: string }
+): FileLineage {
+  return {
+    toolCallId: origin.toolCallId,
+    step: origin.step,
+    code,
+    inputs: files
+      .filter((f) => f.name !== name && code.includes(f.name))
+      .map((f) => ({ name: f.name, version: fileVersion(f) })),
+    version: fileVersion(files.find((f) => f.name === name)) + 1,
+    producedAt: Date.now(),
+  };
+}
+
+/** Inputs that have been rewritten since the file was derived from them. */
+export function staleInputs(file: LineageFile, files: LineageFile[]): LineageInput[] {
+  return (file.lineage?.inputs ?? []).filter((input) => {
+    const current = files.find((f) => f.name === input.name);
+    return current !== undefined && fileVersion(current) !== input.version;
+  });
+}
@@ -0,0 +1,361 @@
+import type { Message, MessagePart, ToolCall } from "../hooks/useChat";
+import { detectDataFormat } from "./data-formats";
+import { generateUUID } from "./uuid";
+import { imageMimeType, successfulRuns, type CodeRunResult } from "./report";
+import { sanitizeHtml } from "./sanitize-html";
+
+/**
+ * Jupyter Notebooks
+ *
+ * Converts a session to an nbformat 4 notebook and back. On export the
+ * assistant's narrative becomes markdown cells and every successful
+ * `execute_python` run a code cell with its printed output, charts and
+ * tables. User questions are markdown cells tagged in the cell metadata, so
+ * a notebook exported here imports back into the same conversation turns;
+ * any other notebook imports as one assistant turn.
+ */
+
+type MultilineString = string | string[];
+
+interface NotebookOutput {
+  output_type: "stream" | "display_data" | "execute_result" | "error";
+  name?: string;
+  text?: MultilineString;
+  data?: Record<string, MultilineString>;
+  metadata?: Record<string, unknown>;
+  execution_count?: number | null;
+  ename?: string;
+  evalue?: string;
+  traceback?: string[];
+}
+
+interface NotebookCell {
+  id?: string;
+  cell_type: "markdown" | "code" | "raw";
+  source: MultilineString;
+  metadata: { next_analyst?: { role: "header" | "user"; content?: string }; [key: string]: unknown };
+  outputs?: NotebookOutput[];
+  execution_count?: number | null;
+}
+
+export interface Notebook {
+  nbformat: number;
+  nbformat_minor: number;
+  metadata: Record<string, unknown>;
+  cells: NotebookCell[];
+}
+
+/** A file that is not a readable notebook; the message is shown to the user. */
+export class NotebookImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NotebookImportError";
+  }
+}
+
+// Mirrors the per-message limit of /api/chat
+const MAX_MESSAGE_CONTENT = 50000;
+// Printed output kept per cell in the text the model reads back
+const MAX_OUTPUT_SUMMARY = 2000;
+
+/** nbformat stores text as a list of lines, each keeping its newline. */
+function toLines(text: string): string[] {
+  const lines = text.split("\n").map((line) => `${line}\n`);
+  lines[lines.length - 1] = lines[lines.length - 1].slice(0, -1);
+  return lines[lines.length - 1] ? lines : lines.slice(0, -1);
+}
+
+function fromLines(text: MultilineString | undefined): string {
+  return Array.isArray(text) ? text.join("") : text ?? "";
+}
+
+function markdownCell(text: string, metadata: NotebookCell["metadata"] = {}): NotebookCell {
+  return { id: generateUUID().slice(0, 8), cell_type: "markdown", source: toLines(text), metadata };
+}
+
+/** Decode base64 that holds text (SVG). */
+function decodeBase64Text(content: string): string {
+  const bytes = Uint8Array.from(atob(content), (c) => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+function runOutputs(result: CodeRunResult, executionCount: number): NotebookOutput[] {
+  const outputs: NotebookOutput[] = [];
+  if (result.stdout) outputs.push({ output_type: "stream", name: "stdout", text: toLines(result.stdout) });
+  if (result.stderr) outputs.push({ output_type: "stream", name: "stderr", text: toLines(result.stderr) });
+  for (const r of result.results ?? []) {
+    if (r.png) {
+      outputs.push({
+        output_type: "display_data",
+        data: { "image/png": r.png, "text/plain": ["<Figure>"] },
+        metadata: {},
+      });
+    } else if (r.html) {
+      outputs.push({
+        output_type: "execute_result",
+        execution_count: executionCount,
+        data: { "text/html": toLines(r.html), ...(r.text ? { "text/plain": toLines(r.text) } : {}) },
+        metadata: {},
+      });
+    } else if (r.text) {
+      outputs.push({
+        output_type: "execute_result",
+        execution_count: executionCount,
+        data: { "text/plain": toLines(r.text) },
+        metadata: {},
+      });
+    }
+  }
+  // Generated files cannot travel inside a notebook; images are shown inline
+  for (const f of result.generatedFiles ?? []) {
+    const mime = imageMimeType(f.name);
+    if (mime === "image/svg+xml") {
+      outputs.push({ output_type: "display_data", data: { [mime]: toLines(decodeBase64Text(f.content)) }, metadata: {} });
+    } else if (mime) {
+      outputs.push({ output_type: "display_data", data: { [mime]: f.content, "text/plain": [f.name] }, metadata: {} });
+    } else {
+      outputs.push({ output_type: "stream", name: "stdout", text: [`📎 生成文件: ${f.name} (${f.size} bytes)\n`] });
+    }
+  }
+  return outputs;
+}
+
+/** The data files attached to the session, for the notebook's header cell. */
+function inputFiles(messages: Message[]): string[] {
+  const names = new Set<string>();
+  for (const m of messages) {
+    for (const f of m.files ?? []) names.add(f.name);
+  }
+  return Array.from(names);
+}
+
+/** Export a session as an nbformat 4.5 notebook. */
+export function buildNotebook(messages: Message[], title: string): Notebook {
+  const files = inputFiles(messages);
+  const header = [
+    `# ${title}`,
+    "",
+    `*导出于 ${new Date().toLocaleString()} · Next Analyst*`,
+    "",
+    "代码中的文件路径指向分析沙箱的 `/home/user/` 目录，在本地运行前请改为数据文件所在位置。",
+    ...(files.length > 0 ? ["", "**数据文件：**", ...files.map((name) => `- ${name}`)] : []),
+  ].join("\n");
+  const cells: NotebookCell[] = [markdownCell(header, { next_analyst: { role: "header" } })];
+  let executionCount = 0;
+
+  const addToolCall = (toolCall: ToolCall) => {
+    if (toolCall.tool !== "execute_python") return;
+    for (const run of successfulRuns(toolCall)) {
+      executionCount++;
+      cells.push({
+        id: generateUUID().slice(0, 8),
+        cell_type: "code",
+        source: toLines(String(run.args.code ?? "")),
+        metadata: {},
+        outputs: runOutputs(run.result as CodeRunResult, executionCount),
+        execution_count: executionCount,
+      });
+    }
+  };
+
+  for (const message of messages) {
+    if (message.role === "user") {
+      cells.push(
+        markdownCell(`### 🙋 问题\n\n${message.content.trim()}`, {
+          next_analyst: { role: "user", content: message.content },
+        })
+      );
+      continue;
+    }
+    if (message.role !== "assistant") continue;
+
+    const parts = message.parts?.length
+      ? message.parts
+      : [
+          { type: "text" as const, text: message.content },
+          ...(message.toolCalls ?? []).map((toolCall) => ({ type: "tool_call" as const, toolCall })),
+        ];
+    for (const part of parts) {
+      if (part.type === "text" && part.text?.trim()) {
+        cells.push(markdownCell(part.text.trim()));
+      } else if (part.type === "tool_call" && part.toolCall) {
+        addToolCall(part.toolCall);
+      }
+    }
+  }
+
+  return {
+    nbformat: 4,
+    nbformat_minor: 5,
+    metadata: {
+      kernelspec: { name: "python3", display_name: "Python 3", language: "python" },
+      language_info: { name: "python" },
+    },
+    cells,
+  };
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/** The result of an imported code cell, shaped like a sandbox run. */
+type ImportedRun = {
+  type: "code_execution";
+  code: string;
+  stdout: string;
+  stderr: string;
+  results: NonNullable<CodeRunResult["results"]>;
+  generatedFiles: [];
+  error: string | null;
+};
+
+/** Rebuild the result of a code cell from its saved outputs. */
+function cellResult(cell: NotebookCell, code: string): ImportedRun {
+  let stdout = "";
+  let stderr = "";
+  let error: string | null = null;
+  const results: ImportedRun["results"] = [];
+  for (const output of cell.outputs ?? []) {
+    switch (output.output_type) {
+      case "stream":
+        if (output.name === "stderr") stderr += fromLines(output.text);
+        else stdout += fromLines(output.text);
+        break;
+      case "display_data":
+      case "execute_result": {
+        const data = output.data ?? {};
+        const png = fromLines(data["image/png"]).replace(/[^A-Za-z0-9+/=]/g, "");
+        // Notebooks come from anyone: keep table markup only
+        const html = sanitizeHtml(fromLines(data["text/html"]));
+        const text = fromLines(data["text/plain"]);
+        if (png) results.push({ png });
+        else if (html) results.push({ html, text: text || undefined });
+        else if (text) results.push({ text });
+        break;
+      }
+      case "error":
+        error = `${output.ename ?? "Error"}: ${output.evalue ?? ""}`;
+        break;
+    }
+  }
+  return { type: "code_execution", code, stdout, stderr, results, generatedFiles: [], error };
+}
+
+/** What the model reads back for a code cell: the code and a short account of its output. */
+function codeSummary(code: string, result: CodeRunResult): string {
+  const lines = ["```python", code.trimEnd(), "```"];
+  const printed = [result.stdout, ...(result.results ?? []).map((r) => (r.png ? "" : r.text ?? ""))]
+    .filter((text) => text?.trim())
+    .join("\n");
+  if (printed) {
+    const clipped = printed.length > MAX_OUTPUT_SUMMARY ? `${printed.slice(0, MAX_OUTPUT_SUMMARY)}\n…` : printed;
+    lines.push("输出:", "```", clipped.trimEnd(), "```");
+  }
+  const charts = (result.results ?? []).filter((r) => r.png).length;
+  if (charts > 0) lines.push(`（${charts} 张图表）`);
+  if (result.error) lines.push(`错误: ${result.error}`);
+  return lines.join("\n");
+}
+
+function clipContent(text: string): string {
+  return text.length > MAX_MESSAGE_CONTENT ? `${text.slice(0, MAX_MESSAGE_CONTENT - 20)}\n…（内容过长，已截断）` : text;
+}
+
+/** Data files the notebook's code reads, by base name (e.g. `pd.read_csv("data/sales.csv")`). */
+export function referencedDataFiles(notebook: Notebook): string[] {
+  const names = new Set<string>();
+  for (const cell of notebook.cells) {
+    if (cell.cell_type !== "code") continue;
+    const quoted = /["']([^"'\n]+)["']/g;
+    const source = fromLines(cell.source);
+    let match: RegExpExecArray | null;
+    while ((match = quoted.exec(source))) {
+      const name = match[1].split(/[\\/]/).pop() ?? "";
+      if (detectDataFormat(name)) names.add(name);
+    }
+  }
+  return Array.from(names);
+}
+
+/** Parse and validate the text of an `.ipynb` file. */
+export function parseNotebook(text: string): Notebook {
+  let notebook: Partial<Notebook>;
+  try {
+    notebook = JSON.parse(text);
+  } catch {
+    throw new NotebookImportError("文件不是有效的 JSON");
+  }
+  if (typeof notebook !== "object" || !notebook || !Array.isArray(notebook.cells)) {
+    throw new NotebookImportError("文件中没有 Notebook 单元格");
+  }
+  if (notebook.nbformat !== 4) {
+    throw new NotebookImportError(`不支持的 Notebook 格式版本: ${notebook.nbformat ?? "未知"}（仅支持 nbformat 4）`);
+  }
+  return notebook as Notebook;
+}
+
+/**
+ * Turn a notebook into session messages. Markdown cells become the
+ * assistant's narrative and code cells completed `execute_python` calls
+ * carrying their saved outputs; the code has not run in the new sandbox,
+ * which the opening user message tells the model.
+ */
+export function notebookToMessages(notebook: Notebook, fileName: string, missingFiles: string[]): Message[] {
+  const messages: Message[] = [];
+  const idBase = Date.now();
+  let parts: MessagePart[] = [];
+  let content: string[] = [];
+
+  const flush = () => {
+    if (parts.length === 0) return;
+    const toolCalls = parts.flatMap((p) => (p.toolCall ? [p.toolCall] : []));
+    messages.push({
+      id: `${idBase + messages.length}`,
+      role: "assistant",
+      content: clipContent(content.join("\n\n")),
+      parts,
+      toolCalls,
+    });
+    parts = [];
+    content = [];
+  };
+
+  const note = [
+    `📓 导入 Notebook「${fileName}」`,
+    "其中的代码尚未在当前会话中运行：之前定义的变量不存在，数据需要重新读取。",
+    ...(missingFiles.length > 0 ? [`Notebook 引用但未上传的数据文件：${missingFiles.join("、")}`] : []),
+  ].join("\n");
+  messages.push({ id: `${idBase}`, role: "user", content: note });
+
+  for (const cell of notebook.cells) {
+    const source = fromLines(cell.source);
+    const tag = cell.metadata?.next_analyst;
+    if (tag?.role === "header") continue;
+    if (tag?.role === "user") {
+      flush();
+      messages.push({ id: `${idBase + messages.length}`, role: "user", content: tag.content ?? source });
+      continue;
+    }
+    if (cell.cell_type === "markdown" && source.trim()) {
+      parts.push({ type: "text", text: source.trim() });
+      content.push(source.trim());
+    } else if (cell.cell_type === "code" && source.trim()) {
+      const result = cellResult(cell, source);
+      const toolCall: ToolCall = {
+        tool: "execute_python",
+        args: { code: source },
+        status: "completed",
+        result,
+      };
+      parts.push({ type: "tool_call", toolCall });
+      content.push(codeSummary(source, result));
+    }
+  }
+  flush();
+  return messages;
+}
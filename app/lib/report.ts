@@ -0,0 +1,150 @@
+import type { Message, Plan, ToolCall } from "../hooks/useChat";
+
+/**
+ * Analysis Report
+ *
+ * Collects what a session produced into report sections: one per user
+ * question, holding the assistant's narrative, plans with their step
+ * outcomes, and the charts, tables, printed output and files of the code
+ * that ran. Every item has a stable id so the report builder can include or
+ * exclude it; the code itself goes to an appendix referenced by the items.
+ */
+
+interface ReportItemBase {
+  id: string;
+}
+
+export type ReportItem =
+  | (ReportItemBase & { kind: "narrative"; text: string })
+  | (ReportItemBase & { kind: "plan"; plan: Plan })
+  | (ReportItemBase & { kind: "chart"; src: string; name?: string; codeId: string })
+  | (ReportItemBase & { kind: "table"; html: string; codeId: string })
+  | (ReportItemBase & { kind: "output"; text: string; codeId: string })
+  | (ReportItemBase & { kind: "file"; name: string; size: number; content: string; codeId: string });
+
+export interface ReportCode {
+  id: string;
+  code: string;
+}
+
+export interface ReportSection {
+  id: string;
+  title: string;
+  items: ReportItem[];
+  code: ReportCode[];
+}
+
+const SECTION_TITLE_LENGTH = 60;
+// Larger generated files are listed without their bytes
+export const MAX_EMBEDDED_FILE_SIZE = 2 * 1024 * 1024;
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  svg: "image/svg+xml",
+  webp: "image/webp",
+};
+
+export function imageMimeType(name: string): string | undefined {
+  return IMAGE_TYPES[name.split(".").pop()?.toLowerCase() ?? ""];
+}
+
+export interface CodeRunResult {
+  type: string;
+  stdout?: string;
+  stderr?: string;
+  results?: Array<{ text?: string; png?: string; html?: string }>;
+  generatedFiles?: Array<{ name: string; content: string; size: number }>;
+  error?: string | null;
+}
+
+/** Successful runs of a tool call: the call itself or the fix that succeeded. */
+export function successfulRuns(toolCall: ToolCall): ToolCall[] {
+  return [toolCall, ...(toolCall.repairAttempts ?? [])].filter((run) => {
+    const result = run.result as CodeRunResult | undefined;
+    return run.status === "completed" && result?.type === "code_execution" && !result.error;
+  });
+}
+
+function sectionTitle(content: string): string {
+  const line = content.trim().split("\n")[0] || "分析";
+  return line.length > SECTION_TITLE_LENGTH ? `${line.slice(0, SECTION_TITLE_LENGTH)}…` : line;
+}
+
+/** Split a session into report sections, one per user question. */
+export function collectReport(messages: Message[]): ReportSection[] {
+  const sections: ReportSection[] = [];
+  let current: ReportSection | null = null;
+  const section = () => {
+    if (!current) {
+      current = { id: `s${sections.length}`, title: "概述", items: [], code: [] };
+      sections.push(current);
+    }
+    return current;
+  };
+  // Plans are shown where they were created, in their latest version
+  const latestPlans = new Map<string, Plan>();
+  for (const message of messages) {
+    if (message.plan) latestPlans.set(message.plan.id, message.plan);
+  }
+  const shownPlans = new Set<string>();
+
+  const addToolCall = (toolCall: ToolCall) => {
+    if (toolCall.tool !== "execute_python") return;
+    for (const run of successfulRuns(toolCall)) {
+      const target = section();
+      const result = run.result as CodeRunResult;
+      const codeId = `c${target.id}-${target.code.length}`;
+      target.code.push({ id: codeId, code: String(run.args.code ?? "") });
+      const itemId = (suffix: string) => `${codeId}-${suffix}`;
+
+      if (result.stdout?.trim()) {
+        target.items.push({ id: itemId("stdout"), kind: "output", text: result.stdout.trimEnd(), codeId });
+      }
+      (result.results ?? []).forEach((r, i) => {
+        if (r.png) target.items.push({ id: itemId(`png${i}`), kind: "chart", src: `data:image/png;base64,${r.png}`, codeId });
+        else if (r.html) target.items.push({ id: itemId(`html${i}`), kind: "table", html: r.html, codeId });
+        else if (r.text?.trim()) target.items.push({ id: itemId(`text${i}`), kind: "output", text: r.text, codeId });
+      });
+      (result.generatedFiles ?? []).forEach((f, i) => {
+        const mime = imageMimeType(f.name);
+        target.items.push(
+          mime
+            ? { id: itemId(`file${i}`), kind: "chart", src: `data:${mime};base64,${f.content}`, name: f.name, codeId }
+            : { id: itemId(`file${i}`), kind: "file", name: f.name, size: f.size, content: f.content, codeId }
+        );
+      });
+    }
+  };
+
+  for (const message of messages) {
+    if (message.role === "user") {
+      current = { id: `s${sections.length}`, title: sectionTitle(message.content), items: [], code: [] };
+      sections.push(current);
+      continue;
+    }
+    if (message.role !== "assistant") continue;
+
+    const parts = message.parts?.length
+      ? message.parts
+      : [
+          { type: "text" as const, text: message.content },
+          ...(message.toolCalls ?? []).map((toolCall) => ({ type: "tool_call" as const, toolCall })),
+        ];
+    parts.forEach((part, i) => {
+      if (part.type === "text" && part.text?.trim()) {
+        section().items.push({ id: `${message.id}-t${i}`, kind: "narrative", text: part.text.trim() });
+      } else if (part.type === "plan" && part.plan && !shownPlans.has(part.plan.id)) {
+        shownPlans.add(part.plan.id);
+        const plan = latestPlans.get(part.plan.id) ?? part.plan;
+        section().items.push({ id: `${message.id}-p${i}`, kind: "plan", plan });
+      } else if (part.type === "tool_call" && part.toolCall) {
+        addToolCall(part.toolCall);
+      }
+    });
+  }
+
+  return sections.filter((s) => s.items.length > 0);
+}
@@ -0,0 +1,330 @@
+/**
+ * Static Code Safety Analysis
+ *
+ * A line-based scan of model-generated Python that runs before every
+ * execution. It flags constructs worth a second look — processes, shell
+ * escapes, network access, package installs, deletions outside the sandbox
+ * home, unbounded loops, dynamic code, paths outside the home, process
+ * internals and file writes — so the pending card can show them next to the
+ * code. Saving a chart into the sandbox home is how every plot is shown, so
+ * `savefig` counts as a write only when its target is elsewhere or unknown.
+ * The approval policy reads the same report: only code without any finding
+ * counts as read-only. Categories listed in
+ * `CODE_SAFETY_BLOCKED_CATEGORIES` (comma-separated) are refused outright.
+ *
+ * This is a heuristic for humans, not a security boundary: the sandbox is.
+ */
+
+export type CodeRiskCategory =
+  | "subprocess"
+  | "shell"
+  | "network"
+  | "package_install"
+  | "file_deletion"
+  | "infinite_loop"
+  | "dynamic_code"
+  | "file_access"
+  | "system_access"
+  | "file_write";
+
+export type CodeRiskSeverity = "low" | "medium" | "high";
+
+export interface CodeRiskFinding {
+  category: CodeRiskCategory;
+  severity: CodeRiskSeverity;
+  /** 1-based line number in the submitted code */
+  line: number;
+  snippet: string;
+  message: string;
+}
+
+export interface CodeRiskReport {
+  level: CodeRiskSeverity | "none";
+  findings: CodeRiskFinding[];
+  /** Categories found in the code that the server refuses to run */
+  blockedCategories: CodeRiskCategory[];
+}
+
+export const CODE_RISK_CATEGORIES: readonly CodeRiskCategory[] = [
+  "subprocess",
+  "shell",
+  "network",
+  "package_install",
+  "file_deletion",
+  "infinite_loop",
+  "dynamic_code",
+  "file_access",
+  "system_access",
+  "file_write",
+];
+
+const SANDBOX_HOME = "/home/user";
+const MAX_SNIPPET_LENGTH = 120;
+const SEVERITY_RANK: Record<CodeRiskSeverity, number> = { low: 1, medium: 2, high: 3 };
+
+interface Rule {
+  category: CodeRiskCategory;
+  severity: CodeRiskSeverity;
+  pattern: RegExp;
+  message: string;
+}
+
+const RULES: Rule[] = [
+  {
+    category: "subprocess",
+    severity: "high",
+    pattern: /\bimport\s+subprocess\b|\bfrom\s+subprocess\s+import\b|\bsubprocess\.\w+\s*\(/,
+    message: "启动外部进程 (subprocess)",
+  },
+  {
+    category: "subprocess",
+    severity: "high",
+    pattern: /\bos\.(system|popen|exec\w*|spawn\w*|fork\w*|kill)\s*\(|\bpty\.spawn\s*\(/,
+    message: "通过 os 模块执行系统命令或管理进程",
+  },
+  {
+    category: "shell",
+    severity: "high",
+    pattern: /^\s*!|^\s*%%?(bash|sh|system|sx|script)\b|get_ipython\(\)\.system\s*\(/,
+    message: "Notebook shell 命令",
+  },
+  {
+    category: "network",
+    severity: "medium",
+    pattern: /\b(import|from)\s+(socket|requests|urllib|httpx|aiohttp|ftplib|smtplib|paramiko|telnetlib|http\.client)\b/,
+    message: "导入网络访问模块",
+  },
+  {
+    category: "network",
+    severity: "medium",
+    pattern: /\b(socket\.socket|socket\.create_connection|requests\.\w+|urllib\.request\.\w+|urlopen|httpx\.\w+)\s*\(/,
+    message: "发起网络连接",
+  },
+  {
+    category: "network",
+    severity: "low",
+    pattern: /\bread_\w+\s*\(\s*[rf]?['"](https?|ftp|s3|gs):\/\//,
+    message: "从远程地址读取数据",
+  },
+  {
+    category: "package_install",
+    severity: "medium",
+    pattern: /\b(pip|pip3|conda|mamba)\s+install\b|^\s*%(pip|conda)\b|\bpip\.main\s*\(/,
+    message: "安装软件包",
+  },
+  {
+    category: "dynamic_code",
+    severity: "medium",
+    pattern: /(^|[^.\w])(exec|eval|compile|__import__)\s*\(|\bimportlib\b|\bgetattr\s*\(\s*(os|sys|subprocess|builtins|__builtins__)\b|\bglobals\s*\(\s*\)\s*\[/,
+    message: "动态执行或导入代码",
+  },
+  {
+    category: "system_access",
+    severity: "medium",
+    pattern: /\bos\.(environ|getenv|putenv|chdir|chmod|chown|setuid)\b|\bctypes\b|\bsys\.modules\b|\b__builtins__\b|\bimport\s+builtins\b/,
+    message: "访问环境变量或解释器内部",
+  },
+  {
+    category: "file_write",
+    severity: "low",
+    pattern:
+      /\bopen\s*\([^,)]*,\s*(mode\s*=\s*)?['"][rbt]*[wax+]|\.to_(csv|excel|parquet|json|pickle|feather|hdf|sql|stata|html|latex|markdown|xml|orc)\s*\(|\.(save|write|write_text|write_bytes|writelines|dump)\s*\(|\b(np|numpy)\.(save|savez|savez_compressed|savetxt)\s*\(|\b(shutil\.(copy\w*|move)|os\.(rename|replace|makedirs|mkdir))\s*\(/,
+    message: "写入文件",
+  },
+];
+
+// Absolute path literals, checked against the sandbox home
+const PATH_LITERAL = /[rR]?(['"])((?:\/|~)[A-Za-z0-9_.~-][^'"\s]*)\1/g;
+// Scratch space the kernel may use besides the home
+const SCRATCH_DIR = "/tmp";
+
+// Deletion calls whose first argument is checked against the sandbox home
+const DELETE_CALL = /\b(os\.(?:remove|unlink|rmdir|removedirs)|shutil\.rmtree)\s*\(\s*([^,)]*)/g;
+const PATH_DELETE = /\bPath\s*\(\s*([^)]*)\)\s*\.\s*(unlink|rmdir)\s*\(/g;
+const SHELL_RM = /\brm\s+(?:-[a-zA-Z]+\s+)*([^\s'";|&]+)/g;
+// Chart saves, whose first argument is checked against the sandbox home
+const SAVEFIG_CALL = /\.savefig\s*\(\s*([^,)]*)/g;
+
+/** Drop a trailing `# comment`, keeping `#` inside string literals. */
+function stripComment(line: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quote) {
+      if (ch === "\\") i++;
+      else if (ch === quote) quote = null;
+    } else if (ch === "'" || ch === '"') {
+      quote = ch;
+    } else if (ch === "#") {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+/** The literal value of a (possibly raw) Python string argument, or null. */
+function stringLiteral(arg: string): string | null {
+  const match = /^\s*[rR]?(['"])(.*)\1\s*$/.exec(arg);
+  return match ? match[2] : null;
+}
+
+function isInsideHome(target: string): boolean {
+  if (target.split("/").includes("..")) return false;
+  if (target.startsWith("~")) return false;
+  // Relative paths resolve against the kernel's working directory
+  if (!target.startsWith("/")) return true;
+  return target === SANDBOX_HOME || target.startsWith(`${SANDBOX_HOME}/`);
+}
+
+function deletionFinding(target: string | null, line: number, snippet: string): CodeRiskFinding | null {
+  if (target === null) {
+    return {
+      category: "file_deletion",
+      severity: "medium",
+      line,
+      snippet,
+      message: "删除文件，路径无法静态确定",
+    };
+  }
+  if (isInsideHome(target)) return null;
+  return {
+    category: "file_deletion",
+    severity: "high",
+    line,
+    snippet,
+    message: `删除 ${SANDBOX_HOME} 之外的路径: ${target}`,
+  };
+}
+
+/** Saving a chart writes a file unless it lands in the sandbox home. */
+function savefigFinding(arg: string, line: number, snippet: string): CodeRiskFinding | null {
+  // f-strings count: their placeholders only name the file
+  const match = /^\s*[rRfF]{0,2}(['"])(.*)\1\s*$/.exec(arg);
+  if (match && isInsideHome(match[2])) return null;
+  return {
+    category: "file_write",
+    severity: "low",
+    line,
+    snippet,
+    message: match ? `保存图表到 ${SANDBOX_HOME} 之外: ${match[2]}` : "保存图表，路径无法静态确定",
+  };
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/** `while True:` / `while 1:` whose body never breaks out. */
+function findUnboundedLoops(lines: string[]): number[] {
+  const loops: number[] = [];
+  lines.forEach((line, i) => {
+    const match = /^(\s*)while\s+(True|1)\s*:(.*)$/.exec(line);
+    if (!match) return;
+    const exits = /\b(break|return|raise)\b|\bsys\.exit\s*\(|\bexit\s*\(/;
+    if (match[3].trim()) {
+      if (!exits.test(match[3])) loops.push(i);
+      return;
+    }
+    const indent = match[1].length;
+    for (let j = i + 1; j < lines.length; j++) {
+      if (!lines[j].trim()) continue;
+      if (indentOf(lines[j]) <= indent) break;
+      if (exits.test(lines[j])) return;
+    }
+    loops.push(i);
+  });
+  return loops;
+}
+
+/** Categories refused by server config (`CODE_SAFETY_BLOCKED_CATEGORIES`). */
+export function getBlockedCategories(): Set<CodeRiskCategory> {
+  const configured = (process.env.CODE_SAFETY_BLOCKED_CATEGORIES || "")
+    .split(",")
+    .map((c) => c.trim().toLowerCase());
+  return new Set(
+    CODE_RISK_CATEGORIES.filter((category) => configured.includes(category))
+  );
+}
+
+/** Scan code for risky constructs. One finding per category and line. */
+export function analyzeCode(code: string): CodeRiskReport {
+  const lines = code.split(/\r?\n/).map(stripComment);
+  const findings: CodeRiskFinding[] = [];
+  const seen = new Set<string>();
+  const add = (finding: CodeRiskFinding | null) => {
+    if (!finding) return;
+    const key = `${finding.category}:${finding.line}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    findings.push(finding);
+  };
+
+  lines.forEach((line, i) => {
+    if (!line.trim()) return;
+    const lineNo = i + 1;
+    const snippet = line.trim().slice(0, MAX_SNIPPET_LENGTH);
+
+    for (const rule of RULES) {
+      if (rule.pattern.test(line)) {
+        add({ category: rule.category, severity: rule.severity, line: lineNo, snippet, message: rule.message });
+      }
+    }
+
+    for (const match of Array.from(line.matchAll(DELETE_CALL))) {
+      add(deletionFinding(stringLiteral(match[2]), lineNo, snippet));
+    }
+    for (const match of Array.from(line.matchAll(PATH_DELETE))) {
+      add(deletionFinding(stringLiteral(match[1]), lineNo, snippet));
+    }
+    for (const match of Array.from(line.matchAll(SAVEFIG_CALL))) {
+      add(savefigFinding(match[1], lineNo, snippet));
+    }
+    // `rm` only means something inside shell escapes and command strings
+    if (/^\s*!|\b(system|run|call|check_output|Popen|popen)\s*\(/.test(line)) {
+      for (const match of Array.from(line.matchAll(SHELL_RM))) {
+        add(deletionFinding(match[1], lineNo, snippet));
+      }
+    }
+    // Reading or listing files outside the sandbox home
+    for (const match of Array.from(line.matchAll(PATH_LITERAL))) {
+      const target = match[2];
+      if (isInsideHome(target) || target === SCRATCH_DIR || target.startsWith(`${SCRATCH_DIR}/`)) continue;
+      add({
+        category: "file_access",
+        severity: "medium",
+        line: lineNo,
+        snippet,
+        message: `访问 ${SANDBOX_HOME} 之外的路径: ${target}`,
+      });
+    }
+    if (/\bPath\.home\s*\(|\bexpanduser\s*\(/.test(line)) {
+      add({ category: "file_access", severity: "medium", line: lineNo, snippet, message: "访问用户主目录" });
+    }
+    // Deleting through a Path object or variable we cannot resolve
+    if (/\.\s*(unlink|rmdir)\s*\(/.test(line) && !/\bPath\s*\(/.test(line) && !/\bos\./.test(line)) {
+      add(deletionFinding(null, lineNo, snippet));
+    }
+  });
+
+  for (const i of findUnboundedLoops(lines)) {
+    add({
+      category: "infinite_loop",
+      severity: "medium",
+      line: i + 1,
+      snippet: lines[i].trim().slice(0, MAX_SNIPPET_LENGTH),
+      message: "无退出条件的循环，可能一直运行到超时",
+    });
+  }
+
+  findings.sort((a, b) => a.line - b.line);
+  const level = findings.reduce<CodeRiskReport["level"]>(
+    (max, f) => (max === "none" || SEVERITY_RANK[f.severity] > SEVERITY_RANK[max] ? f.severity : max),
+    "none"
+  );
+  const blocked = getBlockedCategories();
+  const blockedCategories = CODE_RISK_CATEGORIES.filter(
+    (category) => blocked.has(category) && findings.some((f) => f.category === category)
+  );
+
+  return { level, findings, blockedCategories };
+}
@@ -0,0 +1,75 @@
+import { Sandbox as E2BSandbox } from "@e2b/code-interpreter";
+import { Readable } from "node:stream";
+import type { Sandbox, SandboxExecution, SandboxProvider } from "./types";
+
+/**
+ * E2B cloud sandbox backend. Requires `E2B_API_KEY`.
+ */
+export const e2bProvider: SandboxProvider = {
+  name: "e2b",
+
+  async create(options): Promise<Sandbox> {
+    const sandbox = await E2BSandbox.create({
+      apiKey: process.env.E2B_API_KEY,
+      timeoutMs: options?.timeoutMs,
+    });
+
+    return {
+      async writeFile(path, data) {
+        await sandbox.files.write(
+          path,
+          data instanceof Readable
+            ? (Readable.toWeb(data) as ReadableStream)
+            : new Blob([new Uint8Array(data)])
+        );
+      },
+
+      async listFiles(path) {
+        const entries = await sandbox.files.list(path);
+        return entries.map((e) => ({
+          name: e.name,
+          type: e.type === "dir" ? "dir" : "file",
+          size: e.size,
+          modifiedTime: e.modifiedTime?.getTime(),
+        }));
+      },
+
+      async runCode(code, options): Promise<SandboxExecution> {
+        const execution = await sandbox.runCode(code, {
+          onStdout: options?.onStdout && ((m) => options.onStdout!(m.line)),
+          onStderr: options?.onStderr && ((m) => options.onStderr!(m.line)),
+          onResult:
+            options?.onResult &&
+            ((r) => options.onResult!({ text: r.text, png: r.png, html: r.html })),
+          timeoutMs: options?.timeoutMs,
+        });
+        return {
+          logs: {
+            stdout: execution.logs.stdout,
+            stderr: execution.logs.stderr,
+          },
+          results: execution.results.map((r) => ({
+            text: r.text,
+            png: r.png,
+            html: r.html,
+          })),
+          error: execution.error
+            ? {
+                name: execution.error.name,
+                value: execution.error.value,
+                traceback: execution.error.traceback,
+              }
+            : undefined,
+        };
+      },
+
+      async keepAlive(timeoutMs) {
+        await sandbox.setTimeout(timeoutMs);
+      },
+
+      async kill() {
+        await sandbox.kill();
+      },
+    };
+  },
+};
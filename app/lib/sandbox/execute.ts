@@ -0,0 +1,378 @@
+import {
+  getSandboxProvider,
+  type Sandbox,
+  type SandboxFileEntry,
+  type SandboxRunOptions,
+} from "./index";
+import { acquireSession, hashContent, isSessionModeEnabled, releaseSession } from "./sessions";
+import { analyzeCode, type CodeRiskReport } from "./code-safety";
+import { parseExecutionError, type ExecutionErrorDetails } from "./traceback";
+import { pandasReadCall } from "../data-formats";
+import { isValidFileHandle, openUpload } from "../file-store";
+
+/**
+ * Python Execution
+ *
+ * One `execute_python` run: upload the conversation's files, run the code,
+ * then collect figures, stdout/stderr and any files the code created or
+ * modified (with a rich preview for data files). Shared by the
+ * `/api/chat/execute` route (user-approved runs) and the agent graph
+ * (auto-approved runs).
+ */
+
+export const MAX_SINGLE_FILE_SIZE = 5 * 1024 * 1024; // 5MB per file
+export const MAX_TOTAL_FILE_SIZE = 20 * 1024 * 1024; // 20MB total
+export const MAX_CODE_LENGTH = 100000; // 100KB of code
+
+export interface ExecutionFile {
+  name: string;
+  /** Base64-encoded file content (generated files, sessions saved before uploads were stored) */
+  content?: string;
+  /** Upload store handle; the server reads the file from disk */
+  handle?: string;
+}
+
+export interface GeneratedFile {
+  name: string;
+  content: string;
+  size: number;
+  richPreview?: Record<string, unknown>;
+}
+
+export type CodeExecutionResult =
+  | {
+      type: "code_execution";
+      code: string;
+      stdout: string;
+      stderr: string;
+      results: Array<{ text?: string; png?: string; html?: string }>;
+      generatedFiles: GeneratedFile[];
+      error: string | null;
+      errorDetails?: ExecutionErrorDetails;
+    }
+  | {
+      type: "code_execution_error";
+      code: string;
+      error: string;
+    }
+  | {
+      type: "code_execution_blocked";
+      code: string;
+      error: string;
+      riskReport: CodeRiskReport;
+    };
+
+export interface RunPythonOptions extends SandboxRunOptions {
+  /** Aborting kills the kernel, like `cancelExecution`. */
+  signal?: AbortSignal;
+}
+
+export const CANCELLED_MESSAGE = "执行已被用户取消。";
+
+// Cancel hooks of the runs in flight, per conversation
+const runningExecutions = new Map<string, () => void>();
+
+/**
+ * Stop the conversation's running execution by killing its kernel.
+ * Returns false when nothing is running.
+ */
+export function cancelExecution(conversationId: string): boolean {
+  const cancel = runningExecutions.get(conversationId);
+  if (!cancel) return false;
+  cancel();
+  return true;
+}
+
+/** Size + mtime fingerprint used to spot files created or modified by a run. */
+function fileSignature(entry: SandboxFileEntry): string {
+  return `${entry.size}:${entry.modifiedTime ?? ""}`;
+}
+
+/** Check submitted code before running it. Returns an error message, or null. */
+export function validateCode(code: unknown): string | null {
+  if (!code) return "No code provided";
+  if (typeof code !== "string") return "Code must be a string";
+  if (code.length > MAX_CODE_LENGTH) return `Code too long (max ${MAX_CODE_LENGTH / 1024}KB)`;
+  if (code.trim().length === 0) return "Code cannot be empty";
+  return null;
+}
+
+/**
+ * Check the files sent along with an execution against the size limits.
+ * Stored uploads were checked when they were uploaded and only need a
+ * well-formed handle. Returns an error message, or null when they are fine.
+ */
+export function validateExecutionFiles(files: unknown): string | null {
+  if (files === undefined || files === null) return null;
+  if (!Array.isArray(files)) return "Files must be an array";
+
+  let totalFileSize = 0;
+  for (const file of files) {
+    if (!file?.name || (!file?.content && !file?.handle)) return "Invalid file format";
+    if (file.handle !== undefined) {
+      if (!isValidFileHandle(file.handle)) return `Invalid file handle for ${file.name}`;
+      continue;
+    }
+    const size = Buffer.from(file.content, "base64").length;
+    if (size > MAX_SINGLE_FILE_SIZE) {
+      return `File ${file.name} too large (max ${MAX_SINGLE_FILE_SIZE / 1024 / 1024}MB)`;
+    }
+    totalFileSize += size;
+  }
+  if (totalFileSize > MAX_TOTAL_FILE_SIZE) {
+    return `Total file size too large (max ${MAX_TOTAL_FILE_SIZE / 1024 / 1024}MB)`;
+  }
+  return null;
+}
+
+/**
+ * Run Python code in the sandbox. With session mode and a conversation id
+ * the conversation's kernel is reused; otherwise a throwaway sandbox is
+ * created and killed afterwards. Never throws — sandbox failures come back
+ * as `code_execution_error`, code using a blocked risk category as
+ * `code_execution_blocked` without touching the sandbox. Live output goes
+ * to the callbacks in `options` while the code runs.
+ */
+export async function runPythonCode(
+  code: string,
+  files: ExecutionFile[] | undefined,
+  conversationId?: string,
+  options: RunPythonOptions = {}
+): Promise<CodeExecutionResult> {
+  const riskReport = analyzeCode(code);
+  if (riskReport.blockedCategories.length > 0) {
+    return {
+      type: "code_execution_blocked",
+      code,
+      error: `代码包含服务器禁止的操作 (${riskReport.blockedCategories.join(", ")})，未执行。请改用不涉及这些操作的实现方式。`,
+      riskReport,
+    };
+  }
+
+  // In session mode the conversation's kernel outlives this request
+  const useSession =
+    isSessionModeEnabled() &&
+    typeof conversationId === "string" &&
+    conversationId.length > 0;
+
+  let sandbox: Sandbox | null = null;
+  let cancelled = false;
+  const cancel = () => {
+    if (cancelled) return;
+    cancelled = true;
+    // Killing the kernel makes the pending runCode reject
+    if (useSession) releaseSession(conversationId!).catch(() => {});
+    else sandbox?.kill().catch(() => {});
+  };
+  if (conversationId) runningExecutions.set(conversationId, cancel);
+  const { signal, ...runOptions } = options;
+  signal?.addEventListener("abort", cancel);
+
+  try {
+    let fileHashes: Map<string, string> | null = null;
+    let needsSetup = true;
+    if (useSession) {
+      const { session, isNew } = await acquireSession(conversationId!);
+      sandbox = session.sandbox;
+      fileHashes = session.fileHashes;
+      needsSetup = isNew;
+    } else {
+      sandbox = await getSandboxProvider().create();
+    }
+    if (cancelled) throw new Error(CANCELLED_MESSAGE);
+
+    // Upload files to sandbox (session mode skips files already present with the same content)
+    for (const file of files ?? []) {
+      if (file.name && file.handle) {
+        // A handle always names the same bytes, so it doubles as the content hash
+        const hash = `handle:${file.handle}`;
+        if (fileHashes?.get(file.name) === hash) continue;
+        const stream = await openUpload(file.handle);
+        if (!stream) throw new Error(`Uploaded file ${file.name} is no longer available`);
+        try {
+          await sandbox.writeFile(`/home/user/${file.name}`, stream);
+        } finally {
+          stream.destroy();
+        }
+        fileHashes?.set(file.name, hash);
+      } else if (file.name && file.content) {
+        const buffer = Buffer.from(file.content, "base64");
+        if (fileHashes) {
+          const hash = hashContent(buffer);
+          if (fileHashes.get(file.name) === hash) continue;
+          fileHashes.set(file.name, hash);
+        }
+        await sandbox.writeFile(`/home/user/${file.name}`, buffer);
+      }
+    }
+
+    // Configure matplotlib to support Chinese fonts
+    const fontSetupCode = `
+import matplotlib.pyplot as plt
+import matplotlib
+# Try common Chinese fonts in order of preference
+_chinese_fonts = ['SimHei', 'Microsoft YaHei', 'WenQuanYi Micro Hei', 'Noto Sans CJK SC', 'DejaVu Sans']
+_font_set = False
+for _font in _chinese_fonts:
+    try:
+        matplotlib.rcParams['font.sans-serif'] = [_font] + matplotlib.rcParams['font.sans-serif']
+        _font_set = True
+        break
+    except:
+        pass
+if not _font_set:
+    matplotlib.rcParams['font.sans-serif'] = ['DejaVu Sans']
+matplotlib.rcParams['axes.unicode_minus'] = False  # Fix minus sign display
+del _chinese_fonts, _font_set, _font
+`;
+    if (needsSetup) {
+      await sandbox.runCode(fontSetupCode);
+    }
+
+    // Snapshot the user directory so files created or modified by this run can be detected
+    const filesBefore = new Map(
+      (await sandbox.listFiles("/home/user")).map((e) => [e.name, fileSignature(e)])
+    );
+
+    const execution = await sandbox.runCode(code, runOptions);
+
+    const stdout = execution.logs.stdout.join("\n");
+    const stderr = execution.logs.stderr.join("\n");
+    // Deduplicate results: if multiple results have png data, keep only unique ones
+    // This prevents matplotlib auto-display + plt.show() + PIL.open from producing duplicates
+    const rawResults = execution.results.map((r) => ({
+      text: r.text,
+      png: r.png,
+      html: r.html,
+    }));
+    const seenPng = new Set<string>();
+    const results = rawResults.filter((r) => {
+      if (r.png) {
+        // Use first 200 chars of base64 as fingerprint (same image = same prefix)
+        const fingerprint = r.png.substring(0, 200);
+        if (seenPng.has(fingerprint)) return false;
+        seenPng.add(fingerprint);
+      }
+      return true;
+    });
+
+    // Detect newly generated files after code execution
+    const generatedFiles: GeneratedFile[] = [];
+    if (!execution.error) {
+      try {
+        // List files in user directory via SDK
+        const entries = await sandbox.listFiles("/home/user");
+        const newFileNames = entries
+          .filter(
+            (e) =>
+              e.type === "file" &&
+              !e.name.startsWith(".") &&
+              filesBefore.get(e.name) !== fileSignature(e)
+          )
+          .map((e) => e.name);
+
+        if (newFileNames.length > 0) {
+          // Use Python to read and base64-encode new files (binary-safe)
+          const namesJson = JSON.stringify(newFileNames);
+          const readCode = `
+import os, base64, json
+_files = []
+_total = 0
+for _name in ${namesJson}:
+    _fp = os.path.join('/home/user', _name)
+    if os.path.isfile(_fp):
+        _size = os.path.getsize(_fp)
+        if _size <= ${MAX_SINGLE_FILE_SIZE} and _total + _size <= ${MAX_TOTAL_FILE_SIZE}:
+            with open(_fp, 'rb') as _fh:
+                _data = base64.b64encode(_fh.read()).decode()
+            _files.append({'name': _name, 'size': _size, 'content': _data})
+            _total += _size
+print(json.dumps(_files))`;
+          const fileReadExec = await sandbox.runCode(readCode);
+          const fileOutput = fileReadExec.logs.stdout.join("").trim();
+          if (fileOutput) {
+            const parsedFiles: typeof generatedFiles = JSON.parse(fileOutput);
+            generatedFiles.push(...parsedFiles);
+            // The client re-sends generated files later; remember them so they are not re-uploaded
+            if (fileHashes) {
+              for (const gf of parsedFiles) {
+                fileHashes.set(gf.name, hashContent(Buffer.from(gf.content, "base64")));
+              }
+            }
+          }
+        }
+      } catch {
+        // Ignore file discovery errors - don't block the main result
+      }
+
+      // Generate rich previews for generated data files (reuse the still-running sandbox)
+      for (const gf of generatedFiles) {
+        // Formats without a single-table reading (archives, databases) get no preview
+        const readExpr = pandasReadCall(gf.name, `/home/user/${gf.name}`, { nrows: 100 });
+        if (!readExpr) continue;
+        try {
+          const previewPyCode = `
+import pandas as pd, json
+try:
+    _df = ${readExpr}
+    _r = {"fileName":"${gf.name}","shape":list(_df.shape),"columns":list(_df.columns),"dtypes":{c:str(d) for c,d in _df.dtypes.items()},"head":_df.head(5).to_string(index=True),"describe":_df.describe(include='all').to_string(),"null_counts":{k:int(v) for k,v in _df.isnull().sum().to_dict().items()}}
+    print(json.dumps(_r, ensure_ascii=False))
+    del _df, _r
+except Exception as _e:
+    print(json.dumps({"error":str(_e)}))
+`;
+          const previewExec = await sandbox.runCode(previewPyCode);
+          const previewOut = previewExec.logs.stdout.join("").trim();
+          if (previewOut) {
+            const parsed = JSON.parse(previewOut);
+            if (!parsed.error) {
+              gf.richPreview = parsed;
+            }
+          }
+        } catch {
+          // Ignore preview errors
+        }
+      }
+    }
+
+    return {
+      type: "code_execution",
+      code,
+      stdout,
+      stderr,
+      results,
+      generatedFiles,
+      error: execution.error
+        ? execution.error.name + ": " + execution.error.value
+        : null,
+      errorDetails: execution.error
+        ? parseExecutionError(execution.error, code, stderr)
+        : undefined,
+    };
+  } catch (err: unknown) {
+    const errMsg = cancelled
+      ? useSession
+        ? `${CANCELLED_MESSAGE}Python 内核已重启，之前定义的变量和导入已丢失。`
+        : CANCELLED_MESSAGE
+      : err instanceof Error
+        ? err.message
+        : "Unknown error";
+    // The kernel may be dead or wedged — start fresh on the next call
+    if (useSession) {
+      await releaseSession(conversationId!);
+    }
+    return {
+      type: "code_execution_error",
+      code,
+      error: errMsg,
+    };
+  } finally {
+    signal?.removeEventListener("abort", cancel);
+    if (conversationId && runningExecutions.get(conversationId) === cancel) {
+      runningExecutions.delete(conversationId);
+    }
+    if (sandbox && !useSession) {
+      await sandbox.kill().catch(() => {});
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import { e2bProvider } from "./e2b";
+import { localProvider } from "./local";
+import type { SandboxProvider } from "./types";
+
+export * from "./types";
+
+const PROVIDERS: Record<string, SandboxProvider> = {
+  [e2bProvider.name]: e2bProvider,
+  [localProvider.name]: localProvider,
+};
+
+/**
+ * Resolve the sandbox backend from `SANDBOX_PROVIDER` (`e2b` | `local`).
+ * Defaults to E2B so existing deployments keep their behavior.
+ */
+export function getSandboxProvider(): SandboxProvider {
+  const name = (process.env.SANDBOX_PROVIDER || "e2b").toLowerCase();
+  const provider = PROVIDERS[name];
+  if (!provider) {
+    throw new Error(
+      `Unknown SANDBOX_PROVIDER "${name}". Supported: ${Object.keys(PROVIDERS).join(", ")}`
+    );
+  }
+  return provider;
+}
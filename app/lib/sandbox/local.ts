@@ -0,0 +1,345 @@
+import { spawn, type ChildProcessWithoutNullStreams } from "node:child_process";
+import { mkdtemp, mkdir, readdir, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  SANDBOX_HOME,
+  type Sandbox,
+  type SandboxExecution,
+  type SandboxProvider,
+  type SandboxResult,
+  type SandboxRunOptions,
+} from "./types";
+
+/** Per-call execution timeout, matching the E2B default. */
+const RUN_TIMEOUT_MS = 60_000;
+
+/** Prefix of protocol lines written by the driver to the real stdout. */
+const RESPONSE_MARKER = "__NEXT_ANALYST_RESULT__";
+/** Prefix of live output events emitted while a cell is still running. */
+const EVENT_MARKER = "__NEXT_ANALYST_EVENT__";
+
+/**
+ * Python driver that behaves like a minimal Jupyter kernel:
+ * - reads one JSON request per line from stdin (`{"code": "..."}`)
+ * - executes it in a persistent namespace, capturing stdout / stderr
+ * - displays the value of a trailing expression (text + html)
+ * - renders every open matplotlib figure as PNG (on `plt.show()` and at the
+ *   end of the cell), then closes it
+ * - streams output lines and display results as marker-prefixed event lines
+ * - writes one marker-prefixed JSON response line per request
+ *
+ * When running as a plain subprocess the sandbox home is a temp directory,
+ * so `/home/user` in submitted code is rewritten to `NA_HOME`.
+ */
+const DRIVER_SCRIPT = String.raw`
+import ast, base64, io, json, os, sys, traceback, contextlib
+
+HOME = os.environ.get("NA_HOME", "/home/user")
+MARKER = "${RESPONSE_MARKER}"
+EVENT = "${EVENT_MARKER}"
+os.chdir(HOME)
+_ns = {"__name__": "__main__"}
+_out = sys.__stdout__
+_current = {"results": []}
+
+def _emit(kind, payload):
+    payload["kind"] = kind
+    _out.write(EVENT + json.dumps(payload) + "\n")
+    _out.flush()
+
+class _Tee(io.TextIOBase):
+    """Captures a stream and forwards every completed line as an event."""
+    def __init__(self, name):
+        self.name, self.buf, self.partial = name, io.StringIO(), ""
+    def writable(self):
+        return True
+    def write(self, s):
+        self.buf.write(s)
+        self.partial += s
+        if "\n" in self.partial:
+            done, self.partial = self.partial.rsplit("\n", 1)
+            _emit("stream", {"name": self.name, "text": done + "\n"})
+        return len(s)
+    def flush_partial(self):
+        if self.partial:
+            _emit("stream", {"name": self.name, "text": self.partial})
+            self.partial = ""
+    def getvalue(self):
+        return self.buf.getvalue()
+
+def _add(results, item):
+    results.append(item)
+    _emit("result", {"result": item})
+
+def _display(value, results):
+    if value is None:
+        return
+    item = {"text": repr(value)}
+    if hasattr(value, "_repr_html_"):
+        try:
+            html = value._repr_html_()
+            if html:
+                item["html"] = html
+        except Exception:
+            pass
+    _add(results, item)
+
+def _figures(results):
+    plt = sys.modules.get("matplotlib.pyplot")
+    if plt is None:
+        return
+    for num in plt.get_fignums():
+        buf = io.BytesIO()
+        plt.figure(num).savefig(buf, format="png", bbox_inches="tight")
+        _add(results, {"png": base64.b64encode(buf.getvalue()).decode()})
+    plt.close("all")
+
+def _show(*args, **kwargs):
+    _figures(_current["results"])
+
+def _patch_show():
+    plt = sys.modules.get("matplotlib.pyplot")
+    if plt is not None and plt.show is not _show:
+        plt.show = _show
+
+def _run(code):
+    if HOME != "/home/user":
+        code = code.replace("/home/user", HOME)
+    stdout, stderr, results, error = _Tee("stdout"), _Tee("stderr"), [], None
+    _current["results"] = results
+    _patch_show()
+    with contextlib.redirect_stdout(stdout), contextlib.redirect_stderr(stderr):
+        try:
+            tree = ast.parse(code)
+            last = None
+            if tree.body and isinstance(tree.body[-1], ast.Expr):
+                last = ast.Expression(tree.body.pop().value)
+            exec(compile(tree, "<cell>", "exec"), _ns)
+            if last is not None:
+                _display(eval(compile(last, "<cell>", "eval"), _ns), results)
+        except BaseException as e:
+            error = {
+                "name": type(e).__name__,
+                "value": str(e),
+                "traceback": "".join(traceback.format_exception(type(e), e, e.__traceback__)),
+            }
+        try:
+            _figures(results)
+        except Exception:
+            pass
+    stdout.flush_partial()
+    stderr.flush_partial()
+    _patch_show()
+    return {
+        "stdout": stdout.getvalue().splitlines(keepends=True),
+        "stderr": stderr.getvalue().splitlines(keepends=True),
+        "results": results,
+        "error": error,
+    }
+
+for _line in sys.stdin:
+    if not _line.strip():
+        continue
+    _resp = _run(json.loads(_line)["code"])
+    _out.write(MARKER + json.dumps(_resp) + "\n")
+    _out.flush()
+`;
+
+interface DriverEvent {
+  kind: "stream" | "result";
+  name?: "stdout" | "stderr";
+  text?: string;
+  result?: SandboxResult;
+}
+
+interface DriverResponse {
+  stdout: string[];
+  stderr: string[];
+  results: SandboxExecution["results"];
+  error: SandboxExecution["error"] | null;
+}
+
+/** Forward one live driver event to the caller's callbacks. */
+function dispatchEvent(json: string, options: SandboxRunOptions | undefined): void {
+  if (!options) return;
+  let event: DriverEvent;
+  try {
+    event = JSON.parse(json);
+  } catch {
+    return;
+  }
+  if (event.kind === "stream" && event.text) {
+    (event.name === "stderr" ? options.onStderr : options.onStdout)?.(event.text);
+  } else if (event.kind === "result" && event.result) {
+    options.onResult?.(event.result);
+  }
+}
+
+/**
+ * Map an absolute sandbox path (under `/home/user`) to the host directory
+ * that backs it. Rejects paths that escape the sandbox home.
+ */
+function resolveHostPath(hostHome: string, sandboxPath: string): string {
+  const relative = path.posix.relative(SANDBOX_HOME, path.posix.resolve(SANDBOX_HOME, sandboxPath));
+  if (relative.startsWith("..") || path.posix.isAbsolute(relative)) {
+    throw new Error(`Path outside sandbox home: ${sandboxPath}`);
+  }
+  return path.join(hostHome, relative);
+}
+
+/**
+ * Spawn the driver either directly (`python3`) or inside a throwaway Docker
+ * container when `LOCAL_SANDBOX_DOCKER_IMAGE` is set. In Docker mode the
+ * host temp directory is bind-mounted at `/home/user`.
+ */
+function spawnDriver(hostHome: string): ChildProcessWithoutNullStreams {
+  const image = process.env.LOCAL_SANDBOX_DOCKER_IMAGE;
+  const env = { ...process.env, MPLBACKEND: "Agg", PYTHONUNBUFFERED: "1" };
+
+  if (image) {
+    return spawn(
+      "docker",
+      [
+        "run", "-i", "--rm", "--network", "none",
+        "-v", `${hostHome}:${SANDBOX_HOME}`,
+        "-w", SANDBOX_HOME,
+        "-e", "MPLBACKEND=Agg",
+        "-e", `NA_HOME=${SANDBOX_HOME}`,
+        image,
+        "python3", "-u", "-c", DRIVER_SCRIPT,
+      ],
+      { env }
+    );
+  }
+
+  const python = process.env.LOCAL_SANDBOX_PYTHON || "python3";
+  return spawn(python, ["-u", "-c", DRIVER_SCRIPT], {
+    cwd: hostHome,
+    env: { ...env, NA_HOME: hostHome },
+  });
+}
+
+/**
+ * Local sandbox backend: a long-lived Python process per sandbox, with a
+ * temp directory standing in for `/home/user`. No network access or API
+ * key is needed, so it works on air-gapped machines and in CI.
+ */
+export const localProvider: SandboxProvider = {
+  name: "local",
+
+  async create(): Promise<Sandbox> {
+    const hostHome = await mkdtemp(path.join(tmpdir(), "next-analyst-"));
+    const proc = spawnDriver(hostHome);
+
+    let buffer = "";
+    let exited = false;
+    let pending: {
+      resolve: (r: DriverResponse) => void;
+      reject: (e: Error) => void;
+      options?: SandboxRunOptions;
+    } | null = null;
+    // Serialize runCode calls: the kernel executes one cell at a time
+    let queue: Promise<unknown> = Promise.resolve();
+
+    proc.stdout.setEncoding("utf-8");
+    proc.stdout.on("data", (chunk: string) => {
+      buffer += chunk;
+      let newline: number;
+      while ((newline = buffer.indexOf("\n")) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 1);
+        if (line.startsWith(EVENT_MARKER) && pending) {
+          dispatchEvent(line.slice(EVENT_MARKER.length), pending.options);
+          continue;
+        }
+        // Output written straight to fd 1 (e.g. os.system) is not protocol
+        if (!line.startsWith(RESPONSE_MARKER) || !pending) continue;
+        const { resolve, reject } = pending;
+        pending = null;
+        try {
+          resolve(JSON.parse(line.slice(RESPONSE_MARKER.length)));
+        } catch (err) {
+          reject(err instanceof Error ? err : new Error("Invalid driver response"));
+        }
+      }
+    });
+    // Drain stderr so a chatty interpreter never blocks on a full pipe
+    proc.stderr.resume();
+    proc.on("exit", () => {
+      exited = true;
+      pending?.reject(new Error("Sandbox process exited"));
+      pending = null;
+    });
+    proc.on("error", (err) => {
+      exited = true;
+      pending?.reject(err);
+      pending = null;
+    });
+
+    const send = (code: string, options?: SandboxRunOptions) =>
+      new Promise<DriverResponse>((resolve, reject) => {
+        if (exited) {
+          reject(new Error("Sandbox process is not running"));
+          return;
+        }
+        const timeoutMs = options?.timeoutMs ?? RUN_TIMEOUT_MS;
+        const timer = setTimeout(() => {
+          pending = null;
+          proc.kill();
+          reject(new Error(`Execution timed out after ${timeoutMs / 1000}s`));
+        }, timeoutMs);
+        pending = {
+          options,
+          resolve: (r) => {
+            clearTimeout(timer);
+            resolve(r);
+          },
+          reject: (e) => {
+            clearTimeout(timer);
+            reject(e);
+          },
+        };
+        proc.stdin.write(JSON.stringify({ code }) + "\n");
+      });
+
+    return {
+      async writeFile(sandboxPath, data) {
+        const hostPath = resolveHostPath(hostHome, sandboxPath);
+        await mkdir(path.dirname(hostPath), { recursive: true });
+        await writeFile(hostPath, data);
+      },
+
+      async listFiles(sandboxPath) {
+        const hostDir = resolveHostPath(hostHome, sandboxPath);
+        const entries = await readdir(hostDir, { withFileTypes: true });
+        return Promise.all(
+          entries.map(async (e) => {
+            const info = await stat(path.join(hostDir, e.name));
+            return {
+              name: e.name,
+              type: e.isDirectory() ? ("dir" as const) : ("file" as const),
+              size: info.size,
+              modifiedTime: info.mtimeMs,
+            };
+          })
+        );
+      },
+
+      runCode(code, options) {
+        const run = queue.then(() => send(code, options));
+        queue = run.catch(() => {});
+        return run.then((r) => ({
+          logs: { stdout: r.stdout, stderr: r.stderr },
+          results: r.results,
+          error: r.error ?? undefined,
+        }));
+      },
+
+      async kill() {
+        if (!exited) proc.kill();
+        await rm(hostHome, { recursive: true, force: true });
+      },
+    };
+  },
+};
@@ -0,0 +1,121 @@
+import { createHash } from "node:crypto";
+import { getSandboxProvider } from "./index";
+import type { Sandbox } from "./types";
+
+/**
+ * Persistent Sandbox Sessions
+ *
+ * When `SANDBOX_SESSION_MODE=true`, each conversation keeps one sandbox
+ * (and therefore one Python kernel) alive across `execute_python` calls so
+ * variables, imports and loaded DataFrames persist between steps. Sessions
+ * are torn down after `SANDBOX_SESSION_IDLE_TIMEOUT_MS` of inactivity or
+ * explicitly via `releaseSession`.
+ */
+
+const DEFAULT_IDLE_TIMEOUT_MS = 15 * 60 * 1000; // 15 minutes
+const MAX_SESSIONS = 50;
+
+export interface SandboxSession {
+  conversationId: string;
+  sandbox: Sandbox;
+  /** Content hash per file name already present in the sandbox home. */
+  fileHashes: Map<string, string>;
+  lastUsed: number;
+  idleTimer?: ReturnType<typeof setTimeout>;
+}
+
+const sessions = new Map<string, Promise<SandboxSession>>();
+
+export function isSessionModeEnabled(): boolean {
+  return process.env.SANDBOX_SESSION_MODE === "true";
+}
+
+function getIdleTimeout(): number {
+  const value = Number(process.env.SANDBOX_SESSION_IDLE_TIMEOUT_MS);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_IDLE_TIMEOUT_MS;
+}
+
+export function hashContent(data: Buffer): string {
+  return createHash("sha1").update(data).digest("hex");
+}
+
+function scheduleIdleTeardown(session: SandboxSession) {
+  const idleTimeout = getIdleTimeout();
+  if (session.idleTimer) clearTimeout(session.idleTimer);
+  session.idleTimer = setTimeout(() => {
+    releaseSession(session.conversationId).catch(() => {});
+  }, idleTimeout);
+  // Never keep the Node process alive just for an idle sandbox
+  session.idleTimer.unref?.();
+  session.sandbox.keepAlive?.(idleTimeout + 60_000).catch(() => {});
+}
+
+/** Evict the least recently used session when the registry is full. */
+async function evictIfFull() {
+  if (sessions.size < MAX_SESSIONS) return;
+  const settled = await Promise.all(
+    Array.from(sessions.values()).map((p) => p.catch(() => null))
+  );
+  const oldest = settled
+    .filter((s): s is SandboxSession => s !== null)
+    .sort((a, b) => a.lastUsed - b.lastUsed)[0];
+  if (oldest) await releaseSession(oldest.conversationId);
+}
+
+/**
+ * Get the live session for a conversation, creating a sandbox on first use.
+ * `isNew` tells the caller to run one-time setup (fonts, etc.).
+ */
+export async function acquireSession(
+  conversationId: string
+): Promise<{ session: SandboxSession; isNew: boolean }> {
+  const existing = sessions.get(conversationId);
+  if (existing) {
+    try {
+      const session = await existing;
+      session.lastUsed = Date.now();
+      scheduleIdleTeardown(session);
+      return { session, isNew: false };
+    } catch {
+      // Creation failed earlier — fall through and retry
+      sessions.delete(conversationId);
+    }
+  }
+
+  await evictIfFull();
+
+  const creating = getSandboxProvider()
+    .create({ timeoutMs: getIdleTimeout() + 60_000 })
+    .then((sandbox) => {
+      const session: SandboxSession = {
+        conversationId,
+        sandbox,
+        fileHashes: new Map(),
+        lastUsed: Date.now(),
+      };
+      scheduleIdleTeardown(session);
+      return session;
+    });
+  sessions.set(conversationId, creating);
+
+  try {
+    return { session: await creating, isNew: true };
+  } catch (err) {
+    sessions.delete(conversationId);
+    throw err;
+  }
+}
+
+/** Kill a conversation's sandbox and forget it. No-op if none exists. */
+export async function releaseSession(conversationId: string): Promise<void> {
+  const entry = sessions.get(conversationId);
+  if (!entry) return;
+  sessions.delete(conversationId);
+  try {
+    const session = await entry;
+    if (session.idleTimer) clearTimeout(session.idleTimer);
+    await session.sandbox.kill();
+  } catch {
+    // Already gone
+  }
+}
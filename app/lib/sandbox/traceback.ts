@@ -0,0 +1,58 @@
+import type { SandboxExecutionError } from "./types";
+
+/**
+ * Structured view of a failed execution, so the model gets the failing line
+ * of *its* code instead of a raw (often ANSI-colored) Jupyter traceback.
+ */
+export interface ExecutionErrorDetails {
+  /** Exception class, e.g. `KeyError` */
+  name: string;
+  message: string;
+  /** 1-based line in the submitted code, when the traceback points into it */
+  line?: number;
+  lineText?: string;
+  /** Last non-empty stderr lines (warnings often explain the failure) */
+  stderrTail: string[];
+}
+
+const STDERR_TAIL_LINES = 10;
+
+// Frames of the executed cell: IPython (`Cell In[3], line 7`), older
+// IPython (`<ipython-input-3-…>`) and the local driver (`<cell>`)
+const CELL_FRAME = /Cell In\[\d+\], line (\d+)|File "<(?:cell|ipython-input[^>]*)>", line (\d+)/g;
+
+function stripAnsi(text: string): string {
+  return text.replace(/\x1b\[[0-9;]*m/g, "");
+}
+
+/** Map a sandbox error onto the submitted code. */
+export function parseExecutionError(
+  error: SandboxExecutionError,
+  code: string,
+  stderr: string
+): ExecutionErrorDetails {
+  const traceback = stripAnsi(error.traceback || "");
+  // The innermost frame in the user's cell is the last one listed
+  let line: number | undefined;
+  for (const match of Array.from(traceback.matchAll(CELL_FRAME))) {
+    line = Number(match[1] ?? match[2]);
+  }
+
+  const codeLines = code.split(/\r?\n/);
+  const lineText =
+    line !== undefined && line >= 1 && line <= codeLines.length
+      ? codeLines[line - 1].trim()
+      : undefined;
+
+  return {
+    name: error.name,
+    message: stripAnsi(error.value),
+    line: lineText !== undefined ? line : undefined,
+    lineText,
+    stderrTail: stderr
+      .split(/\r?\n/)
+      .map((l) => stripAnsi(l).trimEnd())
+      .filter(Boolean)
+      .slice(-STDERR_TAIL_LINES),
+  };
+}
@@ -0,0 +1,91 @@
+import type { Readable } from "node:stream";
+
+/**
+ * Sandbox Provider Contract
+ *
+ * Every code-execution backend (E2B cloud, local subprocess, Docker, ...)
+ * implements this interface so the API routes never depend on a specific SDK.
+ * The execution shape mirrors the E2B `Execution` object (`logs` / `results` /
+ * `error`) so existing callers keep working unchanged.
+ */
+
+/** Home directory inside the sandbox that user files are written to. */
+export const SANDBOX_HOME = "/home/user";
+
+/** A single rich output produced by a cell (display data / last expression). */
+export interface SandboxResult {
+  text?: string;
+  png?: string;
+  html?: string;
+}
+
+/** Error raised by the executed code. */
+export interface SandboxExecutionError {
+  name: string;
+  value: string;
+  traceback: string;
+}
+
+/** Outcome of a single `runCode` call. */
+export interface SandboxExecution {
+  logs: {
+    stdout: string[];
+    stderr: string[];
+  };
+  results: SandboxResult[];
+  error?: SandboxExecutionError;
+}
+
+/**
+ * Optional live callbacks for a `runCode` call. They fire while the cell is
+ * still running; the returned `SandboxExecution` still contains everything.
+ */
+export interface SandboxRunOptions {
+  onStdout?: (text: string) => void;
+  onStderr?: (text: string) => void;
+  /** A display result (e.g. a figure from `plt.show()`) as soon as it exists. */
+  onResult?: (result: SandboxResult) => void;
+  /** Per-call execution timeout; backends default to 60s. */
+  timeoutMs?: number;
+}
+
+/** Entry returned by `listFiles`. */
+export interface SandboxFileEntry {
+  name: string;
+  type: "file" | "dir";
+  size: number;
+  /** Last modification time in epoch milliseconds, when the backend reports it. */
+  modifiedTime?: number;
+}
+
+/** A running sandbox instance with a stateful Python kernel. */
+export interface Sandbox {
+  /**
+   * Write binary content to an absolute path inside the sandbox. Stored
+   * uploads arrive as a stream so large files are never buffered whole.
+   */
+  writeFile(path: string, data: Buffer | Readable): Promise<void>;
+  /** List the direct children of a directory inside the sandbox. */
+  listFiles(path: string): Promise<SandboxFileEntry[]>;
+  /** Execute Python code in the sandbox kernel. */
+  runCode(code: string, options?: SandboxRunOptions): Promise<SandboxExecution>;
+  /**
+   * Extend the sandbox lifetime. Cloud backends expire sandboxes on their
+   * own; local backends live until `kill` and may omit this.
+   */
+  keepAlive?(timeoutMs: number): Promise<void>;
+  /** Tear down the sandbox and release all resources. */
+  kill(): Promise<void>;
+}
+
+export interface SandboxCreateOptions {
+  /** Requested lifetime for backends that expire sandboxes automatically. */
+  timeoutMs?: number;
+}
+
+/** Factory for sandboxes of one backend. */
+export interface SandboxProvider {
+  /** Identifier used in the `SANDBOX_PROVIDER` env variable. */
+  readonly name: string;
+  create(options?: SandboxCreateOptions): Promise<Sandbox>;
+}
@@ -0,0 +1,82 @@
+/**
+ * HTML Output Sanitizer
+ *
+ * Code results carry HTML (pandas tables) that the chat and the exported
+ * report render as markup. Results can come from imported notebooks, so the
+ * HTML is rebuilt from an allow-list of table and text markup: every other
+ * tag is dropped (script-like ones with their content), attributes are
+ * limited to a few layout ones, and stray angle brackets are escaped.
+ * Works without a DOM, on the server as well as in the browser.
+ */
+
+const ALLOWED_TAGS = new Set([
+  "table", "thead", "tbody", "tfoot", "tr", "th", "td", "caption", "colgroup", "col",
+  "div", "span", "p", "br", "hr", "b", "strong", "i", "em", "small", "sub", "sup",
+  "code", "pre", "ul", "ol", "li", "h1", "h2", "h3", "h4", "h5", "h6",
+]);
+
+// Tags whose content must go with them
+const DROPPED_WITH_CONTENT = new Set([
+  "script", "style", "iframe", "object", "embed", "noscript", "template", "textarea", "title", "svg", "math",
+]);
+
+const ALLOWED_ATTRIBUTES: Record<string, RegExp> = {
+  colspan: /^\d{1,4}$/,
+  rowspan: /^\d{1,4}$/,
+  border: /^\d{1,2}$/,
+  align: /^(left|right|center|justify)$/i,
+  valign: /^(top|middle|bottom|baseline)$/i,
+  class: /^[\w\s-]{0,200}$/,
+};
+
+const TAG = /<(\/?)([a-zA-Z][\w-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*\/?>/g;
+const ATTRIBUTE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+const COMMENT = /<!--[\s\S]*?(-->|$)|<![^>]*>|<\?[^>]*>/g;
+
+function escapeText(text: string): string {
+  return text.replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function sanitizeAttributes(source: string): string {
+  let result = "";
+  let match: RegExpExecArray | null;
+  ATTRIBUTE.lastIndex = 0;
+  while ((match = ATTRIBUTE.exec(source))) {
+    const name = match[1].toLowerCase();
+    const value = match[2] ?? match[3] ?? match[4] ?? "";
+    const allowed = ALLOWED_ATTRIBUTES[name];
+    if (allowed?.test(value)) result += ` ${name}="${value.replace(/"/g, "&quot;")}"`;
+  }
+  return result;
+}
+
+/** Keep only table and text markup from untrusted result HTML. */
+export function sanitizeHtml(html: string): string {
+  const source = html.replace(COMMENT, "");
+  let result = "";
+  let last = 0;
+  // Inside a dropped-with-content tag: its name, until it closes
+  let skipping: string | null = null;
+  let match: RegExpExecArray | null;
+  TAG.lastIndex = 0;
+
+  while ((match = TAG.exec(source))) {
+    const [tag, closing, rawName, attributes] = match;
+    const name = rawName.toLowerCase();
+    if (!skipping) result += escapeText(source.slice(last, match.index));
+    last = match.index + tag.length;
+
+    if (skipping) {
+      if (closing && name === skipping) skipping = null;
+      continue;
+    }
+    if (DROPPED_WITH_CONTENT.has(name)) {
+      if (!closing && !tag.endsWith("/>")) skipping = name;
+      continue;
+    }
+    if (!ALLOWED_TAGS.has(name)) continue;
+    result += closing ? `</${name}>` : `<${name}${sanitizeAttributes(attributes)}>`;
+  }
+  if (!skipping) result += escapeText(source.slice(last));
+  return result;
+}
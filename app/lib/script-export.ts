@@ -0,0 +1,438 @@
+import type { FileAttachment, Message, Plan, PlanStep, ToolCall } from "../hooks/useChat";
+import { successfulRuns } from "./report";
+
+/**
+ * Reproducible Script Export
+ *
+ * Stitches the code of a plan's completed steps into one Python script that
+ * runs outside the sandbox. Self-contained executions repeat the same
+ * imports, data loads and cleaning at their top, so the script merges the
+ * imports, reads every input file once in `load_data()`, drops the leading
+ * statements a step repeats from an earlier one, and wraps each step in a
+ * function. A repeated read is kept when earlier code rebound or changed
+ * the loaded variable, since the step expects the file's original data.
+ * Sandbox paths are rewritten to a data and an output directory, and
+ * figures are saved instead of shown. The code is handled line by line, not
+ * parsed, so the script says it should be checked against the session.
+ */
+
+export interface ScriptStep {
+  title: string;
+  /** Successful code runs stitched into the step */
+  runs: number;
+}
+
+export interface ReproducibleScript {
+  script: string;
+  requirements: string;
+  steps: ScriptStep[];
+}
+
+// Import names whose pip package is named differently
+const PIP_PACKAGES: Record<string, string> = {
+  sklearn: "scikit-learn",
+  cv2: "opencv-python",
+  PIL: "pillow",
+  yaml: "pyyaml",
+  bs4: "beautifulsoup4",
+  dateutil: "python-dateutil",
+  docx: "python-docx",
+  pptx: "python-pptx",
+  pyreadstat: "pyreadstat",
+  IPython: "ipython",
+};
+
+// pandas readers and writers that need an optional engine
+const PANDAS_ENGINES: Array<[RegExp, string]> = [
+  [/\b(read_excel|to_excel|ExcelWriter)\b/, "openpyxl"],
+  [/\b(read_parquet|to_parquet|read_feather|to_feather)\b/, "pyarrow"],
+  [/\bread_spss\b/, "pyreadstat"],
+];
+
+const STDLIB_MODULES = new Set([
+  "__future__", "abc", "argparse", "ast", "base64", "bisect", "calendar", "collections", "contextlib",
+  "copy", "csv", "dataclasses", "datetime", "decimal", "enum", "fractions", "functools", "glob",
+  "gzip", "hashlib", "heapq", "io", "itertools", "json", "logging", "math", "operator", "os",
+  "pathlib", "pickle", "pprint", "random", "re", "shutil", "sqlite3", "statistics", "string",
+  "struct", "sys", "tempfile", "textwrap", "time", "traceback", "typing", "unicodedata", "urllib",
+  "uuid", "warnings", "zipfile",
+]);
+
+const SANDBOX_PATH = /(^|[^\w])(["'])\/home\/user(?:\/([^"'\n{}]*))?\2/g;
+const IMPORT_STATEMENT = /^(import|from)\s/;
+const DATA_LOAD = /^([A-Za-z_]\w*)\s*=\s*(pd\.read_\w+\([\s\S]*\))$/;
+const ASSIGNMENT = /^\(?([A-Za-z_]\w*(?:\s*,\s*[A-Za-z_]\w*)*)\)?\s*(?:[-+*/%|&@^]|\/\/|\*\*)?=(?!=)/;
+const DEFINITION = /^(?:async\s+)?(?:def|class)\s+([A-Za-z_]\w*)/;
+// A last line worth showing, e.g. `df.describe()` or `summary["total"]`
+const BARE_EXPRESSION = /^[A-Za-z_]\w*(?:\.\w+|\[[^\]\n]*\]|\([^()\n]*\))*$/;
+const SIDE_EFFECT_CALL = /^(?:print|display|plt|sns|fig|ax)\b|\.(?:to_\w+|save\w*|show|plot|write\w*|close)\(/;
+
+// ============================================================================
+// Python statements
+// ============================================================================
+
+/**
+ * Split code into top-level statements: a statement runs until the next
+ * unindented line outside brackets, strings and line continuations.
+ */
+function splitStatements(code: string): string[] {
+  const statements: string[][] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let continued = false;
+  let decorator = false;
+
+  for (const line of code.replace(/\r\n/g, "\n").split("\n")) {
+    const trimmed = line.trim();
+    const startsStatement =
+      depth === 0 &&
+      !quote &&
+      !continued &&
+      !decorator &&
+      trimmed !== "" &&
+      !/^\s/.test(line) &&
+      !/^(else|elif|except|finally)\b/.test(trimmed);
+    if (startsStatement || statements.length === 0) statements.push([line]);
+    else statements[statements.length - 1].push(line);
+
+    // Track brackets and strings; comments end the scan
+    let i = 0;
+    while (i < line.length) {
+      const ch = line[i];
+      if (quote) {
+        if (ch === "\\") i += 2;
+        else if (line.startsWith(quote, i)) {
+          i += quote.length;
+          quote = null;
+        } else i++;
+        continue;
+      }
+      if (ch === "#") break;
+      if (ch === '"' || ch === "'") {
+        quote = line.startsWith(ch.repeat(3), i) ? ch.repeat(3) : ch;
+        i += quote.length;
+        continue;
+      }
+      if ("([{".includes(ch)) depth++;
+      else if (")]}".includes(ch)) depth = Math.max(0, depth - 1);
+      i++;
+    }
+    // Only triple-quoted strings span lines
+    if (quote?.length === 1) quote = null;
+    continued = !quote && /\\$/.test(line);
+    decorator = depth === 0 && !quote && trimmed.startsWith("@");
+  }
+
+  return statements.map((lines) => lines.join("\n").trimEnd()).filter((s) => s.trim());
+}
+
+function isComment(statement: string): boolean {
+  return statement.split("\n").every((line) => !line.trim() || line.trim().startsWith("#"));
+}
+
+/** Names a top-level statement binds that later code may read. */
+function assignedNames(statement: string): string[] {
+  const definition = DEFINITION.exec(statement);
+  if (definition) return [definition[1]];
+  const assignment = ASSIGNMENT.exec(statement);
+  return assignment ? assignment[1].split(",").map((name) => name.trim()) : [];
+}
+
+function mentions(code: string, name: string): boolean {
+  return new RegExp(`(^|[^\\w.])${name}\\b`).test(code);
+}
+
+/**
+ * Whether a statement rebinds `name` or changes it in place: `df = …`,
+ * `df["x"] = …`, `df.loc[…] += …`, `del df[…]`, `df.insert(…)` or a call
+ * with `inplace=True`, also inside blocks.
+ */
+function changes(statement: string, name: string): boolean {
+  if (assignedNames(statement).includes(name)) return true;
+  const target = `(^|[^\\w.])${name}`;
+  return [
+    `(^|\\n)\\s*${name}(?:\\.\\w+|\\[[^\\]\\n]*\\])*\\s*(?:[-+*/%|&@^]|//|\\*\\*)?=(?!=)`,
+    `\\bdel\\s+${name}\\b`,
+    `${target}\\.(?:insert|pop|update)\\(`,
+    `${target}(?:\\.\\w+|\\[[^\\]\\n]*\\])*\\.\\w+\\([^\\n]*\\binplace\\s*=\\s*True`,
+  ].some((pattern) => new RegExp(pattern).test(statement));
+}
+
+function indent(code: string): string {
+  return code
+    .split("\n")
+    .map((line) => (line.trim() ? `    ${line}` : ""))
+    .join("\n");
+}
+
+/** Merged import statements: plain imports, then one `from` line per module. */
+class ImportSet {
+  private plain = new Set<string>();
+  private from = new Map<string, Set<string>>();
+
+  add(statement: string) {
+    // Fold parenthesized and continued imports into one line
+    const text = statement.replace(/\\\n/g, " ").replace(/[()]/g, "").replace(/\s+/g, " ").trim();
+    const fromImport = /^from (\S+) import (.+)$/.exec(text);
+    if (fromImport) {
+      const names = this.from.get(fromImport[1]) ?? new Set<string>();
+      for (const name of fromImport[2].split(",")) {
+        if (name.trim()) names.add(name.trim());
+      }
+      this.from.set(fromImport[1], names);
+      return;
+    }
+    for (const name of text.replace(/^import /, "").split(",")) {
+      if (name.trim()) this.plain.add(`import ${name.trim()}`);
+    }
+  }
+
+  has(statement: string): boolean {
+    return this.plain.has(statement);
+  }
+
+  /** Top-level modules, for the requirements file. */
+  modules(): string[] {
+    const names = [
+      ...Array.from(this.plain).map((s) => s.replace(/^import /, "").split(/[ .]/)[0]),
+      ...Array.from(this.from.keys()).map((m) => m.split(".")[0]),
+    ];
+    return Array.from(new Set(names)).filter((name) => name && !name.startsWith("."));
+  }
+
+  lines(): string[] {
+    return [
+      ...Array.from(this.plain).sort(),
+      ...Array.from(this.from.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([module, names]) => `from ${module} import ${Array.from(names).sort().join(", ")}`),
+    ];
+  }
+}
+
+// ============================================================================
+// Script
+// ============================================================================
+
+/** The latest version of the session's most recent plan. */
+function latestPlan(messages: Message[]): { plan: Plan; messageIndex: number } | null {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const plan = messages[i].plan;
+    if (plan) return { plan, messageIndex: i };
+  }
+  return null;
+}
+
+/** Successful runs grouped by completed plan step, in plan order. */
+function stepRuns(messages: Message[]): Array<{ step: Pick<PlanStep, "title">; runs: ToolCall[] }> {
+  const latest = latestPlan(messages);
+  if (!latest) return [];
+  const completed = latest.plan.steps.filter((s) => s.status === "completed");
+  const runsAfterPlan = messages
+    .slice(latest.messageIndex)
+    .flatMap((m) => m.toolCalls ?? [])
+    .filter((t) => t.tool === "execute_python")
+    .flatMap((t) => successfulRuns(t).map((run) => ({ ...run, stepId: run.stepId ?? t.stepId })));
+
+  const byStep = completed
+    .map((step) => ({ step, runs: runsAfterPlan.filter((run) => run.stepId === step.id) }))
+    .filter((entry) => entry.runs.length > 0);
+  if (byStep.length > 0 || completed.length === 0) return byStep;
+  // Sessions from before runs recorded their step: one step per run
+  return runsAfterPlan.map((run, i) => ({ step: { title: `代码块 ${i + 1}` }, runs: [run] }));
+}
+
+/** Rewrite sandbox paths to the input data or the output directory. */
+function rewritePaths(code: string, inputs: Set<string>): string {
+  return code.replace(SANDBOX_PATH, (_match, before: string, _quote: string, name = "") => {
+    const top = name.split("/")[0];
+    const isInput = !name || inputs.has(name) || inputs.has(`${top}.zip`);
+    const dir = isInput ? "DATA_DIR" : "OUTPUT_DIR";
+    return name ? `${before}os.path.join(${dir}, ${JSON.stringify(name)})` : `${before}${dir}`;
+  });
+}
+
+function requirementsFor(imports: ImportSet, code: string): string {
+  const packages = new Set(
+    imports
+      .modules()
+      .filter((module) => !STDLIB_MODULES.has(module))
+      .map((module) => PIP_PACKAGES[module] ?? module)
+  );
+  for (const [pattern, engine] of PANDAS_ENGINES) {
+    if (pattern.test(code)) packages.add(engine);
+  }
+  return [
+    "# 由 Next Analyst 根据分析脚本的导入生成，未固定版本。",
+    "# 如需与分析沙箱完全一致，可在沙箱中运行 pip freeze 并固定版本。",
+    ...Array.from(packages).sort((a, b) => a.localeCompare(b)),
+    "",
+  ].join("\n");
+}
+
+/**
+ * Build the script and its requirements from the completed steps of the
+ * session's plan. Returns null when no completed step ran any code.
+ */
+export function buildReproducibleScript(
+  messages: Message[],
+  sessionFiles: FileAttachment[],
+  title: string
+): ReproducibleScript | null {
+  const groups = stepRuns(messages);
+  if (groups.length === 0) return null;
+
+  const inputs = new Set([
+    ...sessionFiles.filter((f) => !f.isGenerated).map((f) => f.name),
+    ...messages.flatMap((m) => m.files ?? []).map((f) => f.name),
+  ]);
+  const imports = new ImportSet();
+  imports.add("import argparse");
+  imports.add("import os");
+  // Input files read once: normalized reader call → variable
+  const loads = new Map<string, string>();
+  // Hoisted variable → its reader call
+  const loadedBy = new Map<string, string>();
+  // Names a kept statement has assigned; loaded ones that were changed are reloaded
+  const bound = new Set<string>();
+  const changed = new Set<string>();
+  const seen = new Set<string>();
+  const keep = (statement: string) => {
+    for (const name of assignedNames(statement)) bound.add(name);
+    for (const name of Array.from(loadedBy.keys())) {
+      if (changes(statement, name)) changed.add(name);
+    }
+  };
+
+  const bodies = groups.map(({ runs }) => {
+    const statements: string[] = [];
+    for (const run of runs) {
+      const code = rewritePaths(String(run.args.code ?? ""), inputs);
+      const start = statements.length;
+      // Statements repeated from earlier steps are dropped up to the first new one
+      let leading = true;
+      let comments: string[] = [];
+      for (const statement of splitStatements(code)) {
+        if (/^[%!]/.test(statement)) continue;
+        if (IMPORT_STATEMENT.test(statement)) {
+          imports.add(statement);
+          continue;
+        }
+        if (isComment(statement)) {
+          comments.push(statement);
+          continue;
+        }
+        const load = DATA_LOAD.exec(statement);
+        let reload = false;
+        if (load && load[2].includes("DATA_DIR")) {
+          const [, name, call] = load;
+          const reader = call.replace(/\s+/g, "");
+          // Hoist the first read unless the name already holds something else
+          if (!loads.has(reader) && !bound.has(name) && !loadedBy.has(name)) {
+            loads.set(reader, `${name} = ${call}`);
+            loadedBy.set(name, reader);
+            comments = [];
+            continue;
+          }
+          // A repeated read is only redundant while no kept code changed the
+          // data; otherwise it stays, and so does the code repeated after it
+          reload = changed.has(name);
+          if (leading && loadedBy.get(name) === reader && !reload) {
+            comments = [];
+            continue;
+          }
+        }
+        if (leading && !reload && seen.has(statement)) {
+          comments = [];
+          continue;
+        }
+        leading = false;
+        statements.push(...comments, statement);
+        keep(statement);
+        comments = [];
+      }
+      if (!leading) statements.push(...comments);
+      // Show a trailing expression, as the notebook cell did
+      const last = statements.length > start ? statements[statements.length - 1] : "";
+      if (BARE_EXPRESSION.test(last) && !SIDE_EFFECT_CALL.test(last)) {
+        statements[statements.length - 1] = `display(${last})`;
+      }
+      for (const statement of splitStatements(code)) seen.add(statement);
+    }
+    return statements;
+  });
+
+  const plotting = imports.modules().some((m) => m === "matplotlib" || m === "seaborn");
+  if (plotting && !imports.has("import matplotlib.pyplot as plt")) imports.add("import matplotlib.pyplot as plt");
+  const allCode = [...bodies.flat(), ...Array.from(loads.values())].join("\n");
+  const loadedNames = Array.from(loads.values()).map((statement) => statement.split(" = ")[0]);
+  const needsDisplay = mentions(allCode, "display") && !imports.lines().some((line) => /\bdisplay\b/.test(line));
+
+  const steps = bodies.map((statements, i) => {
+    const others = bodies.filter((_, j) => j !== i).flat().join("\n");
+    const shared = Array.from(
+      new Set(statements.flatMap(assignedNames).filter((name) => loadedNames.includes(name) || mentions(others, name)))
+    );
+    const lines = [
+      `def step_${i + 1}():`,
+      `    """步骤 ${i + 1}：${groups[i].step.title.replace(/"""/g, "'''")}"""`,
+      ...(shared.length > 0 ? [`    global ${shared.join(", ")}`] : []),
+      indent(statements.join("\n")) || "    pass",
+      ...(plotting ? [`    save_figures("step_${i + 1}")`] : []),
+    ];
+    return lines.join("\n");
+  });
+
+  const stepList = groups.map((g, i) => `    ${i + 1}. ${g.step.title}`).join("\n");
+  const sections = [
+    `"""\n${title.replace(/"""/g, "'''")}\n\n由 Next Analyst 根据已完成的分析计划生成的可复现脚本。\n各步骤的代码在会话中分别运行，这里合并了导入、数据文件尽量只读取一次，\n并去掉了步骤开头重复的读取和清洗代码（数据已被修改时保留重新读取）。运行结果请与会话中的结果核对。\n\n步骤:\n${stepList}\n\n用法:\n    pip install -r requirements.txt\n    python analysis.py --data-dir 数据文件目录 --output-dir outputs\n"""`,
+    [
+      ...(plotting ? ["import matplotlib", "", 'matplotlib.use("Agg")  # 无界面环境：图表保存为文件', ""] : []),
+      // matplotlib itself is imported above, before anything loads pyplot
+      ...imports.lines().filter((line) => !plotting || line !== "import matplotlib"),
+    ].join("\n"),
+    'DATA_DIR = "."\nOUTPUT_DIR = "outputs"',
+  ];
+  if (needsDisplay) {
+    sections.push(
+      'def display(*objs):\n    """Notebook 中的 display() 在脚本中打印输出。"""\n    for obj in objs:\n        print(obj)'
+    );
+  }
+  if (plotting) {
+    sections.push(
+      'def save_figures(prefix):\n    """保存并关闭当前打开的所有图表。"""\n    for i, num in enumerate(plt.get_fignums(), 1):\n        plt.figure(num).savefig(os.path.join(OUTPUT_DIR, f"{prefix}_fig{i}.png"), dpi=150, bbox_inches="tight")\n    plt.close("all")'
+    );
+  }
+  if (loads.size > 0) {
+    sections.push(
+      [
+        "def load_data():",
+        '    """读取数据文件，每个文件只读取一次。"""',
+        `    global ${Array.from(new Set(loadedNames)).join(", ")}`,
+        indent(Array.from(loads.values()).join("\n")),
+      ].join("\n")
+    );
+  }
+  sections.push(...steps);
+  sections.push(
+    [
+      "def main():",
+      "    global DATA_DIR, OUTPUT_DIR",
+      `    parser = argparse.ArgumentParser(description=${JSON.stringify(title)})`,
+      '    parser.add_argument("--data-dir", default=DATA_DIR, help="数据文件所在目录")',
+      '    parser.add_argument("--output-dir", default=OUTPUT_DIR, help="输出文件目录")',
+      "    args = parser.parse_args()",
+      "    DATA_DIR, OUTPUT_DIR = args.data_dir, args.output_dir",
+      "    os.makedirs(OUTPUT_DIR, exist_ok=True)",
+      ...(loads.size > 0 ? ["", "    load_data()"] : []),
+      ...groups.flatMap((g, i) => [`    print(${JSON.stringify(`== 步骤 ${i + 1}：${g.step.title}`)})`, `    step_${i + 1}()`]),
+    ].join("\n")
+  );
+  sections.push('if __name__ == "__main__":\n    main()');
+
+  return {
+    script: sections.join("\n\n\n") + "\n",
+    requirements: requirementsFor(imports, allCode),
+    steps: groups.map((g) => ({ title: g.step.title, runs: g.runs.length })),
+  };
+}
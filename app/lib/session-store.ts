@@ -0,0 +1,159 @@
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { generateUUID } from "./uuid";
+
+/**
+ * Conversation Store
+ *
+ * Persists analysis sessions (message history, tool call results, plans,
+ * session files and the audit trail of confirmed / denied actions) as one
+ * JSON file per session under `NEXT_ANALYST_DATA_DIR/sessions` (default:
+ * `.data/sessions`). The server treats messages, files and confirmations as
+ * opaque JSON — their shape is owned by the client (`useChat`).
+ */
+
+export interface StoredSession {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: unknown[];
+  sessionFiles: unknown[];
+  /** Decisions on `confirm_action` requests; absent in sessions saved before it existed */
+  confirmations?: unknown[];
+}
+
+export type SessionSummary = Pick<StoredSession, "id" | "title" | "createdAt" | "updatedAt"> & {
+  messageCount: number;
+};
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/;
+const MAX_TITLE_LENGTH = 100;
+
+export function getDataDir(): string {
+  return process.env.NEXT_ANALYST_DATA_DIR || path.join(process.cwd(), ".data");
+}
+
+function sessionsDir(): string {
+  return path.join(getDataDir(), "sessions");
+}
+
+export function isValidSessionId(id: unknown): id is string {
+  return typeof id === "string" && SESSION_ID_PATTERN.test(id);
+}
+
+function sessionPath(id: string): string {
+  if (!isValidSessionId(id)) throw new Error("Invalid session id");
+  return path.join(sessionsDir(), `${id}.json`);
+}
+
+export function normalizeTitle(title: unknown): string {
+  const text = typeof title === "string" ? title.trim() : "";
+  return (text || "新的分析").slice(0, MAX_TITLE_LENGTH);
+}
+
+/** Write via a temp file + rename so a crash never leaves half a session. */
+async function writeSession(session: StoredSession): Promise<void> {
+  await mkdir(sessionsDir(), { recursive: true });
+  const target = sessionPath(session.id);
+  const tmp = `${target}.${process.pid}.${generateUUID()}.tmp`;
+  await writeFile(tmp, JSON.stringify(session), "utf-8");
+  await rename(tmp, target);
+}
+
+// Pending read-modify-write per session id, so concurrent PATCHes apply in order
+const writeQueues = new Map<string, Promise<unknown>>();
+
+function withSessionLock<T>(id: string, fn: () => Promise<T>): Promise<T> {
+  const run = (writeQueues.get(id) ?? Promise.resolve()).then(fn, fn);
+  const queued = run.catch(() => {});
+  writeQueues.set(id, queued);
+  queued.then(() => {
+    if (writeQueues.get(id) === queued) writeQueues.delete(id);
+  });
+  return run;
+}
+
+export async function getSession(id: string): Promise<StoredSession | null> {
+  try {
+    return JSON.parse(await readFile(sessionPath(id), "utf-8")) as StoredSession;
+  } catch {
+    return null;
+  }
+}
+
+/** All sessions, most recently updated first. */
+export async function listSessions(): Promise<SessionSummary[]> {
+  let names: string[];
+  try {
+    names = await readdir(sessionsDir());
+  } catch {
+    return [];
+  }
+
+  const summaries = await Promise.all(
+    names
+      .filter((n) => n.endsWith(".json"))
+      .map(async (n) => {
+        const session = await getSession(n.slice(0, -".json".length));
+        if (!session) return null;
+        return {
+          id: session.id,
+          title: session.title,
+          createdAt: session.createdAt,
+          updatedAt: session.updatedAt,
+          messageCount: session.messages.length,
+        };
+      })
+  );
+
+  return summaries
+    .filter((s): s is SessionSummary => s !== null)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function createSession(title?: string): Promise<StoredSession> {
+  const now = Date.now();
+  const session: StoredSession = {
+    id: generateUUID(),
+    title: normalizeTitle(title),
+    createdAt: now,
+    updatedAt: now,
+    messages: [],
+    sessionFiles: [],
+    confirmations: [],
+  };
+  await writeSession(session);
+  return session;
+}
+
+/** Apply a partial update (rename and/or new content). Returns null if missing. */
+export async function updateSession(
+  id: string,
+  patch: Partial<Pick<StoredSession, "title" | "messages" | "sessionFiles" | "confirmations">>
+): Promise<StoredSession | null> {
+  return withSessionLock(id, async () => {
+    const session = await getSession(id);
+    if (!session) return null;
+
+    const updated: StoredSession = {
+      ...session,
+      ...(patch.title !== undefined ? { title: normalizeTitle(patch.title) } : {}),
+      ...(patch.messages !== undefined ? { messages: patch.messages } : {}),
+      ...(patch.sessionFiles !== undefined ? { sessionFiles: patch.sessionFiles } : {}),
+      ...(patch.confirmations !== undefined ? { confirmations: patch.confirmations } : {}),
+      updatedAt: Date.now(),
+    };
+    await writeSession(updated);
+    return updated;
+  });
+}
+
+export async function deleteSession(id: string): Promise<boolean> {
+  return withSessionLock(id, async () => {
+    const existing = await getSession(id);
+    if (!existing) return false;
+    await rm(sessionPath(id), { force: true });
+    return true;
+  });
+}
@@ -1,9 +1,18 @@
 "use client";
 
-import { useChat } from "./hooks/useChat";
+import { useChat, type ApprovalPolicy } from "./hooks/useChat";
 import { ChatMessages } from "./components/ChatMessages";
 import { ChatInput, type ChatInputHandle } from "./components/ChatInput";
 import { SampleQuestions } from "./components/SampleQuestions";
+import { SessionSidebar } from "./components/SessionSidebar";
+import { KnowledgePanel } from "./components/KnowledgePanel";
+import { LineagePanel } from "./components/LineagePanel";
+import { ConfirmationLog } from "./components/ConfirmationLog";
+import { ReportBuilder } from "./components/ReportBuilder";
+import { ScriptExport } from "./components/ScriptExport";
+import { useKnowledgeBase } from "./hooks/useKnowledgeBase";
+import { downloadBlob } from "./lib/download";
+import { buildNotebook } from "./lib/notebook";
 import { useState, useRef, useCallback } from "react";
 
 function exportChatAsMarkdown(messages: any[]): string {
@@ -24,9 +33,18 @@ function exportChatAsMarkdown(messages: any[]): string {
   return markdown;
 }
 
+const APPROVAL_POLICY_LABELS: Record<ApprovalPolicy, string> = {
+  always_ask: "每次执行前确认",
+  auto_read_only: "只读代码自动执行",
+  auto_all: "本会话全部自动执行",
+};
+
 export default function Home() {
-  const { messages, isLoading, isPreviewingFiles, sendMessage, clearMessages, approveToolCall, rejectToolCall, pendingFiles, addFiles, removeFile } = useChat();
+  const { messages, isLoading, isPreviewingFiles, sendMessage, clearMessages, approveToolCall, rejectToolCall, resolveConfirmation, confirmations, answerInformationRequest, selectAnalysisOptions, cancelToolCall, approvalPolicy, setApprovalPolicy, autoRepair, setAutoRepair, pendingFiles, sessionFiles, rederiveFile, addFiles, removeFile, sessionId, sessions, loadSession, renameSession, deleteSession, importNotebook } = useChat();
+  const knowledge = useKnowledgeBase();
   const [showExportMenu, setShowExportMenu] = useState(false);
+  const [showReportBuilder, setShowReportBuilder] = useState(false);
+  const [showScriptExport, setShowScriptExport] = useState(false);
   const chatInputRef = useRef<ChatInputHandle>(null);
 
   const handleQuestionSelect = useCallback((question: string, file?: any) => {
@@ -36,25 +54,17 @@ export default function Home() {
     }
   }, [addFiles]);
 
-  const handleConfirm = useCallback((action: string) => {
-    sendMessage(`我确认执行操作: ${action}`);
-  }, [sendMessage]);
-
-  const handleReject = useCallback((action: string) => {
-    sendMessage(`我取消了操作: ${action}`);
-  }, [sendMessage]);
-
   const handleExportMarkdown = () => {
     const markdown = exportChatAsMarkdown(messages);
-    const blob = new Blob([markdown], { type: "text/markdown" });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = `chat-export-${Date.now()}.md`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadBlob(markdown, `chat-export-${Date.now()}.md`, "text/markdown");
+    setShowExportMenu(false);
+  };
+
+  const sessionTitle = sessions.find((s) => s.id === sessionId)?.title || "数据分析";
+
+  const handleExportNotebook = () => {
+    const notebook = buildNotebook(messages, sessionTitle);
+    downloadBlob(JSON.stringify(notebook, null, 1), `analysis-${Date.now()}.ipynb`, "application/x-ipynb+json");
     setShowExportMenu(false);
   };
 
@@ -74,6 +84,31 @@ export default function Home() {
           </div>
         </div>
         <div className="flex items-center gap-2">
+          <select
+            value={approvalPolicy}
+            onChange={(e) => setApprovalPolicy(e.target.value as ApprovalPolicy)}
+            className="rounded-lg border border-zinc-200 bg-white px-2 py-1.5 text-xs text-zinc-500 outline-none transition-all hover:bg-zinc-50 hover:text-zinc-700 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-400"
+            aria-label="Code approval policy"
+            title="Python 代码执行策略（只读代码：不写文件、不调用系统命令或网络）"
+          >
+            {(Object.keys(APPROVAL_POLICY_LABELS) as ApprovalPolicy[]).map((policy) => (
+              <option key={policy} value={policy}>
+                🐍 {APPROVAL_POLICY_LABELS[policy]}
+              </option>
+            ))}
+          </select>
+          <label
+            className="flex cursor-pointer items-center gap-1.5 rounded-lg border border-zinc-200 bg-white px-2 py-1.5 text-xs text-zinc-500 transition-all hover:bg-zinc-50 hover:text-zinc-700 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-400"
+            title="代码出错时由助手自动修正并重新运行（最多 3 次，高风险代码仍需确认）"
+          >
+            <input
+              type="checkbox"
+              checked={autoRepair}
+              onChange={(e) => setAutoRepair(e.target.checked)}
+              className="h-3 w-3 accent-indigo-600"
+            />
+            🔧 自动修复
+          </label>
           {messages.length > 0 && (
             <div className="relative">
               <button
@@ -91,6 +126,30 @@ export default function Home() {
                   >
                     导出为 Markdown
                   </button>
+                  <button
+                    onClick={handleExportNotebook}
+                    className="w-full px-4 py-2 text-left text-xs text-zinc-600 hover:bg-zinc-50 dark:text-zinc-400 dark:hover:bg-zinc-700 rounded-lg"
+                  >
+                    导出为 Jupyter Notebook
+                  </button>
+                  <button
+                    onClick={() => {
+                      setShowReportBuilder(true);
+                      setShowExportMenu(false);
+                    }}
+                    className="w-full px-4 py-2 text-left text-xs text-zinc-600 hover:bg-zinc-50 dark:text-zinc-400 dark:hover:bg-zinc-700 rounded-lg"
+                  >
+                    生成分析报告 (HTML/PDF)
+                  </button>
+                  <button
+                    onClick={() => {
+                      setShowScriptExport(true);
+                      setShowExportMenu(false);
+                    }}
+                    className="w-full px-4 py-2 text-left text-xs text-zinc-600 hover:bg-zinc-50 dark:text-zinc-400 dark:hover:bg-zinc-700 rounded-lg"
+                  >
+                    导出可复现脚本 (.py)
+                  </button>
                 </div>
               )}
             </div>
@@ -105,32 +164,73 @@ export default function Home() {
         </div>
       </header>
 
-      {/* Messages or Sample Questions */}
-      {messages.length === 0 ? (
-        <div className="flex-1 overflow-y-auto">
-          <SampleQuestions onQuestionSelect={handleQuestionSelect} />
+      <div className="flex min-h-0 flex-1">
+        {/* Past analyses */}
+        <SessionSidebar
+          sessions={sessions}
+          currentSessionId={sessionId}
+          disabled={isLoading}
+          onSelect={loadSession}
+          onNew={clearMessages}
+          onRename={renameSession}
+          onDelete={deleteSession}
+          onImport={importNotebook}
+        >
+          <LineagePanel files={sessionFiles} disabled={isLoading} onRederive={rederiveFile} />
+          <ConfirmationLog confirmations={confirmations} />
+          <KnowledgePanel
+            documents={knowledge.documents}
+            isUploading={knowledge.isUploading}
+            onUpload={knowledge.uploadDocuments}
+            onDelete={knowledge.deleteDocument}
+          />
+        </SessionSidebar>
+
+        <div className="flex min-w-0 flex-1 flex-col">
+          {/* Messages or Sample Questions */}
+          {messages.length === 0 ? (
+            <div className="flex-1 overflow-y-auto">
+              <SampleQuestions onQuestionSelect={handleQuestionSelect} />
+            </div>
+          ) : (
+            <ChatMessages
+              messages={messages}
+              onResolveConfirmation={resolveConfirmation}
+              onAnswerInformation={answerInformationRequest}
+              sessionFiles={sessionFiles}
+              onApproveToolCall={approveToolCall}
+              onRejectToolCall={rejectToolCall}
+              onCancelToolCall={cancelToolCall}
+              onSuggestionClick={sendMessage}
+              onSelectAnalysisOptions={selectAnalysisOptions}
+            />
+          )}
+
+          {showReportBuilder && (
+            <ReportBuilder messages={messages} onClose={() => setShowReportBuilder(false)} />
+          )}
+
+          {showScriptExport && (
+            <ScriptExport
+              messages={messages}
+              sessionFiles={sessionFiles}
+              title={sessionTitle}
+              onClose={() => setShowScriptExport(false)}
+            />
+          )}
+
+          {/* Input */}
+          <ChatInput
+            ref={chatInputRef}
+            onSend={sendMessage}
+            isLoading={isLoading}
+            isPreviewingFiles={isPreviewingFiles}
+            pendingFiles={pendingFiles}
+            onAddFiles={addFiles}
+            onRemoveFile={removeFile}
+          />
         </div>
-      ) : (
-        <ChatMessages
-          messages={messages}
-          onConfirm={handleConfirm}
-          onReject={handleReject}
-          onApproveToolCall={approveToolCall}
-          onRejectToolCall={rejectToolCall}
-          onSuggestionClick={sendMessage}
-        />
-      )}
-
-      {/* Input */}
-      <ChatInput
-        ref={chatInputRef}
-        onSend={sendMessage}
-        isLoading={isLoading}
-        isPreviewingFiles={isPreviewingFiles}
-        pendingFiles={pendingFiles}
-        onAddFiles={addFiles}
-        onRemoveFile={removeFile}
-      />
+      </div>
     </div>
   );
 }